@@ -1,32 +1,46 @@
 import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import { Platform } from 'react-native';
+import { Platform, View } from 'react-native';
+import { useTheme } from '@/components/ThemeProvider';
+import { useI18n } from '@/components/LocaleProvider';
+import ThemeToggle from '@/components/ThemeToggle';
+import LanguageToggle from '@/components/LanguageToggle';
 
 export default function TabLayout() {
+  const { colors } = useTheme();
+  const { t } = useI18n();
+
   return (
     <Tabs
       screenOptions={{
         headerShown: true,
         headerStyle: {
-          backgroundColor: '#fff',
+          backgroundColor: colors.surface,
         },
+        headerTintColor: colors.text,
         headerShadowVisible: false,
+        headerLeft: () => (
+          <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+            <ThemeToggle />
+            <LanguageToggle />
+          </View>
+        ),
         tabBarStyle: {
-          backgroundColor: '#fff',
+          backgroundColor: colors.surface,
           borderTopWidth: 1,
-          borderTopColor: 'rgba(0, 0, 0, 0.1)',
+          borderTopColor: colors.border,
           height: Platform.OS === 'ios' ? 88 : 64,
           paddingBottom: Platform.OS === 'ios' ? 28 : 12,
           paddingTop: 12,
         },
-        tabBarActiveTintColor: '#007AFF',
-        tabBarInactiveTintColor: '#6B7280',
+        tabBarActiveTintColor: colors.accent,
+        tabBarInactiveTintColor: colors.textSecondary,
       }}>
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Timers',
-          headerTitle: 'My Timers',
+          title: t('tabs.timers'),
+          headerTitle: t('tabs.timersHeader'),
           tabBarIcon: ({ focused, size, color }) => (
             <Ionicons 
               name={focused ? "timer" : "timer-outline"} 
@@ -39,8 +53,8 @@ export default function TabLayout() {
       <Tabs.Screen
         name="history"
         options={{
-          title: 'History',
-          headerTitle: 'Timer History',
+          title: t('tabs.history'),
+          headerTitle: t('tabs.historyHeader'),
           tabBarIcon: ({ focused, size, color }) => (
             <Ionicons 
               name={focused ? "time" : "time-outline"} 
@@ -50,6 +64,20 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="stats"
+        options={{
+          title: t('tabs.stats'),
+          headerTitle: t('tabs.statsHeader'),
+          tabBarIcon: ({ focused, size, color }) => (
+            <Ionicons 
+              name={focused ? "stats-chart" : "stats-chart-outline"} 
+              size={24} 
+              color={color} 
+            />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
\ No newline at end of file
@@ -1,148 +1,443 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Tabs } from 'expo-router';
+import { Swipeable } from 'react-native-gesture-handler';
 import { MotiView } from 'moti';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useTimerStore } from '@/store/TimerProvider';
+import { timerActions } from '@/store/timerReducer';
+import { HistoryEntry, HistoryOutcome, Lap } from '@/types/timer';
+import { formatRelativeTime, formatTime } from '@/utils/format';
+import { MessageKey } from '@/i18n';
+import { confirmAction } from '@/utils/confirm';
+import { formatLapTime, getFastestLap } from '@/utils/stopwatch';
+import DataTransferMenu from '@/components/DataTransferMenu';
+import { useI18n } from '@/components/LocaleProvider';
+import { getCategoryLabel } from '@/utils/categories';
+import { formatTimeOfDay } from '@/utils/schedule';
+import {
+  filterHistory,
+  groupHistoryByDay,
+  HistoryDateRange,
+} from '@/utils/history';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { springTransition, timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
 
-type HistoryEntry = {
-  timerId: string;
-  name: string;
-  category: string;
-  completedAt: string;
+const OUTCOME_LABELS: Record<HistoryOutcome, MessageKey> = {
+  completed: 'history.outcome.completed',
+  reset: 'history.outcome.reset',
+  deleted: 'history.outcome.deleted',
 };
 
+const getOutcomeColors = (
+  colors: ThemeColors
+): Record<HistoryOutcome, string> => ({
+  completed: colors.success,
+  reset: colors.warning,
+  deleted: colors.danger,
+});
+
+const RANGE_OPTIONS: { value: HistoryDateRange; label: MessageKey }[] = [
+  { value: 'all', label: 'history.range.all' },
+  { value: 'today', label: 'history.range.today' },
+  { value: 'week', label: 'history.range.week' },
+  { value: 'month', label: 'history.range.month' },
+];
+
 export default function HistoryScreen() {
-  const [history, setHistory] = useState<HistoryEntry[]>([]);
-
-  useEffect(() => {
-    loadHistory();
-  }, []);
-
-  const loadHistory = async () => {
-    try {
-      const storedHistory = await AsyncStorage.getItem('timerHistory');
-      if (storedHistory) {
-        setHistory(JSON.parse(storedHistory));
-      }
-    } catch (error) {
-      console.error('Error loading history:', error);
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const {
+    state: { history },
+    dispatch,
+  } = useTimerStore();
+  const [query, setQuery] = useState('');
+  const [range, setRange] = useState<HistoryDateRange>('all');
+  const [categories, setCategories] = useState<string[]>([]);
+
+  const allCategories = useMemo(
+    () => [...new Set(history.map((entry) => entry.category))].sort(),
+    [history]
+  );
+
+  const sections = useMemo(() => {
+    const now = Date.now();
+    return groupHistoryByDay(
+      filterHistory(history, { query, categories, range }, now),
+      now
+    );
+    // Day titles are written in the active language through the global `t`,
+    // which the linter cannot see.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history, query, categories, range, locale]);
+
+  const toggleCategory = (category: string) => {
+    setCategories((current) =>
+      current.includes(category)
+        ? current.filter((c) => c !== category)
+        : [...current, category]
+    );
+  };
+
+  const handleClearHistory = () => {
+    confirmAction(
+      t('history.clearTitle'),
+      t('history.clearMessage'),
+      t('history.clear'),
+      () => dispatch(timerActions.clearHistory())
+    );
+  };
+
+  /** "5 minutes ago · 14:32": when the run ended. */
+  const formatEndedAt = (dateString: string) => {
+    const endedAt = new Date(dateString).getTime();
+    return `${formatRelativeTime(endedAt, Date.now())} · ${formatTimeOfDay(
+      endedAt
+    )}`;
+  };
+
+  const formatDetails = (entry: HistoryEntry) => {
+    const details: string[] = [];
+    if (entry.duration !== undefined) {
+      details.push(
+        t('history.details.set', { time: formatTime(entry.duration) })
+      );
     }
+    if (entry.activeSeconds !== undefined) {
+      details.push(
+        t('history.details.ran', { time: formatTime(entry.activeSeconds) })
+      );
+    }
+    if (entry.pauseCount) {
+      const pausedSeconds = Math.round((entry.totalPausedMs ?? 0) / 1000);
+      details.push(
+        t('history.details.paused', {
+          count: entry.pauseCount,
+          time: formatTime(pausedSeconds),
+        })
+      );
+    }
+    return details.join(' · ');
   };
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleString();
+  const formatSteps = (entry: HistoryEntry) =>
+    entry.steps
+      ?.map((step) => `${step.name} ${formatTime(step.activeSeconds)}`)
+      .join(' → ');
+
+  const formatLaps = (laps: Lap[]) => {
+    const fastest = getFastestLap(laps);
+    return t('history.laps', {
+      count: laps.length,
+      fastest: fastest ? formatLapTime(fastest.lapMs) : '–',
+    });
   };
 
+  const renderDeleteAction = (entry: HistoryEntry) => (
+    <TouchableOpacity
+      style={styles.deleteAction}
+      onPress={() => dispatch(timerActions.deleteHistoryEntry(entry.id))}>
+      <Ionicons name="trash-outline" size={22} color={colors.onAccent} />
+      <Text style={styles.deleteActionText}>{t('common.delete')}</Text>
+    </TouchableOpacity>
+  );
+
+  const filtersActive =
+    query.trim() !== '' || categories.length > 0 || range !== 'all';
+
   return (
     <View style={styles.container}>
-      <ScrollView style={styles.scrollView}>
-        {history.length === 0 ? (
+      <Tabs.Screen options={{ headerRight: () => <DataTransferMenu /> }} />
+      <View style={styles.filters}>
+        <View style={styles.searchRow}>
+          <View style={styles.searchBox}>
+            <Ionicons name="search" size={18} color={colors.textSecondary} />
+            <TextInput
+              style={styles.searchInput}
+              placeholder={t('history.searchPlaceholder')}
+              accessibilityLabel={t('history.searchPlaceholder')}
+              value={query}
+              onChangeText={setQuery}
+              autoCorrect={false}
+            />
+          </View>
+          <TouchableOpacity
+            style={styles.clearButton}
+            onPress={handleClearHistory}
+            disabled={history.length === 0}
+            accessibilityRole="button"
+            accessibilityLabel={t('history.clearTitle')}>
+            <Ionicons
+              name="trash-outline"
+              size={22}
+              color={history.length === 0 ? colors.borderStrong : colors.danger}
+            />
+          </TouchableOpacity>
+        </View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chips}>
+          {RANGE_OPTIONS.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[styles.chip, range === option.value && styles.chipActive]}
+              onPress={() => setRange(option.value)}>
+              <Text
+                style={[
+                  styles.chipText,
+                  range === option.value && styles.chipTextActive,
+                ]}>
+                {t(option.label)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {allCategories.map((category) => (
+            <TouchableOpacity
+              key={category}
+              style={[
+                styles.chip,
+                styles.categoryChip,
+                categories.includes(category) && styles.chipActive,
+              ]}
+              onPress={() => toggleCategory(category)}>
+              <Text
+                style={[
+                  styles.chipText,
+                  categories.includes(category) && styles.chipTextActive,
+                ]}>
+                {getCategoryLabel(category)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+      <SectionList
+        style={styles.scrollView}
+        contentContainerStyle={styles.listContent}
+        sections={sections}
+        keyExtractor={(entry) => entry.id}
+        stickySectionHeadersEnabled={false}
+        ListEmptyComponent={
           <MotiView
             from={{ opacity: 0, scale: 0.9 }}
             animate={{ opacity: 1, scale: 1 }}
-            transition={{ type: 'spring', damping: 15 }}
+            transition={springTransition(['opacity', 'scale'])}
             style={styles.emptyContainer}>
-            <Text style={styles.emptyText}>No completed timers yet</Text>
+            <Text style={styles.emptyText}>
+              {filtersActive
+                ? t('history.noMatchesTitle')
+                : t('history.emptyTitle')}
+            </Text>
             <Text style={styles.emptySubtext}>
-              Complete some timers to see them here
+              {filtersActive
+                ? t('history.noMatchesMessage')
+                : t('history.emptyMessage')}
             </Text>
           </MotiView>
-        ) : (
-          history
-            .sort(
-              (a, b) => new Date(b.completedAt).getTime() - new Date(a.completedAt).getTime()
-            )
-            .map((entry, index) => (
-              <MotiView
-                key={`${entry.timerId}-${index}`}
-                from={{ opacity: 0, translateY: 20 }}
-                animate={{ opacity: 1, translateY: 0 }}
-                transition={{
-                  type: 'timing',
-                  duration: 500,
-                  delay: index * 100,
-                }}
-                style={styles.historyItem}>
-                <LinearGradient
-                  colors={['#F9FAFB', '#F3F4F6']}
-                  style={styles.historyItemGradient}>
-                  <View style={styles.historyHeader}>
-                    <Text style={styles.timerName}>{entry.name}</Text>
-                    <Text style={styles.category}>{entry.category}</Text>
-                  </View>
-                  <Text style={styles.completedAt}>
-                    Completed: {formatDate(entry.completedAt)}
+        }
+        renderSectionHeader={({ section }) => (
+          <Text style={styles.sectionHeader}>{section.title}</Text>
+        )}
+        renderItem={({ item: entry, index }) => (
+          <MotiView
+            from={{ opacity: 0, translateY: 20 }}
+            animate={{ opacity: 1, translateY: 0 }}
+            transition={timingTransition(
+              ['opacity', 'translateY'],
+              500,
+              Math.min(index, 10) * 50
+            )}
+            style={styles.historyItem}>
+            <Swipeable
+              renderRightActions={() => renderDeleteAction(entry)}
+              overshootRight={false}>
+              <LinearGradient
+                colors={[colors.surfaceMuted, colors.background]}
+                style={styles.historyItemGradient}>
+                <View style={styles.historyHeader}>
+                  <Text style={styles.timerName}>{entry.name}</Text>
+                  <Text style={styles.category}>
+                    {getCategoryLabel(entry.category)}
                   </Text>
-                </LinearGradient>
-              </MotiView>
-            ))
+                </View>
+                <Text style={styles.completedAt}>
+                  <Text
+                    style={{ color: getOutcomeColors(colors)[entry.outcome] }}>
+                    {t(OUTCOME_LABELS[entry.outcome])}
+                  </Text>
+                  {' · '}
+                  {formatEndedAt(entry.endedAt)}
+                </Text>
+                {formatDetails(entry) ? (
+                  <Text style={styles.details}>{formatDetails(entry)}</Text>
+                ) : null}
+                {entry.steps?.length ? (
+                  <Text style={styles.details}>{formatSteps(entry)}</Text>
+                ) : null}
+                {entry.laps?.length ? (
+                  <Text style={styles.details}>{formatLaps(entry.laps)}</Text>
+                ) : null}
+              </LinearGradient>
+            </Swipeable>
+          </MotiView>
         )}
-      </ScrollView>
+      />
     </View>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#F3F4F6',
-  },
-  scrollView: {
-    flex: 1,
-    padding: 16,
-  },
-  emptyContainer: {
-    flex: 1,
-    alignItems: 'center',
-    justifyContent: 'center',
-    marginTop: 40,
-  },
-  emptyText: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#4B5563',
-    marginBottom: 8,
-  },
-  emptySubtext: {
-    fontSize: 14,
-    color: '#6B7280',
-  },
-  historyItem: {
-    marginBottom: 12,
-    borderRadius: 12,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
-  },
-  historyItemGradient: {
-    padding: 16,
-  },
-  historyHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  timerName: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#1F2937',
-  },
-  category: {
-    fontSize: 14,
-    color: '#007AFF',
-    backgroundColor: '#EBF5FF',
-    paddingHorizontal: 12,
-    paddingVertical: 4,
-    borderRadius: 16,
-    overflow: 'hidden',
-  },
-  completedAt: {
-    fontSize: 14,
-    color: '#6B7280',
-  },
-});
\ No newline at end of file
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    filters: {
+      paddingHorizontal: 16,
+      paddingTop: 16,
+    },
+    searchRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    searchBox: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 10,
+      marginStart: 8,
+      fontSize: 16,
+      color: colors.text,
+    },
+    clearButton: {
+      marginStart: 12,
+      padding: 8,
+    },
+    chips: {
+      paddingVertical: 12,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      marginEnd: 8,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+    },
+    categoryChip: {
+      borderWidth: 1,
+      borderColor: colors.accentSoft,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.textBody,
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    listContent: {
+      paddingHorizontal: 16,
+      paddingBottom: 16,
+    },
+    sectionHeader: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      textTransform: 'uppercase',
+      marginTop: 8,
+      marginBottom: 8,
+    },
+    emptyContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginTop: 40,
+    },
+    emptyText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.textBody,
+      marginBottom: 8,
+    },
+    emptySubtext: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    historyItem: {
+      marginBottom: 12,
+      borderRadius: 12,
+      overflow: 'hidden',
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 4,
+      elevation: 3,
+    },
+    historyItemGradient: {
+      padding: 16,
+    },
+    historyHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    timerName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    category: {
+      fontSize: 14,
+      color: colors.accent,
+      backgroundColor: colors.accentSoft,
+      paddingHorizontal: 12,
+      paddingVertical: 4,
+      borderRadius: 16,
+      overflow: 'hidden',
+    },
+    completedAt: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    details: {
+      fontSize: 13,
+      color: colors.textMuted,
+      marginTop: 4,
+    },
+    deleteAction: {
+      width: 88,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.danger,
+    },
+    deleteActionText: {
+      color: colors.onAccent,
+      fontSize: 13,
+      fontWeight: '600',
+      marginTop: 4,
+    },
+  });
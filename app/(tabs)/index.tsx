@@ -1,165 +1,198 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  ScrollView,
   TouchableOpacity,
-  Modal,
-  TextInput,
-  Alert,
-  Platform,
   Pressable,
+  ScrollView,
+  TextInput,
+  useWindowDimensions,
 } from 'react-native';
+import { useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { MotiView, AnimatePresence } from 'moti';
 import { LinearGradient } from 'expo-linear-gradient';
-
-type Timer = {
-  id: string;
-  name: string;
-  duration: number;
-  remainingTime: number;
-  category: string;
-  status: 'idle' | 'running' | 'paused' | 'completed';
-  halfwayAlert: boolean;
-  halfwayAlertTriggered?: boolean;
-};
+import { Timer, TimerTemplate } from '@/types/timer';
+import { timerActions } from '@/store/timerReducer';
+import { useTimerStore } from '@/store/TimerProvider';
+import TimerCard, {
+  getTimerCardId,
+  TimerCardAction,
+} from '@/components/TimerCard';
+import TimerFormModal, {
+  TimerFormResult,
+  toAlertDrafts,
+  toRoutineDraft,
+} from '@/components/TimerFormModal';
+import { toIntervalDraft } from '@/components/IntervalSettingsInput';
+import { toScheduleDraft } from '@/components/ScheduleInput';
+import ActionMenu from '@/components/ActionMenu';
+import Snackbar from '@/components/Snackbar';
+import CategorySettingsModal from '@/components/CategorySettingsModal';
+import ReorderableList from '@/components/ReorderableList';
+import GlobalControlBar from '@/components/GlobalControlBar';
+import TemplateLibraryModal from '@/components/TemplateLibraryModal';
+import { useToast } from '@/components/ToastProvider';
+import { duplicateTimer, isStopwatch } from '@/utils/timerEngine';
+import { createId } from '@/utils/id';
+import { formatDurationInput } from '@/utils/duration';
+import { initialRoutineProgress } from '@/utils/routines';
+import { initialIntervalProgress } from '@/utils/intervals';
+import {
+  DEFAULT_CATEGORY_NAME,
+  getCategoryLabel,
+  sortCategories,
+} from '@/utils/categories';
+import {
+  BulkAction,
+  getBulkTargets,
+  summarizeTimers,
+} from '@/utils/bulkActions';
+import { formatDurationText, formatTime } from '@/utils/format';
+import { templateFromTimer, timerFromTemplate } from '@/utils/templates';
+import { filterTimers, sortTimers } from '@/utils/timerList';
+import TimerListControls from '@/components/TimerListControls';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { useI18n } from '@/components/LocaleProvider';
+import { timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+import {
+  getShortcutCommand,
+  getToggleAction,
+  KEYBOARD_SHORTCUTS,
+  KeyPress,
+  moveFocus,
+} from '@/utils/keyboardShortcuts';
+import {
+  addKeyPressListener,
+  scrollIntoView,
+  supportsKeyboardShortcuts,
+} from '@/services/browser';
+import { announce } from '@/services/accessibility';
+import {
+  getRemainingAnnouncement,
+  isLargeFontScale,
+  shouldAnnounceRemaining,
+} from '@/utils/accessibility';
 
 type GroupedTimers = {
   [key: string]: Timer[];
 };
 
+type DeletedTimer = {
+  timer: Timer;
+  index: number;
+};
+
 export default function TimersScreen() {
-  const [timers, setTimers] = useState<Timer[]>([]);
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, direction } = useI18n();
+  const largeText = isLargeFontScale(useWindowDimensions().fontScale);
+  const {
+    state: { timers, categories, templates, view },
+    dispatch,
+  } = useTimerStore();
+  const { showToast } = useToast();
   const [modalVisible, setModalVisible] = useState(false);
-  const [newTimer, setNewTimer] = useState({
-    name: '',
-    duration: '',
-    category: '',
-    halfwayAlert: false,
-  });
-  const [expandedCategories, setExpandedCategories] = useState<Set<string>>(
-    new Set()
+  const [editingTimer, setEditingTimer] = useState<Timer | null>(null);
+  const [menuTimer, setMenuTimer] = useState<Timer | null>(null);
+  const [templatesVisible, setTemplatesVisible] = useState(false);
+  const [deletedTimer, setDeletedTimer] = useState<DeletedTimer | null>(null);
+  const [settingsCategoryId, setSettingsCategoryId] = useState<string | null>(
+    null
   );
+  const [query, setQuery] = useState('');
+  const [focusedTimerId, setFocusedTimerId] = useState<string | null>(null);
+  const searchInputRef = useRef<TextInput>(null);
 
-  useEffect(() => {
-    loadTimers();
-  }, []);
-
-  useEffect(() => {
-    const interval = setInterval(() => {
-      setTimers((currentTimers) =>
-        currentTimers.map((timer) => {
-          if (timer.status !== 'running') return timer;
-
-          const newRemainingTime = timer.remainingTime - 1;
-          if (newRemainingTime <= 0) {
-            handleTimerComplete(timer);
-            return { ...timer, remainingTime: 0, status: 'completed' };
-          }
-
-          if (
-            timer.halfwayAlert &&
-            !timer.halfwayAlertTriggered &&
-            newRemainingTime <= timer.duration / 2
-          ) {
-            Alert.alert('Halfway Point!', `${timer.name} is halfway complete!`);
-            return {
-              ...timer,
-              remainingTime: newRemainingTime,
-              halfwayAlertTriggered: true,
-            };
-          }
-
-          return { ...timer, remainingTime: newRemainingTime };
-        })
-      );
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, []);
+  const openAddModal = () => {
+    setEditingTimer(null);
+    setModalVisible(true);
+  };
 
-  const loadTimers = async () => {
-    try {
-      const storedTimers = await AsyncStorage.getItem('timers');
-      if (storedTimers) {
-        setTimers(JSON.parse(storedTimers));
-      }
-    } catch (error) {
-      console.error('Error loading timers:', error);
-    }
+  const openEditModal = (timer: Timer) => {
+    setEditingTimer(timer);
+    setModalVisible(true);
   };
 
-  const saveTimers = async (updatedTimers: Timer[]) => {
-    try {
-      await AsyncStorage.setItem('timers', JSON.stringify(updatedTimers));
-    } catch (error) {
-      console.error('Error saving timers:', error);
-    }
+  const closeModal = () => {
+    setModalVisible(false);
+    setEditingTimer(null);
   };
 
-  const handleAddTimer = () => {
-    if (!newTimer.name || !newTimer.duration || !newTimer.category) {
-      Alert.alert('Error', 'Please fill in all fields');
-      return;
+  const handleSubmitTimer = (result: TimerFormResult) => {
+    if (editingTimer) {
+      dispatch(timerActions.edit(editingTimer.id, result));
+    } else {
+      const timer: Timer = {
+        id: createId(),
+        name: result.name,
+        duration: result.duration,
+        remainingTime: result.duration,
+        category: result.category,
+        status: 'idle',
+        alerts: result.alerts,
+        alertProfile: result.alertProfile,
+        routine: result.routine,
+        routineProgress: result.routine ? initialRoutineProgress() : undefined,
+        interval: result.interval,
+        intervalProgress: result.interval
+          ? initialIntervalProgress()
+          : undefined,
+        mode: result.mode,
+        targetTime: result.targetTime,
+        schedule: result.schedule,
+      };
+      dispatch(timerActions.add(timer));
     }
+    closeModal();
+  };
 
-    const duration = parseInt(newTimer.duration, 10);
-    const timer: Timer = {
-      id: Date.now().toString(),
-      name: newTimer.name,
-      duration,
-      remainingTime: duration,
-      category: newTimer.category,
-      status: 'idle',
-      halfwayAlert: newTimer.halfwayAlert,
-    };
+  const handleDuplicateTimer = (timer: Timer) => {
+    dispatch(timerActions.add(duplicateTimer(timer, createId())));
+  };
 
-    const updatedTimers = [...timers, timer];
-    setTimers(updatedTimers);
-    saveTimers(updatedTimers);
-    setModalVisible(false);
-    setNewTimer({ name: '', duration: '', category: '', halfwayAlert: false });
+  const handleSaveTemplate = (timer: Timer) => {
+    dispatch(timerActions.saveTemplate(templateFromTimer(timer, createId())));
+    showToast(
+      t('timers.presetSaved'),
+      t('timers.presetSavedMessage', { name: timer.name })
+    );
   };
 
-  const handleTimerComplete = async (timer: Timer) => {
-    const historyEntry = {
-      timerId: timer.id,
-      name: timer.name,
-      category: timer.category,
-      completedAt: new Date().toISOString(),
-    };
+  const handleStartTemplate = (template: TimerTemplate) => {
+    const timer = timerFromTemplate(template, createId());
+    dispatch(timerActions.add(timer));
+    dispatch(timerActions.start([timer.id]));
+    setTemplatesVisible(false);
+  };
 
-    try {
-      const history = await AsyncStorage.getItem('timerHistory');
-      const parsedHistory = history ? JSON.parse(history) : [];
-      await AsyncStorage.setItem(
-        'timerHistory',
-        JSON.stringify([...parsedHistory, historyEntry])
-      );
-    } catch (error) {
-      console.error('Error saving to history:', error);
-    }
+  const handleDeleteTimer = (timer: Timer) => {
+    const index = timers.findIndex((t) => t.id === timer.id);
+    dispatch(timerActions.delete(timer.id));
+    setDeletedTimer({ timer, index });
+  };
 
-    Alert.alert('Timer Complete! 🎉', `${timer.name} has finished!`);
+  const handleUndoDelete = () => {
+    if (!deletedTimer) return;
+    dispatch(timerActions.restore(deletedTimer.timer, deletedTimer.index));
   };
 
-  const toggleCategory = (category: string) => {
-    setExpandedCategories((prev) => {
-      const next = new Set(prev);
-      if (next.has(category)) {
-        next.delete(category);
-      } else {
-        next.add(category);
-      }
-      return next;
-    });
+  const toggleCategory = (categoryId: string) => {
+    const expanded = view.expandedCategories;
+    dispatch(
+      timerActions.updateView({
+        expandedCategories: expanded.includes(categoryId)
+          ? expanded.filter((id) => id !== categoryId)
+          : [...expanded, categoryId],
+      })
+    );
   };
 
-  const groupTimersByCategory = useCallback(() => {
-    return timers.reduce((groups: GroupedTimers, timer) => {
+  const groupTimersByCategory = (list: Timer[]) =>
+    list.reduce((groups: GroupedTimers, timer) => {
       const category = timer.category;
       if (!groups[category]) {
         groups[category] = [];
@@ -167,523 +200,776 @@ export default function TimersScreen() {
       groups[category].push(timer);
       return groups;
     }, {});
-  }, [timers]);
 
-  const handleTimerAction = (
-    timerId: string,
+  const dispatchTimerAction = (
+    timerIds: string[],
     action: 'start' | 'pause' | 'reset'
   ) => {
-    const updatedTimers = timers.map((timer) => {
-      if (timer.id !== timerId) return timer;
+    switch (action) {
+      case 'start':
+        return dispatch(timerActions.start(timerIds));
+      case 'pause':
+        return dispatch(timerActions.pause(timerIds));
+      case 'reset':
+        return dispatch(timerActions.reset(timerIds));
+    }
+  };
 
-      switch (action) {
-        case 'start':
-          return { ...timer, status: 'running' };
-        case 'pause':
-          return { ...timer, status: 'paused' };
-        case 'reset':
-          return {
-            ...timer,
-            remainingTime: timer.duration,
-            status: 'idle',
-            halfwayAlertTriggered: false,
-          };
-        default:
-          return timer;
-      }
-    });
+  const handleTimerAction = (timerId: string, action: TimerCardAction) => {
+    switch (action) {
+      case 'lap':
+        return dispatch(timerActions.lap(timerId));
+      case 'stop':
+        return dispatch(timerActions.complete(timerId));
+      default:
+        return dispatchTimerAction([timerId], action);
+    }
+  };
 
-    setTimers(updatedTimers);
-    saveTimers(updatedTimers);
+  const handleBulkAction = (targets: Timer[], action: BulkAction) => {
+    if (getBulkTargets(targets, action).length === 0) return;
+    dispatch(timerActions.bulk(action, targets));
   };
 
-  const handleCategoryAction = (
-    category: string,
-    action: 'start' | 'pause' | 'reset'
-  ) => {
-    const updatedTimers = timers.map((timer) => {
-      if (timer.category !== category) return timer;
+  const filtering = query.trim() !== '' || view.statusFilter !== 'all';
+  const visibleTimers = sortTimers(
+    filterTimers(timers, query, view.statusFilter),
+    view.sortMode
+  );
+  // Running timers are pinned at the top instead of inside their category.
+  const runningTimers = visibleTimers.filter(
+    (timer) => timer.status === 'running'
+  );
+  const groupedTimers = groupTimersByCategory(timers);
+  const listedTimers = groupTimersByCategory(
+    visibleTimers.filter((timer) => timer.status !== 'running')
+  );
+  const sections = sortCategories(categories)
+    .map((category) => ({
+      category,
+      timers: groupedTimers[category.name] ?? [],
+      listed: listedTimers[category.name] ?? [],
+    }))
+    .filter((section) => !filtering || section.listed.length > 0);
+  // Filtering can hide categories, so positions in `sections` are mapped to
+  // the full order: the moved category lands where the one it was dropped
+  // on sits.
+  const reorderSections = (from: number, to: number) => {
+    const order = sortCategories(categories).map((category) => category.id);
+    dispatch(
+      timerActions.reorderCategories(
+        order.indexOf(sections[from].category.id),
+        order.indexOf(sections[to].category.id)
+      )
+    );
+  };
+  // While searching or filtering, every matching category is shown open.
+  const isExpanded = (categoryId: string) =>
+    filtering || view.expandedCategories.includes(categoryId);
+  // Cards in the order they appear on screen, for moving focus with arrows.
+  const focusableIds = [
+    ...runningTimers,
+    ...sections.flatMap((section) =>
+      isExpanded(section.category.id) ? section.listed : []
+    ),
+  ].map((timer) => timer.id);
 
-      switch (action) {
-        case 'start':
-          return { ...timer, status: 'running' };
-        case 'pause':
-          return { ...timer, status: 'paused' };
-        case 'reset':
-          return {
-            ...timer,
-            remainingTime: timer.duration,
-            status: 'idle',
-            halfwayAlertTriggered: false,
-          };
-        default:
-          return timer;
+  const handleKeyPress = (press: KeyPress) => {
+    const dialogOpen =
+      modalVisible ||
+      templatesVisible ||
+      menuTimer !== null ||
+      settingsCategoryId !== null;
+    const command = dialogOpen ? null : getShortcutCommand(press);
+    switch (command) {
+      case 'toggleFocused': {
+        const timer = timers.find(
+          (t) => t.id === focusedTimerId && focusableIds.includes(t.id)
+        );
+        if (!timer) {
+          setFocusedTimerId(moveFocus(focusableIds, null, 1));
+          return true;
+        }
+        const action = getToggleAction(timer);
+        if (action === 'restart') {
+          dispatch(timerActions.restart([timer.id]));
+        } else {
+          dispatchTimerAction([timer.id], action);
+        }
+        return true;
       }
-    });
-
-    setTimers(updatedTimers);
-    saveTimers(updatedTimers);
+      case 'newTimer':
+        openAddModal();
+        return true;
+      case 'focusNext':
+      case 'focusPrevious':
+        setFocusedTimerId(
+          moveFocus(
+            focusableIds,
+            focusedTimerId,
+            command === 'focusNext' ? 1 : -1
+          )
+        );
+        return true;
+      case 'search':
+        searchInputRef.current?.focus();
+        return true;
+      case 'clearFocus':
+        searchInputRef.current?.blur();
+        setFocusedTimerId(null);
+        return false;
+      default:
+        return false;
+    }
   };
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
+  const keyPressHandler = useRef(handleKeyPress);
+  keyPressHandler.current = handleKeyPress;
+  // Shortcuts only apply while this tab is the one on screen.
+  useFocusEffect(
+    useCallback(
+      () => addKeyPressListener((press) => keyPressHandler.current(press)),
+      []
+    )
+  );
 
-  const renderProgressBar = (timer: Timer) => {
-    const progress = (timer.remainingTime / timer.duration) * 100;
-    return (
-      <View style={styles.progressBarContainer}>
-        <MotiView
-          from={{ width: '100%' }}
-          animate={{ width: `${progress}%` }}
-          transition={{ type: 'timing', duration: 1000 }}
-          style={[
-            styles.progressBar,
-            {
-              backgroundColor:
-                timer.status === 'completed'
-                  ? '#10B981'
-                  : timer.status === 'running'
-                  ? '#007AFF'
-                  : '#6B7280',
-            },
-          ]}
-        />
-      </View>
-    );
-  };
+  useEffect(() => {
+    if (focusedTimerId) scrollIntoView(getTimerCardId(focusedTimerId));
+  }, [focusedTimerId]);
+
+  // The focused countdown's remaining time is read out at intervals.
+  const followedTimer = timers.find(
+    (timer) =>
+      timer.id === focusedTimerId &&
+      timer.status === 'running' &&
+      !isStopwatch(timer)
+  );
+  const lastAnnounced = useRef<{ id: string; seconds: number } | null>(null);
+  useEffect(() => {
+    if (!followedTimer) {
+      lastAnnounced.current = null;
+      return;
+    }
+    const previous = lastAnnounced.current;
+    lastAnnounced.current = {
+      id: followedTimer.id,
+      seconds: followedTimer.remainingTime,
+    };
+    if (
+      previous?.id === followedTimer.id &&
+      shouldAnnounceRemaining(previous.seconds, followedTimer.remainingTime)
+    ) {
+      announce(getRemainingAnnouncement(followedTimer));
+    }
+  }, [followedTimer]);
 
-  const groupedTimers = groupTimersByCategory();
+  const renderTimerCard = (timer: Timer) => (
+    <TimerCard
+      key={timer.id}
+      timer={timer}
+      onAction={(action) => handleTimerAction(timer.id, action)}
+      onOpenMenu={() => setMenuTimer(timer)}
+      onDismissAlarm={() => dispatch(timerActions.dismissAlarm(timer.id))}
+      onFocus={() => setFocusedTimerId(timer.id)}
+      focused={timer.id === focusedTimerId}
+    />
+  );
+  const settingsCategory =
+    categories.find((category) => category.id === settingsCategoryId) ?? null;
 
   return (
     <View style={styles.container}>
-      {Object.keys(groupedTimers).length === 0 ? (
+      {categories.length === 0 ? (
         <View style={{ alignItems: 'center', marginTop: 20 }}>
-          <Text style={{ fontSize: 18, fontWeight: 'bold', color: '#6B7280' }}>
-            No timers found
+          <Text
+            style={{
+              fontSize: 18,
+              fontWeight: 'bold',
+              color: colors.textSecondary,
+            }}
+          >
+            {t('timers.emptyTitle')}
           </Text>
           <Text
             style={{
               fontSize: 16,
-              color: '#9CA3AF',
+              color: colors.textMuted,
               textAlign: 'center',
               marginTop: 5,
             }}
           >
-            Add a new timer to get started.
+            {t('timers.emptyMessage')}
           </Text>
         </View>
       ) : (
-        Object.entries(groupedTimers).map(([category, categoryTimers]) => (
-          <MotiView
-            key={category}
-            from={{ opacity: 0, translateY: 20 }}
-            animate={{ opacity: 1, translateY: 0 }}
-            transition={{ type: 'timing', duration: 500 }}
-            style={styles.categoryContainer}
-          >
-            <Pressable
-              style={({ pressed }) => [
-                styles.categoryHeader,
-                pressed && styles.categoryHeaderPressed,
-              ]}
-              onPress={() => toggleCategory(category)}
-            >
-              <LinearGradient
-                colors={['#F9FAFB', '#F3F4F6']}
-                start={{ x: 0, y: 0 }}
-                end={{ x: 1, y: 0 }}
-                style={styles.categoryHeaderGradient}
-              >
-                <View style={styles.categoryTitleContainer}>
-                  <Ionicons
-                    name={
-                      expandedCategories.has(category)
-                        ? 'chevron-down'
-                        : 'chevron-forward'
-                    }
-                    size={24}
-                    color="#007AFF"
-                  />
-                  <Text style={styles.categoryTitle}>{category}</Text>
-                </View>
-                <View style={styles.categoryActions}>
-                  <TouchableOpacity
-                    onPress={() => handleCategoryAction(category, 'start')}
-                    style={styles.categoryAction}
-                  >
-                    <Ionicons name="play" size={20} color="#007AFF" />
-                  </TouchableOpacity>
-                  <TouchableOpacity
-                    onPress={() => handleCategoryAction(category, 'pause')}
-                    style={styles.categoryAction}
-                  >
-                    <Ionicons name="pause" size={20} color="#007AFF" />
-                  </TouchableOpacity>
-                  <TouchableOpacity
-                    onPress={() => handleCategoryAction(category, 'reset')}
-                    style={styles.categoryAction}
-                  >
-                    <Ionicons name="refresh" size={20} color="#007AFF" />
-                  </TouchableOpacity>
-                </View>
-              </LinearGradient>
-            </Pressable>
-
-            <AnimatePresence>
-              {expandedCategories.has(category) && (
+        <ScrollView
+          style={styles.scrollView}
+          keyboardShouldPersistTaps="handled"
+        >
+          <TimerListControls
+            searchInputRef={searchInputRef}
+            query={query}
+            onQueryChange={setQuery}
+            statusFilter={view.statusFilter}
+            onStatusFilterChange={(statusFilter) =>
+              dispatch(timerActions.updateView({ statusFilter }))
+            }
+            sortMode={view.sortMode}
+            onSortModeChange={(sortMode) =>
+              dispatch(timerActions.updateView({ sortMode }))
+            }
+          />
+          {supportsKeyboardShortcuts ? (
+            <Text style={styles.shortcutHint}>
+              {KEYBOARD_SHORTCUTS.map(
+                (shortcut) => `${shortcut.keys} ${t(shortcut.label)}`
+              ).join(' · ')}
+            </Text>
+          ) : null}
+          <GlobalControlBar
+            timers={timers}
+            onAction={(action) => handleBulkAction(timers, action)}
+          />
+          {runningTimers.length > 0 ? (
+            <View style={[styles.categoryContainer, styles.pinnedContainer]}>
+              <View style={styles.pinnedHeader}>
+                <Ionicons name="flash" size={20} color={colors.success} />
+                <Text style={styles.pinnedTitle}>{t('timers.runningNow')}</Text>
+              </View>
+              {runningTimers.map(renderTimerCard)}
+            </View>
+          ) : null}
+          {filtering && sections.length === 0 && runningTimers.length === 0 ? (
+            <Text style={styles.emptyCategory}>{t('timers.noMatches')}</Text>
+          ) : null}
+          <ReorderableList
+            items={sections}
+            keyExtractor={({ category }) => category.id}
+            itemLabel={({ category }) => getCategoryLabel(category.name)}
+            onReorder={reorderSections}
+            renderItem={(
+              { category, timers: categoryTimers, listed },
+              handle
+            ) => {
+              const summary = summarizeTimers(categoryTimers);
+              const name = getCategoryLabel(category.name);
+              const startable = getBulkTargets(categoryTimers, 'start').length;
+              return (
                 <MotiView
-                  from={{ height: 0, opacity: 0 }}
-                  animate={{ height: 'auto', opacity: 1 }}
-                  exit={{ height: 0, opacity: 0 }}
-                  transition={{
-                    type: 'timing',
-                    duration: 300,
-                  }}
-                  style={styles.timersContainer}
+                  from={{ opacity: 0, translateY: 20 }}
+                  animate={{ opacity: 1, translateY: 0 }}
+                  transition={timingTransition(['opacity', 'translateY'], 500)}
+                  style={[
+                    styles.categoryContainer,
+                    { borderStartColor: category.color },
+                  ]}
                 >
-                  {categoryTimers.map((timer) => (
-                    <MotiView
-                      key={timer.id}
-                      from={{ opacity: 0, scale: 0.95 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      transition={{ type: 'spring', damping: 15 }}
-                      style={styles.timerContainer}
+                  <View style={styles.categoryHeader}>
+                    <LinearGradient
+                      colors={[colors.surfaceMuted, colors.background]}
+                      start={{ x: 0, y: 0 }}
+                      end={{ x: 1, y: 0 }}
+                      style={[
+                        styles.categoryHeaderGradient,
+                        largeText && styles.categoryHeaderStacked,
+                      ]}
                     >
-                      <View style={styles.timerHeader}>
-                        <Text style={styles.timerName}>{timer.name}</Text>
-                        <Text
+                      <Pressable
+                        style={({ pressed }) => [
+                          styles.categoryTitleContainer,
+                          largeText && styles.categoryTitleStacked,
+                          pressed && styles.categoryHeaderPressed,
+                        ]}
+                        onPress={() => toggleCategory(category.id)}
+                        accessibilityRole="button"
+                        accessibilityLabel={
+                          categoryTimers.length > 0
+                            ? t('timers.categorySpoken', {
+                                name,
+                                count: summary.running,
+                                time: formatDurationText(
+                                  summary.remainingSeconds
+                                ),
+                              })
+                            : name
+                        }
+                        accessibilityState={{
+                          expanded: isExpanded(category.id),
+                        }}
+                      >
+                        <Ionicons
+                          name={
+                            isExpanded(category.id)
+                              ? 'chevron-down'
+                              : direction === 'rtl'
+                              ? 'chevron-back'
+                              : 'chevron-forward'
+                          }
+                          size={24}
+                          color={colors.accent}
+                        />
+                        <Ionicons
+                          name={category.icon as keyof typeof Ionicons.glyphMap}
+                          size={20}
+                          color={category.color}
+                          style={styles.categoryIcon}
+                        />
+                        <View style={styles.categoryText}>
+                          <Text style={styles.categoryTitle} numberOfLines={1}>
+                            {name}
+                          </Text>
+                          {categoryTimers.length > 0 ? (
+                            <Text
+                              style={styles.categorySummary}
+                              numberOfLines={1}
+                            >
+                              {t('timers.categorySummary', {
+                                count: summary.running,
+                                time: formatTime(summary.remainingSeconds),
+                              })}
+                            </Text>
+                          ) : null}
+                        </View>
+                      </Pressable>
+                      <View style={styles.categoryActions}>
+                        <TouchableOpacity
+                          onPress={() =>
+                            handleBulkAction(categoryTimers, 'start')
+                          }
+                          disabled={startable === 0}
+                          accessibilityRole="button"
+                          accessibilityLabel={t('timers.startCategory', {
+                            name,
+                          })}
+                          accessibilityState={{ disabled: startable === 0 }}
                           style={[
-                            styles.timerTime,
-                            {
-                              color:
-                                timer.status === 'completed'
-                                  ? '#10B981'
-                                  : timer.status === 'running'
-                                  ? '#007AFF'
-                                  : '#6B7280',
-                            },
+                            styles.categoryAction,
+                            startable === 0 && styles.categoryActionDisabled,
                           ]}
                         >
-                          {formatTime(timer.remainingTime)}
-                        </Text>
-                      </View>
-                      {renderProgressBar(timer)}
-                      <View style={styles.timerControls}>
+                          <Ionicons
+                            name="play"
+                            size={20}
+                            color={colors.accent}
+                          />
+                        </TouchableOpacity>
                         <TouchableOpacity
-                          onPress={() => handleTimerAction(timer.id, 'start')}
-                          disabled={
-                            timer.status === 'running' ||
-                            timer.status === 'completed'
+                          onPress={() =>
+                            handleBulkAction(categoryTimers, 'pause')
                           }
+                          disabled={summary.running === 0}
+                          accessibilityRole="button"
+                          accessibilityLabel={t('timers.pauseCategory', {
+                            name,
+                          })}
+                          accessibilityState={{
+                            disabled: summary.running === 0,
+                          }}
                           style={[
-                            styles.timerButton,
-                            (timer.status === 'running' ||
-                              timer.status === 'completed') &&
-                              styles.disabledButton,
+                            styles.categoryAction,
+                            summary.running === 0 &&
+                              styles.categoryActionDisabled,
                           ]}
                         >
-                          <Ionicons name="play" size={20} color="#fff" />
+                          <Ionicons
+                            name="pause"
+                            size={20}
+                            color={colors.accent}
+                          />
                         </TouchableOpacity>
+                        {summary.completed > 0 ? (
+                          <TouchableOpacity
+                            onPress={() =>
+                              handleBulkAction(categoryTimers, 'restart')
+                            }
+                            accessibilityRole="button"
+                            accessibilityLabel={t('timers.restartCategory', {
+                              name,
+                            })}
+                            style={styles.categoryAction}
+                          >
+                            <Ionicons
+                              name="reload"
+                              size={20}
+                              color={colors.success}
+                            />
+                          </TouchableOpacity>
+                        ) : null}
                         <TouchableOpacity
-                          onPress={() => handleTimerAction(timer.id, 'pause')}
-                          disabled={timer.status !== 'running'}
-                          style={[
-                            styles.timerButton,
-                            timer.status !== 'running' && styles.disabledButton,
-                          ]}
+                          onPress={() =>
+                            handleBulkAction(categoryTimers, 'reset')
+                          }
+                          accessibilityRole="button"
+                          accessibilityLabel={t('timers.resetCategory', {
+                            name,
+                          })}
+                          style={styles.categoryAction}
                         >
-                          <Ionicons name="pause" size={20} color="#fff" />
+                          <Ionicons
+                            name="refresh"
+                            size={20}
+                            color={colors.accent}
+                          />
                         </TouchableOpacity>
                         <TouchableOpacity
-                          onPress={() => handleTimerAction(timer.id, 'reset')}
-                          style={styles.timerButton}
+                          onPress={() => setSettingsCategoryId(category.id)}
+                          accessibilityRole="button"
+                          accessibilityLabel={t('timers.categorySettings', {
+                            name,
+                          })}
+                          style={styles.categoryAction}
                         >
-                          <Ionicons name="refresh" size={20} color="#fff" />
+                          <Ionicons
+                            name="options-outline"
+                            size={20}
+                            color={colors.accent}
+                          />
                         </TouchableOpacity>
+                        {handle}
+                      </View>
+                    </LinearGradient>
+                    {categoryTimers.length > 0 ? (
+                      <View
+                        style={styles.categoryProgressTrack}
+                        accessible
+                        accessibilityRole="progressbar"
+                        accessibilityLabel={t('timerCard.progress', { name })}
+                        accessibilityValue={{
+                          min: 0,
+                          max: 100,
+                          now: Math.round(summary.progress * 100),
+                        }}
+                      >
+                        <View
+                          style={[
+                            styles.categoryProgressFill,
+                            {
+                              width: `${summary.progress * 100}%`,
+                              backgroundColor: category.color,
+                            },
+                          ]}
+                        />
                       </View>
-                    </MotiView>
-                  ))}
+                    ) : null}
+                  </View>
+
+                  <AnimatePresence>
+                    {isExpanded(category.id) && (
+                      <MotiView
+                        from={{ height: 0, opacity: 0 }}
+                        animate={{ height: 'auto', opacity: 1 }}
+                        exit={{ height: 0, opacity: 0 }}
+                        transition={timingTransition(['height', 'opacity'], 300)}
+                        style={styles.timersContainer}
+                      >
+                        {categoryTimers.length === 0 ? (
+                          <Text style={styles.emptyCategory}>
+                            {t('timers.emptyCategory')}
+                          </Text>
+                        ) : listed.length === 0 ? (
+                          <Text style={styles.emptyCategory}>
+                            {t('timers.allPinned')}
+                          </Text>
+                        ) : null}
+                        {listed.map(renderTimerCard)}
+                      </MotiView>
+                    )}
+                  </AnimatePresence>
                 </MotiView>
-              )}
-            </AnimatePresence>
-          </MotiView>
-        ))
+              );
+            }}
+          />
+        </ScrollView>
       )}
+      <TouchableOpacity
+        style={[styles.addButton, styles.presetsButton]}
+        onPress={() => setTemplatesVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={t('templates.title')}
+      >
+        <View style={styles.presetsButtonInner}>
+          <Ionicons name="albums-outline" size={22} color={colors.accent} />
+        </View>
+      </TouchableOpacity>
       <TouchableOpacity
         style={styles.addButton}
-        onPress={() => setModalVisible(true)}
+        onPress={openAddModal}
+        accessibilityRole="button"
+        accessibilityLabel={t('timers.add')}
       >
         <LinearGradient
-          colors={['#007AFF', '#0056B3']}
+          colors={[colors.accent, colors.accentStrong]}
           style={styles.addButtonGradient}
           start={{ x: 0, y: 0 }}
           end={{ x: 1, y: 1 }}
         >
-          <Ionicons name="add" size={24} color="#fff" />
+          <Ionicons name="add" size={24} color={colors.onAccent} />
         </LinearGradient>
       </TouchableOpacity>
-      <Modal
-        animationType="slide"
-        transparent={true}
+      <TimerFormModal
         visible={modalVisible}
-        onRequestClose={() => setModalVisible(false)}
-      >
-        <View style={styles.modalContainer}>
-          <MotiView
-            from={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ type: 'spring', damping: 15 }}
-            style={styles.modalContent}
-          >
-            <Text style={styles.modalTitle}>Add New Timer</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="Timer Name"
-              value={newTimer.name}
-              onChangeText={(text) => setNewTimer({ ...newTimer, name: text })}
-            />
-            <TextInput
-              style={styles.input}
-              placeholder="Duration (seconds)"
-              value={newTimer.duration}
-              onChangeText={(text) =>
-                setNewTimer({ ...newTimer, duration: text })
-              }
-              keyboardType="numeric"
-            />
-            <TextInput
-              style={styles.input}
-              placeholder="Category"
-              value={newTimer.category}
-              onChangeText={(text) =>
-                setNewTimer({ ...newTimer, category: text })
-              }
-            />
-            <TouchableOpacity
-              style={styles.halfwayAlertContainer}
-              onPress={() =>
-                setNewTimer({
-                  ...newTimer,
-                  halfwayAlert: !newTimer.halfwayAlert,
-                })
+        title={editingTimer ? t('timers.editTitle') : t('timers.addTitle')}
+        submitLabel={editingTimer ? t('common.save') : t('timers.addSubmit')}
+        initialValues={
+          editingTimer
+            ? {
+                name: editingTimer.name,
+                duration: formatDurationInput(editingTimer.duration),
+                category: editingTimer.category,
+                alerts: toAlertDrafts(editingTimer.alerts),
+                alertProfile: editingTimer.alertProfile ?? null,
+                routine: editingTimer.routine
+                  ? toRoutineDraft(editingTimer.routine)
+                  : null,
+                interval: editingTimer.interval
+                  ? toIntervalDraft(editingTimer.interval)
+                  : null,
+                stopwatch: isStopwatch(editingTimer)
+                  ? {
+                      target:
+                        editingTimer.targetTime === undefined
+                          ? ''
+                          : formatDurationInput(editingTimer.targetTime),
+                    }
+                  : null,
+                schedule: editingTimer.schedule
+                  ? toScheduleDraft(editingTimer.schedule)
+                  : null,
               }
-            >
-              <Ionicons
-                name={newTimer.halfwayAlert ? 'checkbox' : 'square-outline'}
-                size={24}
-                color="#007AFF"
-              />
-              <Text style={styles.halfwayAlertText}>Enable Halfway Alert</Text>
-            </TouchableOpacity>
-            <View style={styles.modalButtons}>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.cancelButton]}
-                onPress={() => setModalVisible(false)}
-              >
-                <Text style={styles.buttonText}>Cancel</Text>
-              </TouchableOpacity>
-              <TouchableOpacity
-                style={[styles.modalButton, styles.addButtonModal]}
-                onPress={handleAddTimer}
-              >
-                <Text style={styles.buttonText}>Add Timer</Text>
-              </TouchableOpacity>
-            </View>
-          </MotiView>
-        </View>
-      </Modal>
+            : undefined
+        }
+        categories={categories}
+        onSubmit={handleSubmitTimer}
+        onClose={closeModal}
+      />
+      <TemplateLibraryModal
+        visible={templatesVisible}
+        templates={templates}
+        categories={categories}
+        onStart={handleStartTemplate}
+        onDelete={(template) =>
+          dispatch(timerActions.deleteTemplate(template.id))
+        }
+        onClose={() => setTemplatesVisible(false)}
+      />
+      <CategorySettingsModal
+        category={settingsCategory}
+        categories={categories}
+        canDelete={
+          settingsCategory?.name !== DEFAULT_CATEGORY_NAME ||
+          !groupedTimers[DEFAULT_CATEGORY_NAME]
+        }
+        onSave={(changes) => {
+          if (settingsCategoryId) {
+            dispatch(timerActions.updateCategory(settingsCategoryId, changes));
+          }
+          setSettingsCategoryId(null);
+        }}
+        onMerge={(targetId) => {
+          if (settingsCategoryId) {
+            dispatch(timerActions.mergeCategory(settingsCategoryId, targetId));
+          }
+          setSettingsCategoryId(null);
+        }}
+        onDelete={() => {
+          if (settingsCategoryId) {
+            dispatch(timerActions.deleteCategory(settingsCategoryId));
+          }
+          setSettingsCategoryId(null);
+        }}
+        onClose={() => setSettingsCategoryId(null)}
+      />
+      <ActionMenu
+        visible={menuTimer !== null}
+        title={menuTimer?.name}
+        onClose={() => setMenuTimer(null)}
+        options={
+          menuTimer
+            ? [
+                {
+                  label: t('timers.menu.edit'),
+                  icon: 'create-outline',
+                  onPress: () => openEditModal(menuTimer),
+                },
+                {
+                  label: t('timers.menu.duplicate'),
+                  icon: 'copy-outline',
+                  onPress: () => handleDuplicateTimer(menuTimer),
+                },
+                {
+                  label: t('timers.menu.saveAsPreset'),
+                  icon: 'albums-outline',
+                  onPress: () => handleSaveTemplate(menuTimer),
+                },
+                {
+                  label: t('common.delete'),
+                  icon: 'trash-outline',
+                  destructive: true,
+                  onPress: () => handleDeleteTimer(menuTimer),
+                },
+              ]
+            : []
+        }
+      />
+      <Snackbar
+        visible={deletedTimer !== null}
+        message={
+          deletedTimer
+            ? t('timers.deleted', { name: deletedTimer.timer.name })
+            : ''
+        }
+        actionLabel={t('timers.undo')}
+        onAction={handleUndoDelete}
+        onDismiss={() => setDeletedTimer(null)}
+      />
     </View>
   );
 }
 
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: '#F3F4F6',
-  },
-  scrollView: {
-    flex: 1,
-  },
-  categoryContainer: {
-    marginBottom: 16,
-    backgroundColor: '#fff',
-    borderRadius: 12,
-    marginHorizontal: 16,
-    marginTop: 16,
-    overflow: 'hidden',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.1,
-    shadowRadius: 4,
-    elevation: 3,
-  },
-  categoryHeader: {
-    overflow: 'hidden',
-    borderTopLeftRadius: 12,
-    borderTopRightRadius: 12,
-  },
-  categoryHeaderPressed: {
-    opacity: 0.7,
-  },
-  categoryHeaderGradient: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    padding: 16,
-  },
-  categoryTitleContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-  },
-  categoryTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-    marginLeft: 8,
-    color: '#1F2937',
-  },
-  categoryActions: {
-    flexDirection: 'row',
-  },
-  categoryAction: {
-    marginLeft: 16,
-    padding: 8,
-  },
-  timersContainer: {
-    overflow: 'hidden',
-  },
-  timerContainer: {
-    padding: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: '#E5E7EB',
-    backgroundColor: '#fff',
-  },
-  timerHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    marginBottom: 8,
-  },
-  timerName: {
-    fontSize: 16,
-    fontWeight: '500',
-    color: '#1F2937',
-  },
-  timerTime: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  progressBarContainer: {
-    height: 4,
-    backgroundColor: '#E5E7EB',
-    borderRadius: 2,
-    marginVertical: 8,
-    overflow: 'hidden',
-  },
-  progressBar: {
-    height: '100%',
-    borderRadius: 2,
-  },
-  timerControls: {
-    flexDirection: 'row',
-    justifyContent: 'flex-start',
-    marginTop: 8,
-  },
-  timerButton: {
-    backgroundColor: '#007AFF',
-    padding: 8,
-    borderRadius: 8,
-    marginRight: 8,
-  },
-  disabledButton: {
-    backgroundColor: '#D1D5DB',
-  },
-  addButton: {
-    position: 'absolute',
-    bottom: 24,
-    right: 24,
-    width: 56,
-    height: 56,
-    borderRadius: 28,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 2 },
-    shadowOpacity: 0.25,
-    shadowRadius: 4,
-    elevation: 5,
-  },
-  addButtonGradient: {
-    width: '100%',
-    height: '100%',
-    borderRadius: 28,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  modalContainer: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    backgroundColor: 'rgba(0, 0, 0, 0.5)',
-  },
-  modalContent: {
-    backgroundColor: '#fff',
-    borderRadius: 16,
-    padding: 24,
-    width: '90%',
-    maxWidth: 400,
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.25,
-    shadowRadius: 8,
-    elevation: 5,
-  },
-  modalTitle: {
-    fontSize: 20,
-    fontWeight: '600',
-    marginBottom: 16,
-    textAlign: 'center',
-    color: '#1F2937',
-  },
-  input: {
-    borderWidth: 1,
-    borderColor: '#E5E7EB',
-    borderRadius: 8,
-    padding: 12,
-    marginBottom: 16,
-    fontSize: 16,
-    backgroundColor: '#F9FAFB',
-  },
-  halfwayAlertContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    marginBottom: 16,
-  },
-  halfwayAlertText: {
-    marginLeft: 8,
-    fontSize: 16,
-    color: '#1F2937',
-  },
-  modalButtons: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-  },
-  modalButton: {
-    flex: 1,
-    padding: 12,
-    borderRadius: 8,
-    marginHorizontal: 8,
-  },
-  cancelButton: {
-    backgroundColor: '#EF4444',
-  },
-  addButtonModal: {
-    backgroundColor: '#007AFF',
-  },
-  buttonText: {
-    color: '#fff',
-    textAlign: 'center',
-    fontSize: 16,
-    fontWeight: '600',
-  },
-});
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    scrollView: {
+      flex: 1,
+    },
+    categoryContainer: {
+      marginBottom: 16,
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      marginHorizontal: 16,
+      marginTop: 16,
+      overflow: 'hidden',
+      borderStartWidth: 4,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 4,
+      elevation: 3,
+    },
+    categoryHeader: {
+      overflow: 'hidden',
+      borderTopStartRadius: 12,
+      borderTopEndRadius: 12,
+    },
+    categoryHeaderPressed: {
+      opacity: 0.7,
+    },
+    categoryHeaderGradient: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: 16,
+    },
+    categoryHeaderStacked: {
+      flexDirection: 'column',
+      alignItems: 'flex-start',
+    },
+    categoryTitleContainer: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    categoryTitleStacked: {
+      flex: 0,
+      alignSelf: 'stretch',
+      marginBottom: 8,
+    },
+    categoryIcon: {
+      marginStart: 4,
+    },
+    categoryText: {
+      flexShrink: 1,
+      marginStart: 8,
+    },
+    categoryTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    categorySummary: {
+      marginTop: 2,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    categoryActions: {
+      flexDirection: 'row',
+    },
+    categoryAction: {
+      marginStart: 8,
+      padding: 8,
+    },
+    categoryActionDisabled: {
+      opacity: 0.3,
+    },
+    categoryProgressTrack: {
+      height: 3,
+      backgroundColor: colors.border,
+    },
+    categoryProgressFill: {
+      height: '100%',
+    },
+    pinnedContainer: {
+      borderStartColor: colors.success,
+    },
+    pinnedHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      padding: 16,
+      backgroundColor: colors.surfaceMuted,
+    },
+    pinnedTitle: {
+      fontSize: 18,
+      fontWeight: '600',
+      marginStart: 8,
+      color: colors.text,
+    },
+    timersContainer: {
+      overflow: 'hidden',
+    },
+    shortcutHint: {
+      marginHorizontal: 16,
+      marginTop: 8,
+      fontSize: 12,
+      color: colors.textMuted,
+    },
+    emptyCategory: {
+      padding: 16,
+      fontSize: 14,
+      color: colors.textMuted,
+      textAlign: 'center',
+    },
+    addButton: {
+      position: 'absolute',
+      bottom: 24,
+      end: 24,
+      width: 56,
+      height: 56,
+      borderRadius: 28,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.25,
+      shadowRadius: 4,
+      elevation: 5,
+    },
+    presetsButton: {
+      bottom: 92,
+    },
+    presetsButtonInner: {
+      width: '100%',
+      height: '100%',
+      borderRadius: 28,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.surface,
+    },
+    addButtonGradient: {
+      width: '100%',
+      height: '100%',
+      borderRadius: 28,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+  });
@@ -0,0 +1,302 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { MotiView } from 'moti';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTimerStore } from '@/store/TimerProvider';
+import BarChart from '@/components/BarChart';
+import {
+  completionsPerDay,
+  completionsPerWeek,
+  getBusiestHour,
+  getFocusStats,
+  getOutcomeRates,
+  getStreaks,
+  getTotalMinutes,
+  minutesByCategory,
+} from '@/utils/stats';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { useI18n } from '@/components/LocaleProvider';
+import { formatDate, formatNumber } from '@/i18n';
+import { springTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+const formatHour = (hour: number) =>
+  formatDate(new Date(2000, 0, 1, hour).getTime(), { hour: 'numeric' });
+
+const formatPercent = (rate: number) =>
+  formatNumber(rate, { style: 'percent', maximumFractionDigits: 0 });
+
+export default function StatsScreen() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t, locale } = useI18n();
+  const {
+    state: { history },
+  } = useTimerStore();
+
+  const stats = useMemo(() => {
+    const now = Date.now();
+    return {
+      totalMinutes: getTotalMinutes(history),
+      categories: minutesByCategory(history),
+      daily: completionsPerDay(history, 7, now),
+      weekly: completionsPerWeek(history, 8, now),
+      streaks: getStreaks(history, now),
+      rates: getOutcomeRates(history),
+      busiestHour: getBusiestHour(history),
+      focus: getFocusStats(history),
+    };
+    // Day and category labels are written in the active language through the
+    // global `t`, which the linter cannot see.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [history, locale]);
+
+  if (history.length === 0) {
+    return (
+      <View style={styles.container}>
+        <MotiView
+          from={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={springTransition(['opacity', 'scale'])}
+          style={styles.emptyContainer}
+        >
+          <Text style={styles.emptyText}>{t('stats.emptyTitle')}</Text>
+          <Text style={styles.emptySubtext}>{t('stats.emptyMessage')}</Text>
+        </MotiView>
+      </View>
+    );
+  }
+
+  const maxCategoryMinutes = Math.max(
+    1,
+    ...stats.categories.map((category) => category.value)
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.summaryRow}>
+        <LinearGradient
+          colors={[colors.accent, colors.accentStrong]}
+          style={styles.summary}
+        >
+          <Text style={styles.summaryValue}>
+            {formatNumber(stats.totalMinutes)}
+          </Text>
+          <Text style={styles.summaryLabel}>
+            {t('stats.minutesTimed', { count: stats.totalMinutes })}
+          </Text>
+        </LinearGradient>
+        <LinearGradient
+          colors={[colors.success, colors.successStrong]}
+          style={styles.summary}
+        >
+          <Text style={styles.summaryValue}>
+            {formatNumber(stats.streaks.current)}
+          </Text>
+          <Text style={styles.summaryLabel}>
+            {t('stats.streak', {
+              count: stats.streaks.current,
+              best: stats.streaks.longest,
+            })}
+          </Text>
+        </LinearGradient>
+      </View>
+
+      {stats.focus.minutes > 0 || stats.focus.rounds > 0 ? (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{t('stats.focusTitle')}</Text>
+          <Text style={styles.focusText}>
+            {t('stats.focusSummary', {
+              minutes: t('duration.minutes', { count: stats.focus.minutes }),
+              count: stats.focus.rounds,
+            })}
+          </Text>
+        </View>
+      ) : null}
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('stats.completionsThisWeek')}</Text>
+        <BarChart data={stats.daily} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('stats.completionsPerWeek')}</Text>
+        <BarChart data={stats.weekly} color={colors.success} />
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('stats.minutesByCategory')}</Text>
+        {stats.categories.map((category) => (
+          <View key={category.key} style={styles.categoryRow}>
+            <Text style={styles.categoryName} numberOfLines={1}>
+              {category.label}
+            </Text>
+            <View style={styles.categoryTrack}>
+              <View
+                style={[
+                  styles.categoryBar,
+                  { width: `${(category.value / maxCategoryMinutes) * 100}%` },
+                ]}
+              />
+            </View>
+            <Text style={styles.categoryValue}>
+              {t('stats.categoryMinutes', { count: category.value })}
+            </Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('stats.outcomes')}</Text>
+        <View style={styles.outcomeTrack}>
+          <View
+            style={[
+              styles.outcomeSegment,
+              { flex: stats.rates.completed, backgroundColor: colors.success },
+            ]}
+          />
+          <View
+            style={[
+              styles.outcomeSegment,
+              { flex: stats.rates.reset, backgroundColor: colors.warning },
+            ]}
+          />
+          <View
+            style={[
+              styles.outcomeSegment,
+              { flex: stats.rates.deleted, backgroundColor: colors.danger },
+            ]}
+          />
+        </View>
+        <Text style={styles.statLine}>
+          {t('stats.outcomeSummary', {
+            completed: formatPercent(stats.rates.completionRate),
+            reset: formatPercent(stats.rates.resetRate),
+            count: stats.rates.deleted,
+          })}
+        </Text>
+      </View>
+
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>{t('stats.busiestTitle')}</Text>
+        <Text style={styles.statLine}>
+          {stats.busiestHour === null
+            ? t('stats.busiestEmpty')
+            : t('stats.busiestHour', { hour: formatHour(stats.busiestHour) })}
+        </Text>
+      </View>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+    },
+    content: {
+      padding: 16,
+    },
+    emptyContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      marginTop: 40,
+    },
+    emptyText: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.textBody,
+      marginBottom: 8,
+    },
+    emptySubtext: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    summaryRow: {
+      flexDirection: 'row',
+      marginBottom: 12,
+    },
+    summary: {
+      flex: 1,
+      padding: 16,
+      borderRadius: 12,
+      marginHorizontal: 4,
+    },
+    summaryValue: {
+      fontSize: 28,
+      fontWeight: '700',
+      color: colors.onAccent,
+    },
+    summaryLabel: {
+      fontSize: 13,
+      color: colors.onAccentMuted,
+      marginTop: 4,
+    },
+    card: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      marginHorizontal: 4,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.1,
+      shadowRadius: 4,
+      elevation: 3,
+    },
+    focusText: {
+      fontSize: 15,
+      color: colors.textBody,
+    },
+    cardTitle: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    categoryRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginVertical: 4,
+    },
+    categoryName: {
+      width: 96,
+      fontSize: 14,
+      color: colors.textBody,
+    },
+    categoryTrack: {
+      flex: 1,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: colors.border,
+      overflow: 'hidden',
+    },
+    categoryBar: {
+      height: '100%',
+      borderRadius: 4,
+      backgroundColor: colors.accent,
+    },
+    categoryValue: {
+      width: 48,
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'right',
+    },
+    outcomeTrack: {
+      flexDirection: 'row',
+      height: 12,
+      borderRadius: 6,
+      overflow: 'hidden',
+      backgroundColor: colors.border,
+      marginBottom: 8,
+    },
+    outcomeSegment: {
+      height: '100%',
+    },
+    statLine: {
+      fontSize: 14,
+      color: colors.textBody,
+    },
+  });
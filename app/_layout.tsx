@@ -1,6 +1,10 @@
 import { useEffect } from 'react';
 import { Stack } from 'expo-router';
-import { StatusBar } from 'expo-status-bar';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { TimerProvider } from '@/store/TimerProvider';
+import { ToastProvider } from '@/components/ToastProvider';
+import { ThemeProvider } from '@/components/ThemeProvider';
+import { LocaleProvider } from '@/components/LocaleProvider';
 
 declare global {
   interface Window {
@@ -14,11 +18,18 @@ export default function RootLayout() {
   }, []);
 
   return (
-    <>
-      <Stack screenOptions={{ headerShown: false }}>
-        <Stack.Screen name="+not-found" />
-      </Stack>
-      <StatusBar style="auto" />
-    </>
+    <GestureHandlerRootView style={{ flex: 1 }}>
+      <LocaleProvider>
+        <ThemeProvider>
+          <ToastProvider>
+            <TimerProvider>
+              <Stack screenOptions={{ headerShown: false }}>
+                <Stack.Screen name="+not-found" />
+              </Stack>
+            </TimerProvider>
+          </ToastProvider>
+        </ThemeProvider>
+      </LocaleProvider>
+    </GestureHandlerRootView>
   );
 }
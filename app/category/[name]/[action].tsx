@@ -0,0 +1,35 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import LinkActionScreen, { LinkRequest } from '@/components/LinkActionScreen';
+import { timerActions } from '@/store/timerReducer';
+import { useTimerStore } from '@/store/TimerProvider';
+import { describeCategoryLink, resolveCategoryLink } from '@/utils/deepLinks';
+
+/** myapp://category/<name>/<start|pause|restart|reset> */
+export default function CategoryLink() {
+  const params = useLocalSearchParams<{ name: string; action: string }>();
+  const { state, dispatch } = useTimerStore();
+
+  const link = resolveCategoryLink(state.categories, params);
+  const request: LinkRequest | null = !state.loaded
+    ? null
+    : !link.ok
+    ? link
+    : {
+        ok: true,
+        value: {
+          ...describeCategoryLink(link.value.category, link.value.action),
+          run: () =>
+            dispatch(
+              timerActions.bulk(
+                link.value.action,
+                state.timers.filter(
+                  (timer) => timer.category === link.value.category.name
+                )
+              )
+            ),
+        },
+      };
+
+  return <LinkActionScreen request={request} />;
+}
@@ -0,0 +1,48 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import LinkActionScreen, { LinkRequest } from '@/components/LinkActionScreen';
+import { TimerAction, timerActions } from '@/store/timerReducer';
+import { useTimerStore } from '@/store/TimerProvider';
+import {
+  describeTimerLink,
+  resolveTimerLink,
+  TimerLinkAction,
+} from '@/utils/deepLinks';
+
+const toTimerAction = (
+  timerId: string,
+  action: TimerLinkAction
+): TimerAction => {
+  switch (action) {
+    case 'start':
+      return timerActions.start([timerId]);
+    case 'pause':
+      return timerActions.pause([timerId]);
+    case 'reset':
+      return timerActions.reset([timerId]);
+    case 'delete':
+      return timerActions.delete(timerId);
+  }
+};
+
+/** myapp://timer/<id>/<start|pause|reset|delete> */
+export default function TimerLink() {
+  const params = useLocalSearchParams<{ id: string; action: string }>();
+  const { state, dispatch } = useTimerStore();
+
+  const link = resolveTimerLink(state.timers, params);
+  const request: LinkRequest | null = !state.loaded
+    ? null
+    : !link.ok
+    ? link
+    : {
+        ok: true,
+        value: {
+          ...describeTimerLink(link.value.timer, link.value.action),
+          run: () =>
+            dispatch(toTimerAction(link.value.timer.id, link.value.action)),
+        },
+      };
+
+  return <LinkActionScreen request={request} />;
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import LinkActionScreen, { LinkRequest } from '@/components/LinkActionScreen';
+import { timerActions } from '@/store/timerReducer';
+import { useTimerStore } from '@/store/TimerProvider';
+import { describeNewTimerLink, parseNewTimerLink } from '@/utils/deepLinks';
+import { createId } from '@/utils/id';
+import { timerFromTemplate } from '@/utils/templates';
+
+/** myapp://timer/new?name=Tea&duration=3m&category=Kitchen */
+export default function NewTimerLink() {
+  const params = useLocalSearchParams<{
+    name?: string;
+    duration?: string;
+    category?: string;
+  }>();
+  const { state, dispatch } = useTimerStore();
+
+  const link = parseNewTimerLink(params);
+  const request: LinkRequest | null = !state.loaded
+    ? null
+    : !link.ok
+    ? link
+    : {
+        ok: true,
+        value: {
+          ...describeNewTimerLink(link.value),
+          run: () =>
+            dispatch(
+              timerActions.add(
+                timerFromTemplate(
+                  { ...link.value, id: '', alerts: [] },
+                  createId()
+                )
+              )
+            ),
+        },
+      };
+
+  return <LinkActionScreen request={request} />;
+}
@@ -0,0 +1,151 @@
+import React from 'react';
+import { Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MotiView } from 'moti';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+export type ActionMenuOption = {
+  label: string;
+  icon: React.ComponentProps<typeof Ionicons>['name'];
+  destructive?: boolean;
+  /** Marks the option currently in effect, e.g. the chosen theme. */
+  selected?: boolean;
+  onPress: () => void;
+};
+
+type ActionMenuProps = {
+  visible: boolean;
+  title?: string;
+  options: ActionMenuOption[];
+  onClose: () => void;
+};
+
+export default function ActionMenu({
+  visible,
+  title,
+  options,
+  onClose,
+}: ActionMenuProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  return (
+    <Modal
+      animationType="fade"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <TouchableOpacity
+        style={styles.backdrop}
+        activeOpacity={1}
+        onPress={onClose}
+      >
+        <MotiView
+          from={{ translateY: 40, opacity: 0 }}
+          animate={{ translateY: 0, opacity: 1 }}
+          transition={timingTransition(['translateY', 'opacity'], 200)}
+          style={styles.sheet}
+        >
+          {title ? <Text style={styles.title}>{title}</Text> : null}
+          {options.map((option) => (
+            <TouchableOpacity
+              key={option.label}
+              style={styles.option}
+              accessibilityRole="button"
+              accessibilityState={{ selected: option.selected }}
+              onPress={() => {
+                onClose();
+                option.onPress();
+              }}
+            >
+              <Ionicons
+                name={option.icon}
+                size={20}
+                color={option.destructive ? colors.danger : colors.accent}
+              />
+              <Text
+                style={[
+                  styles.optionText,
+                  option.destructive && styles.destructiveText,
+                ]}
+              >
+                {option.label}
+              </Text>
+              {option.selected ? (
+                <Ionicons
+                  name="checkmark"
+                  size={20}
+                  color={colors.accent}
+                  style={styles.selectedIcon}
+                />
+              ) : null}
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={styles.cancel}
+            accessibilityRole="button"
+            onPress={onClose}
+          >
+            <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+        </MotiView>
+      </TouchableOpacity>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    backdrop: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      backgroundColor: colors.overlay,
+    },
+    sheet: {
+      backgroundColor: colors.surface,
+      borderTopStartRadius: 16,
+      borderTopEndRadius: 16,
+      paddingHorizontal: 16,
+      paddingTop: 16,
+      paddingBottom: 32,
+    },
+    title: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 8,
+    },
+    option: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 14,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    optionText: {
+      marginStart: 12,
+      fontSize: 16,
+      color: colors.text,
+    },
+    destructiveText: {
+      color: colors.danger,
+    },
+    selectedIcon: {
+      marginStart: 'auto',
+    },
+    cancel: {
+      marginTop: 12,
+      paddingVertical: 12,
+    },
+    cancelText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
@@ -0,0 +1,184 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { createId } from '@/utils/id';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { ThemeColors } from '@/utils/theme';
+
+export type AlertDraft = {
+  id: string;
+  trigger: string;
+  message: string;
+};
+
+type AlertCheckpointsInputProps = {
+  value: AlertDraft[];
+  onChange: (value: AlertDraft[]) => void;
+  errors?: Record<string, string>;
+};
+
+// Written in the trigger syntax, which is the same in every language.
+const PRESETS = ['25%', '50%', '90%', '5m left'];
+
+export default function AlertCheckpointsInput({
+  value,
+  onChange,
+  errors = {},
+}: AlertCheckpointsInputProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const addAlert = (trigger: string) => {
+    onChange([...value, { id: createId(), trigger, message: '' }]);
+  };
+
+  const updateAlert = (id: string, changes: Partial<AlertDraft>) => {
+    onChange(
+      value.map((alert) => (alert.id === id ? { ...alert, ...changes } : alert))
+    );
+  };
+
+  const removeAlert = (id: string) => {
+    onChange(value.filter((alert) => alert.id !== id));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('alertCheckpoints.title')}</Text>
+      {value.map((alert) => (
+        <View key={alert.id} style={styles.row}>
+          <View style={styles.fields}>
+            <View style={styles.inputs}>
+              <TextInput
+                style={[
+                  styles.input,
+                  styles.triggerInput,
+                  errors[alert.id] && styles.inputError,
+                ]}
+                placeholder="50%"
+                accessibilityLabel={t('alertCheckpoints.trigger')}
+                value={alert.trigger}
+                onChangeText={(text) =>
+                  updateAlert(alert.id, { trigger: text })
+                }
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                style={[styles.input, styles.messageInput]}
+                placeholder={t('alertCheckpoints.message')}
+                value={alert.message}
+                onChangeText={(text) =>
+                  updateAlert(alert.id, { message: text })
+                }
+              />
+            </View>
+            {errors[alert.id] ? (
+              <Text style={styles.errorText}>{errors[alert.id]}</Text>
+            ) : null}
+          </View>
+          <TouchableOpacity
+            onPress={() => removeAlert(alert.id)}
+            style={styles.removeButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('alertCheckpoints.remove')}
+          >
+            <Ionicons name="close-circle" size={22} color={colors.textMuted} />
+          </TouchableOpacity>
+        </View>
+      ))}
+      <View style={styles.presets}>
+        {PRESETS.map((preset) => (
+          <TouchableOpacity
+            key={preset}
+            style={styles.preset}
+            onPress={() => addAlert(preset)}
+          >
+            <Ionicons name="add" size={14} color={colors.accent} />
+            <Text style={styles.presetText}>{preset}</Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity style={styles.preset} onPress={() => addAlert('')}>
+          <Ionicons name="add" size={14} color={colors.accent} />
+          <Text style={styles.presetText}>{t('alertCheckpoints.custom')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'flex-start',
+      marginBottom: 8,
+    },
+    fields: {
+      flex: 1,
+    },
+    inputs: {
+      flexDirection: 'row',
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 8,
+      fontSize: 14,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    triggerInput: {
+      width: 88,
+      marginEnd: 8,
+    },
+    messageInput: {
+      flex: 1,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+    removeButton: {
+      padding: 6,
+    },
+    presets: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    preset: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      marginEnd: 8,
+      marginBottom: 8,
+      borderRadius: 16,
+      backgroundColor: colors.accentSoft,
+    },
+    presetText: {
+      marginStart: 2,
+      fontSize: 14,
+      color: colors.accent,
+    },
+  });
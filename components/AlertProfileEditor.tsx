@@ -0,0 +1,178 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { AlertProfile } from '@/types/timer';
+import {
+  HAPTIC_OPTIONS,
+  SOUND_OPTIONS,
+  VOLUME_OPTIONS,
+} from '@/utils/alertProfiles';
+import { playFeedback } from '@/services/feedback';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { formatNumber } from '@/i18n';
+import { ThemeColors } from '@/utils/theme';
+
+type AlertProfileEditorProps = {
+  value: AlertProfile;
+  onChange: (value: AlertProfile) => void;
+};
+
+type ChipRowProps<T> = {
+  label: string;
+  options: { value: T; label: string }[];
+  selected: T;
+  onSelect: (value: T) => void;
+};
+
+function ChipRow<T>({ label, options, selected, onSelect }: ChipRowProps<T>) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <View style={styles.chips}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={String(option.value)}
+            style={[
+              styles.chip,
+              option.value === selected && styles.chipActive,
+            ]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text
+              style={[
+                styles.chipText,
+                option.value === selected && styles.chipTextActive,
+              ]}
+            >
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+export default function AlertProfileEditor({
+  value,
+  onChange,
+}: AlertProfileEditorProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  return (
+    <View>
+      <ChipRow
+        label={t('alertProfile.soundLabel')}
+        options={SOUND_OPTIONS.map((option) => ({
+          ...option,
+          label: t(option.label),
+        }))}
+        selected={value.sound}
+        onSelect={(sound) => onChange({ ...value, sound })}
+      />
+      <ChipRow
+        label={t('alertProfile.hapticLabel')}
+        options={HAPTIC_OPTIONS.map((option) => ({
+          ...option,
+          label: t(option.label),
+        }))}
+        selected={value.haptic}
+        onSelect={(haptic) => onChange({ ...value, haptic })}
+      />
+      <ChipRow
+        label={t('alertProfile.volumeLabel')}
+        options={VOLUME_OPTIONS.map((volume) => ({
+          value: volume,
+          label: formatNumber(volume, { style: 'percent' }),
+        }))}
+        selected={value.volume}
+        onSelect={(volume) => onChange({ ...value, volume })}
+      />
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={styles.toggle}
+          onPress={() =>
+            onChange({
+              ...value,
+              repeat: value.repeat === 'once' ? 'untilDismissed' : 'once',
+            })
+          }
+        >
+          <Ionicons
+            name={
+              value.repeat === 'untilDismissed' ? 'checkbox' : 'square-outline'
+            }
+            size={24}
+            color={colors.accent}
+          />
+          <Text style={styles.toggleText}>
+            {t('alertProfile.ringUntilDismissed')}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          accessibilityRole="button"
+          accessibilityLabel={t('alertProfile.preview')}
+          onPress={() => playFeedback({ ...value, repeat: 'once' })}
+        >
+          <Ionicons
+            name="volume-high-outline"
+            size={22}
+            color={colors.accent}
+          />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    row: {
+      marginBottom: 8,
+    },
+    rowLabel: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginBottom: 4,
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    chip: {
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      marginEnd: 8,
+      marginBottom: 4,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+    },
+    footer: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: 4,
+    },
+    toggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    toggleText: {
+      marginStart: 8,
+      fontSize: 16,
+      color: colors.text,
+    },
+  });
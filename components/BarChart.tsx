@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MotiView } from 'moti';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { formatNumber } from '@/i18n';
+import { timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+type BarChartProps = {
+  data: { key: string; label: string; value: number }[];
+  height?: number;
+  color?: string;
+};
+
+export default function BarChart({ data, height = 120, color }: BarChartProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const barColor = color ?? colors.accent;
+  const max = Math.max(1, ...data.map((bucket) => bucket.value));
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.bars, { height }]}>
+        {data.map((bucket) => (
+          <View key={bucket.key} style={styles.column}>
+            <Text style={styles.value}>
+              {bucket.value ? formatNumber(bucket.value) : ''}
+            </Text>
+            <MotiView
+              from={{ height: 0 }}
+              animate={{ height: (bucket.value / max) * (height - 20) }}
+              transition={timingTransition(['height'], 500)}
+              style={[styles.bar, { backgroundColor: barColor }]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {data.map((bucket) => (
+          <Text key={bucket.key} style={styles.label} numberOfLines={1}>
+            {bucket.label}
+          </Text>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginTop: 8,
+    },
+    bars: {
+      flexDirection: 'row',
+      alignItems: 'flex-end',
+    },
+    column: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      marginHorizontal: 3,
+    },
+    value: {
+      fontSize: 11,
+      color: colors.textSecondary,
+      marginBottom: 2,
+    },
+    bar: {
+      width: '100%',
+      borderRadius: 4,
+      minHeight: 2,
+    },
+    labels: {
+      flexDirection: 'row',
+      marginTop: 4,
+    },
+    label: {
+      flex: 1,
+      fontSize: 11,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginHorizontal: 3,
+    },
+  });
@@ -0,0 +1,128 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Category } from '@/types/timer';
+import {
+  findCategoryByName,
+  getCategoryLabel,
+  suggestCategories,
+} from '@/utils/categories';
+import { useI18n } from '@/components/LocaleProvider';
+import { useThemedStyles } from '@/components/ThemeProvider';
+import { ThemeColors } from '@/utils/theme';
+
+type CategoryInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  categories: Category[];
+  error?: string;
+};
+
+const MAX_SUGGESTIONS = 6;
+
+/** Free-text category with existing categories offered as you type. */
+export default function CategoryInput({
+  value,
+  onChange,
+  categories,
+  error,
+}: CategoryInputProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const match = value.trim() ? findCategoryByName(categories, value) : null;
+  const suggestions = suggestCategories(categories, value).slice(
+    0,
+    MAX_SUGGESTIONS
+  );
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={[styles.input, error && styles.inputError]}
+        placeholder={t('timerForm.category')}
+        accessibilityLabel={t('timerForm.category')}
+        value={value}
+        onChangeText={onChange}
+      />
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+      {suggestions.length > 0 ? (
+        <View style={styles.suggestions}>
+          {suggestions.map((category) => (
+            <TouchableOpacity
+              key={category.id}
+              style={styles.suggestion}
+              onPress={() => onChange(category.name)}
+            >
+              <View style={[styles.dot, { backgroundColor: category.color }]} />
+              <Text style={styles.suggestionText}>
+                {getCategoryLabel(category.name)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ) : null}
+      {value.trim() && !match ? (
+        <Text style={styles.hint}>{t('timerForm.newCategory')}</Text>
+      ) : null}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+    suggestions: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 8,
+    },
+    suggestion: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      marginEnd: 6,
+      marginBottom: 6,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+    },
+    dot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginEnd: 6,
+    },
+    suggestionText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    hint: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+  });
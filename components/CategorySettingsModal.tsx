@@ -0,0 +1,392 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { MotiView } from 'moti';
+import { Ionicons } from '@expo/vector-icons';
+import { AlertProfile, Category } from '@/types/timer';
+import AlertProfileEditor from '@/components/AlertProfileEditor';
+import { DEFAULT_ALERT_PROFILE } from '@/utils/alertProfiles';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  CategoryEdit,
+  findCategoryByName,
+  getCategoryLabel,
+  sortCategories,
+} from '@/utils/categories';
+import { confirmAction } from '@/utils/confirm';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { springTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+type CategorySettingsModalProps = {
+  category: Category | null;
+  categories: Category[];
+  /** False when deleting would leave timers with nowhere to go. */
+  canDelete: boolean;
+  onSave: (changes: CategoryEdit) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+  onClose: () => void;
+};
+
+export default function CategorySettingsModal({
+  category,
+  categories,
+  canDelete,
+  onSave,
+  onMerge,
+  onDelete,
+  onClose,
+}: CategorySettingsModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState(CATEGORY_ICONS[0]);
+  const [profile, setProfile] = useState<AlertProfile>(DEFAULT_ALERT_PROFILE);
+
+  useEffect(() => {
+    if (!category) return;
+    setName(category.name);
+    setColor(category.color);
+    setIcon(category.icon);
+    setProfile(category.alertProfile ?? DEFAULT_ALERT_PROFILE);
+  }, [category]);
+
+  if (!category) return null;
+
+  const others = sortCategories(categories).filter((c) => c.id !== category.id);
+  const clash = findCategoryByName(others, name);
+  const nameError = !name.trim()
+    ? t('categorySettings.errors.empty')
+    : clash
+    ? t('categorySettings.errors.exists', {
+        name: getCategoryLabel(clash.name),
+      })
+    : undefined;
+  const label = getCategoryLabel(category.name);
+
+  const save = (alertProfile: AlertProfile | undefined) => {
+    if (nameError) return;
+    onSave({ name: name.trim(), color, icon, alertProfile });
+  };
+
+  const confirmMerge = (target: Category) =>
+    confirmAction(
+      t('categorySettings.mergeTitle', {
+        target: getCategoryLabel(target.name),
+      }),
+      t('categorySettings.mergeMessage', {
+        name: label,
+        target: getCategoryLabel(target.name),
+      }),
+      t('categorySettings.merge'),
+      () => onMerge(target.id)
+    );
+
+  const confirmDelete = () =>
+    confirmAction(
+      t('categorySettings.deleteTitle', { name: label }),
+      t('categorySettings.deleteMessage', {
+        fallback: t('categories.uncategorized'),
+      }),
+      t('common.delete'),
+      onDelete
+    );
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <MotiView
+          from={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={springTransition(['opacity', 'scale'])}
+          style={styles.modalContent}
+        >
+          <Text style={styles.modalTitle}>{label}</Text>
+          <ScrollView
+            style={styles.modalBody}
+            keyboardShouldPersistTaps="handled"
+          >
+            <TextInput
+              style={[styles.input, nameError && styles.inputError]}
+              placeholder={t('categorySettings.namePlaceholder')}
+              accessibilityLabel={t('categorySettings.namePlaceholder')}
+              value={name}
+              onChangeText={setName}
+            />
+            {nameError ? (
+              <Text style={styles.errorText}>{nameError}</Text>
+            ) : null}
+            <Text style={styles.sectionLabel}>
+              {t('categorySettings.colour')}
+            </Text>
+            <View style={styles.swatches}>
+              {CATEGORY_COLORS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.swatch,
+                    { backgroundColor: option },
+                    option === color && styles.swatchActive,
+                  ]}
+                  onPress={() => setColor(option)}
+                />
+              ))}
+            </View>
+            <Text style={styles.sectionLabel}>
+              {t('categorySettings.icon')}
+            </Text>
+            <View style={styles.swatches}>
+              {CATEGORY_ICONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.iconOption,
+                    option === icon && { backgroundColor: color },
+                  ]}
+                  onPress={() => setIcon(option)}
+                >
+                  <Ionicons
+                    name={option as keyof typeof Ionicons.glyphMap}
+                    size={20}
+                    color={
+                      option === icon ? colors.onAccent : colors.textSecondary
+                    }
+                  />
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={styles.sectionLabel}>
+              {t('categorySettings.alertDefaults')}
+            </Text>
+            <Text style={styles.subtitle}>
+              {t('categorySettings.alertDefaultsHint')}
+            </Text>
+            <AlertProfileEditor value={profile} onChange={setProfile} />
+            <TouchableOpacity
+              style={styles.resetLink}
+              onPress={() => save(undefined)}
+            >
+              <Text style={styles.resetLinkText}>
+                {t('categorySettings.useAppDefaults')}
+              </Text>
+            </TouchableOpacity>
+            {others.length > 0 ? (
+              <>
+                <Text style={styles.sectionLabel}>
+                  {t('categorySettings.mergeInto')}
+                </Text>
+                <View style={styles.swatches}>
+                  {others.map((other) => (
+                    <TouchableOpacity
+                      key={other.id}
+                      style={styles.mergeChip}
+                      onPress={() => confirmMerge(other)}
+                    >
+                      <View
+                        style={[styles.dot, { backgroundColor: other.color }]}
+                      />
+                      <Text style={styles.mergeChipText}>
+                        {getCategoryLabel(other.name)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </>
+            ) : null}
+            {canDelete ? (
+              <TouchableOpacity
+                style={styles.deleteRow}
+                onPress={confirmDelete}
+              >
+                <Ionicons
+                  name="trash-outline"
+                  size={18}
+                  color={colors.danger}
+                />
+                <Text style={styles.deleteText}>
+                  {t('categorySettings.delete')}
+                </Text>
+              </TouchableOpacity>
+            ) : null}
+          </ScrollView>
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.submitButton]}
+              onPress={() => save(profile)}
+            >
+              <Text style={styles.buttonText}>{t('common.save')}</Text>
+            </TouchableOpacity>
+          </View>
+        </MotiView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.overlay,
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      elevation: 5,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      marginBottom: 16,
+      textAlign: 'center',
+      color: colors.text,
+    },
+    modalBody: {
+      maxHeight: 440,
+      marginBottom: 12,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+    sectionLabel: {
+      marginTop: 16,
+      marginBottom: 8,
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    swatches: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+    },
+    swatch: {
+      width: 28,
+      height: 28,
+      borderRadius: 14,
+      marginEnd: 8,
+      marginBottom: 8,
+    },
+    swatchActive: {
+      borderWidth: 3,
+      borderColor: colors.text,
+    },
+    iconOption: {
+      padding: 6,
+      marginEnd: 6,
+      marginBottom: 6,
+      borderRadius: 8,
+      backgroundColor: colors.background,
+    },
+    resetLink: {
+      alignSelf: 'center',
+      marginVertical: 12,
+    },
+    resetLinkText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textDecorationLine: 'underline',
+    },
+    mergeChip: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      marginEnd: 6,
+      marginBottom: 6,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+    },
+    dot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginEnd: 6,
+    },
+    mergeChipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    deleteRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 16,
+    },
+    deleteText: {
+      marginStart: 6,
+      fontSize: 16,
+      color: colors.danger,
+    },
+    modalButtons: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    modalButton: {
+      flex: 1,
+      padding: 12,
+      borderRadius: 8,
+      marginHorizontal: 8,
+    },
+    cancelButton: {
+      backgroundColor: colors.danger,
+    },
+    submitButton: {
+      backgroundColor: colors.accent,
+    },
+    buttonText: {
+      color: colors.onAccent,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MotiView } from 'moti';
+import ActionMenu from '@/components/ActionMenu';
+import { useTimerStore } from '@/store/TimerProvider';
+import { timerActions } from '@/store/timerReducer';
+import { pickTextFile, shareTextFile } from '@/services/fileTransfer';
+import {
+  createExportBundle,
+  historyToCsv,
+  ImportMode,
+  ImportPreview,
+  parseImportBundle,
+} from '@/utils/exportImport';
+import { confirmAction } from '@/utils/confirm';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { springTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+const fileDate = () => new Date().toISOString().slice(0, 10);
+
+export default function DataTransferMenu() {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const { state, dispatch } = useTimerStore();
+  const [menuVisible, setMenuVisible] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+
+  const handleExportJson = async () => {
+    const bundle = createExportBundle(
+      {
+        timers: state.timers,
+        history: state.history,
+        categories: state.categories,
+        templates: state.templates,
+      },
+      Date.now()
+    );
+    try {
+      await shareTextFile(
+        `timers-${fileDate()}.json`,
+        JSON.stringify(bundle, null, 2),
+        'application/json'
+      );
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      Alert.alert(t('import.exportFailed'), String(error));
+    }
+  };
+
+  const handleExportCsv = async () => {
+    try {
+      await shareTextFile(
+        `timer-history-${fileDate()}.csv`,
+        historyToCsv(state.history),
+        'text/csv'
+      );
+    } catch (error) {
+      console.error('Error exporting history:', error);
+      Alert.alert(t('import.exportFailed'), String(error));
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const text = await pickTextFile('application/json');
+      if (text === null) return;
+      const result = parseImportBundle(text);
+      if (!result.ok) {
+        Alert.alert(
+          t('import.importFailed'),
+          t(`import.errors.${result.error}`)
+        );
+        return;
+      }
+      setPreview(result.preview);
+    } catch (error) {
+      console.error('Error importing data:', error);
+      Alert.alert(t('import.importFailed'), String(error));
+    }
+  };
+
+  const applyImport = (mode: ImportMode) => {
+    if (!preview) return;
+    const run = () => {
+      dispatch(timerActions.import(mode, preview));
+      setPreview(null);
+    };
+    if (mode === 'replace') {
+      confirmAction(
+        t('import.replaceTitle'),
+        t('import.replaceMessage'),
+        t('import.replace'),
+        run
+      );
+    } else {
+      run();
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.headerButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('import.menuTitle')}
+        onPress={() => setMenuVisible(true)}
+      >
+        <Ionicons name="swap-vertical" size={22} color={colors.accent} />
+      </TouchableOpacity>
+      <ActionMenu
+        visible={menuVisible}
+        title={t('import.menuTitle')}
+        onClose={() => setMenuVisible(false)}
+        options={[
+          {
+            label: t('import.exportJson'),
+            icon: 'download-outline',
+            onPress: handleExportJson,
+          },
+          {
+            label: t('import.exportCsv'),
+            icon: 'document-text-outline',
+            onPress: handleExportCsv,
+          },
+          {
+            label: t('import.importJson'),
+            icon: 'cloud-upload-outline',
+            onPress: handleImport,
+          },
+        ]}
+      />
+      <Modal
+        animationType="slide"
+        transparent={true}
+        visible={preview !== null}
+        onRequestClose={() => setPreview(null)}
+      >
+        <View style={styles.modalContainer}>
+          <MotiView
+            from={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={springTransition(['opacity', 'scale'])}
+            style={styles.modalContent}
+          >
+            <Text style={styles.modalTitle}>{t('import.title')}</Text>
+            {preview ? (
+              <>
+                <Text style={styles.summary}>
+                  {t('import.summary', {
+                    timers: t('import.timers', {
+                      count: preview.timers.length,
+                    }),
+                    history: t('import.historyEntries', {
+                      count: preview.history.length,
+                    }),
+                    templates: t('import.presets', {
+                      count: preview.templates.length,
+                    }),
+                  })}
+                </Text>
+                {preview.errors.length > 0 ? (
+                  <ScrollView style={styles.errors}>
+                    <Text style={styles.errorTitle}>
+                      {t('import.rowsSkipped', {
+                        count: preview.errors.length,
+                      })}
+                    </Text>
+                    {preview.errors.map((error) => (
+                      <Text
+                        key={`${error.section}-${error.index}`}
+                        style={styles.errorText}
+                      >
+                        {t(
+                          error.index >= 0
+                            ? 'import.rowError'
+                            : 'import.sectionError',
+                          {
+                            section: t(`import.sections.${error.section}`),
+                            number: error.index + 1,
+                            error: t(`import.recordErrors.${error.error}`),
+                          }
+                        )}
+                      </Text>
+                    ))}
+                  </ScrollView>
+                ) : null}
+                <Text style={styles.hint}>{t('import.hint')}</Text>
+              </>
+            ) : null}
+            <View style={styles.modalButtons}>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.cancelButton]}
+                onPress={() => setPreview(null)}
+              >
+                <Text style={styles.buttonText}>{t('common.cancel')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.replaceButton]}
+                onPress={() => applyImport('replace')}
+              >
+                <Text style={styles.buttonText}>{t('import.replace')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, styles.mergeButton]}
+                onPress={() => applyImport('merge')}
+              >
+                <Text style={styles.buttonText}>{t('import.merge')}</Text>
+              </TouchableOpacity>
+            </View>
+          </MotiView>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    headerButton: {
+      padding: 8,
+      marginEnd: 8,
+    },
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.overlay,
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      elevation: 5,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      marginBottom: 16,
+      textAlign: 'center',
+      color: colors.text,
+    },
+    summary: {
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 12,
+    },
+    errors: {
+      maxHeight: 160,
+      marginBottom: 12,
+      padding: 12,
+      borderRadius: 8,
+      backgroundColor: colors.dangerSoft,
+    },
+    errorTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.dangerStrong,
+      marginBottom: 4,
+    },
+    errorText: {
+      fontSize: 13,
+      color: colors.dangerStrong,
+    },
+    hint: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 16,
+    },
+    modalButtons: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    modalButton: {
+      flex: 1,
+      padding: 12,
+      borderRadius: 8,
+      marginHorizontal: 4,
+    },
+    cancelButton: {
+      backgroundColor: colors.textSecondary,
+    },
+    replaceButton: {
+      backgroundColor: colors.danger,
+    },
+    mergeButton: {
+      backgroundColor: colors.accent,
+    },
+    buttonText: {
+      color: colors.onAccent,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,126 @@
+import React from 'react';
+import { View, Text, StyleSheet, TextInput } from 'react-native';
+import {
+  formatDurationInput,
+  parseDuration,
+  splitDuration,
+} from '@/utils/duration';
+import { useI18n } from '@/components/LocaleProvider';
+import { useThemedStyles } from '@/components/ThemeProvider';
+import { MessageKey } from '@/i18n';
+import { ThemeColors } from '@/utils/theme';
+
+type DurationInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  error?: string;
+};
+
+type Segment = 'hours' | 'minutes' | 'seconds';
+
+const SEGMENTS: { key: Segment; label: MessageKey; max: number }[] = [
+  { key: 'hours', label: 'durationInput.hours', max: 99 },
+  { key: 'minutes', label: 'durationInput.minutes', max: 59 },
+  { key: 'seconds', label: 'durationInput.seconds', max: 59 },
+];
+
+export default function DurationInput({
+  value,
+  onChange,
+  error,
+}: DurationInputProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const parsed = parseDuration(value);
+  const parts = splitDuration(parsed.ok ? parsed.seconds : 0);
+
+  const handleSegmentChange = (segment: Segment, text: string, max: number) => {
+    const digits = text.replace(/\D/g, '');
+    const next = {
+      ...parts,
+      [segment]: Math.min(max, digits ? parseInt(digits, 10) : 0),
+    };
+    const total = next.hours * 3600 + next.minutes * 60 + next.seconds;
+    onChange(total > 0 ? formatDurationInput(total) : '');
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.segments}>
+        {SEGMENTS.map(({ key, label, max }) => (
+          <View key={key} style={styles.segment}>
+            <TextInput
+              style={[styles.segmentInput, error && styles.inputError]}
+              value={parts[key] ? parts[key].toString() : ''}
+              placeholder="0"
+              keyboardType="number-pad"
+              maxLength={2}
+              onChangeText={(text) => handleSegmentChange(key, text, max)}
+            />
+            <Text style={styles.segmentLabel}>{t(label)}</Text>
+          </View>
+        ))}
+      </View>
+      <TextInput
+        style={[styles.input, error && styles.inputError]}
+        placeholder={t('durationInput.placeholder')}
+        value={value}
+        onChangeText={onChange}
+        autoCapitalize="none"
+        autoCorrect={false}
+      />
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    segments: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    segment: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginEnd: 8,
+    },
+    segmentInput: {
+      flex: 1,
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      textAlign: 'center',
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    segmentLabel: {
+      marginStart: 4,
+      fontSize: 16,
+      color: colors.textSecondary,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+  });
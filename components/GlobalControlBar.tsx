@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Timer } from '@/types/timer';
+import { BulkAction, summarizeTimers } from '@/utils/bulkActions';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { formatNumber } from '@/i18n';
+import { ThemeColors } from '@/utils/theme';
+
+type GlobalControlBarProps = {
+  timers: Timer[];
+  onAction: (action: BulkAction) => void;
+};
+
+type ControlProps = {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  count: number;
+  onPress: () => void;
+};
+
+function Control({ icon, label, count, onPress }: ControlProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const disabled = count === 0;
+  return (
+    <TouchableOpacity
+      style={[styles.control, disabled && styles.controlDisabled]}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityState={{ disabled }}
+    >
+      <Ionicons name={icon} size={18} color={colors.accent} />
+      <Text style={styles.controlText}>
+        {label}
+        {disabled ? '' : ` (${formatNumber(count)})`}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/** Actions across every category, each only touching timers it applies to. */
+export default function GlobalControlBar({
+  timers,
+  onAction,
+}: GlobalControlBarProps) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const summary = summarizeTimers(timers);
+
+  return (
+    <View style={styles.container}>
+      <Control
+        icon="pause"
+        label={t('controls.pauseAll')}
+        count={summary.running}
+        onPress={() => onAction('pause')}
+      />
+      <Control
+        icon="play"
+        label={t('controls.resumeAll')}
+        count={summary.paused}
+        onPress={() => onAction('resume')}
+      />
+      <Control
+        icon="refresh"
+        label={t('controls.resetDone')}
+        count={summary.completed}
+        onPress={() => onAction('resetCompleted')}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      marginHorizontal: 16,
+      marginTop: 16,
+    },
+    control: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      paddingVertical: 8,
+      marginHorizontal: 4,
+      borderRadius: 8,
+      backgroundColor: colors.surface,
+    },
+    controlDisabled: {
+      opacity: 0.4,
+    },
+    controlText: {
+      marginStart: 4,
+      fontSize: 14,
+      fontWeight: '500',
+      color: colors.accent,
+    },
+  });
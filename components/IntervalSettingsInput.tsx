@@ -0,0 +1,167 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { IntervalSettings } from '@/types/timer';
+import DurationInput from '@/components/DurationInput';
+import { formatDurationInput } from '@/utils/duration';
+import { getPhaseLabel, MAX_ROUNDS_BEFORE_LONG_BREAK } from '@/utils/intervals';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { formatNumber } from '@/i18n';
+import { ThemeColors } from '@/utils/theme';
+
+type PhaseField = 'work' | 'shortBreak' | 'longBreak';
+
+export type IntervalDraft = Record<PhaseField, string> &
+  Pick<
+    IntervalSettings,
+    'roundsBeforeLongBreak' | 'autoStartBreaks' | 'autoStartWork'
+  >;
+
+export type IntervalErrors = Partial<Record<PhaseField, string>>;
+
+type IntervalSettingsInputProps = {
+  value: IntervalDraft;
+  onChange: (value: IntervalDraft) => void;
+  errors?: IntervalErrors;
+};
+
+const PHASE_FIELDS: PhaseField[] = ['work', 'shortBreak', 'longBreak'];
+
+export const toIntervalDraft = (settings: IntervalSettings): IntervalDraft => ({
+  work: formatDurationInput(settings.work),
+  shortBreak: formatDurationInput(settings.shortBreak),
+  longBreak: formatDurationInput(settings.longBreak),
+  roundsBeforeLongBreak: settings.roundsBeforeLongBreak,
+  autoStartBreaks: settings.autoStartBreaks,
+  autoStartWork: settings.autoStartWork,
+});
+
+export default function IntervalSettingsInput({
+  value,
+  onChange,
+  errors = {},
+}: IntervalSettingsInputProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const setRounds = (rounds: number) => {
+    onChange({
+      ...value,
+      roundsBeforeLongBreak: Math.min(
+        MAX_ROUNDS_BEFORE_LONG_BREAK,
+        Math.max(1, rounds)
+      ),
+    });
+  };
+
+  const renderToggle = (
+    key: 'autoStartBreaks' | 'autoStartWork',
+    label: string
+  ) => (
+    <TouchableOpacity
+      style={styles.toggle}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: value[key] }}
+      onPress={() => onChange({ ...value, [key]: !value[key] })}
+    >
+      <Ionicons
+        name={value[key] ? 'checkbox' : 'square-outline'}
+        size={22}
+        color={colors.accent}
+      />
+      <Text style={styles.toggleText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {PHASE_FIELDS.map((key) => (
+        <View key={key}>
+          <Text style={styles.label}>{getPhaseLabel(key)}</Text>
+          <DurationInput
+            value={value[key]}
+            onChange={(text) => onChange({ ...value, [key]: text })}
+            error={errors[key]}
+          />
+        </View>
+      ))}
+      <View style={styles.roundsRow}>
+        <Text style={styles.label}>{t('intervals.roundsBeforeLongBreak')}</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            onPress={() => setRounds(value.roundsBeforeLongBreak - 1)}
+            style={styles.iconButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('intervals.fewerRounds')}
+          >
+            <Ionicons
+              name="remove-circle-outline"
+              size={24}
+              color={colors.accent}
+            />
+          </TouchableOpacity>
+          <Text style={styles.roundsValue}>
+            {formatNumber(value.roundsBeforeLongBreak)}
+          </Text>
+          <TouchableOpacity
+            onPress={() => setRounds(value.roundsBeforeLongBreak + 1)}
+            style={styles.iconButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('intervals.moreRounds')}
+          >
+            <Ionicons
+              name="add-circle-outline"
+              size={24}
+              color={colors.accent}
+            />
+          </TouchableOpacity>
+        </View>
+      </View>
+      {renderToggle('autoStartBreaks', t('intervals.autoStartBreaks'))}
+      {renderToggle('autoStartWork', t('intervals.autoStartWork'))}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 8,
+    },
+    label: {
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 8,
+    },
+    roundsRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    iconButton: {
+      padding: 4,
+    },
+    roundsValue: {
+      minWidth: 32,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    toggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    toggleText: {
+      marginStart: 8,
+      fontSize: 16,
+      color: colors.text,
+    },
+  });
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ActionMenu from '@/components/ActionMenu';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme } from '@/components/ThemeProvider';
+import { useToast } from '@/components/ToastProvider';
+import { LOCALE_PREFERENCES, LOCALES } from '@/i18n';
+
+/** Header button for choosing the app's language. */
+export default function LanguageToggle() {
+  const { colors } = useTheme();
+  const { t, preference, setPreference } = useI18n();
+  const { showToast } = useToast();
+  const [menuVisible, setMenuVisible] = useState(false);
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.headerButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('language.title')}
+        onPress={() => setMenuVisible(true)}
+      >
+        <Ionicons name="language-outline" size={22} color={colors.accent} />
+      </TouchableOpacity>
+      <ActionMenu
+        visible={menuVisible}
+        title={t('language.title')}
+        onClose={() => setMenuVisible(false)}
+        options={LOCALE_PREFERENCES.map((option) => ({
+          // Language names are shown in their own language.
+          label:
+            option === 'system' ? t('language.system') : LOCALES[option].name,
+          icon:
+            option === 'system' ? 'phone-portrait-outline' : 'globe-outline',
+          selected: option === preference,
+          onPress: () => {
+            if (setPreference(option)) {
+              showToast(
+                t('language.restartTitle'),
+                t('language.restartMessage')
+              );
+            }
+          },
+        }))}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerButton: {
+    padding: 8,
+  },
+});
@@ -0,0 +1,171 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useToast } from '@/components/ToastProvider';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { LinkDescription } from '@/utils/deepLinks';
+import { ThemeColors } from '@/utils/theme';
+import { ValidationResult } from '@/utils/validation';
+
+export type LinkRequest = ValidationResult<
+  LinkDescription & { run: () => void }
+>;
+
+type LinkActionScreenProps = {
+  /** Null until stored timers have loaded and the link can be resolved. */
+  request: LinkRequest | null;
+};
+
+const goHome = () => router.replace('/');
+
+/**
+ * Carries out a deep link: safe actions run straight away and land on the
+ * timers list with a toast, destructive ones wait for confirmation, and
+ * links that cannot be followed explain why.
+ */
+export default function LinkActionScreen({ request }: LinkActionScreenProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { showToast } = useToast();
+  const { t } = useI18n();
+  const handled = useRef(false);
+
+  const run = (link: LinkDescription & { run: () => void }) => {
+    if (handled.current) return;
+    handled.current = true;
+    link.run();
+    if (!link.confirmLabel) showToast(link.title, link.message);
+    goHome();
+  };
+
+  // Safe links run once when the request arrives, with the latest `run`.
+  const latestRun = useRef(run);
+  latestRun.current = run;
+  useEffect(() => {
+    if (request?.ok && !request.value.confirmLabel) {
+      latestRun.current(request.value);
+    }
+  }, [request]);
+
+  const renderBody = () => {
+    if (!request || (request.ok && !request.value.confirmLabel)) {
+      return <ActivityIndicator size="large" color={colors.accent} />;
+    }
+    if (!request.ok) {
+      return (
+        <>
+          <Ionicons name="link-outline" size={40} color={colors.danger} />
+          <Text style={styles.title}>{t('links.failedTitle')}</Text>
+          <Text style={styles.message}>{request.error}</Text>
+          <TouchableOpacity
+            style={[styles.button, styles.primaryButton]}
+            onPress={goHome}
+          >
+            <Text style={styles.buttonText}>{t('links.goToTimers')}</Text>
+          </TouchableOpacity>
+        </>
+      );
+    }
+    return (
+      <>
+        <Ionicons name="warning-outline" size={40} color={colors.warning} />
+        <Text style={styles.title}>{request.value.title}</Text>
+        <Text style={styles.message}>{request.value.message}</Text>
+        <View style={styles.buttons}>
+          <TouchableOpacity
+            style={[styles.button, styles.cancelButton]}
+            onPress={goHome}
+          >
+            <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.destructiveButton]}
+            onPress={() => run(request.value)}
+          >
+            <Text style={styles.buttonText}>{request.value.confirmLabel}</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.card}>{renderBody()}</View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      padding: 24,
+      backgroundColor: colors.background,
+    },
+    card: {
+      width: '100%',
+      maxWidth: 400,
+      alignItems: 'center',
+      padding: 24,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+    },
+    title: {
+      marginTop: 12,
+      fontSize: 20,
+      fontWeight: '600',
+      textAlign: 'center',
+      color: colors.text,
+    },
+    message: {
+      marginTop: 8,
+      marginBottom: 20,
+      fontSize: 16,
+      textAlign: 'center',
+      color: colors.textSecondary,
+    },
+    buttons: {
+      flexDirection: 'row',
+      alignSelf: 'stretch',
+    },
+    button: {
+      flex: 1,
+      padding: 12,
+      borderRadius: 8,
+      marginHorizontal: 8,
+    },
+    primaryButton: {
+      flex: 0,
+      alignSelf: 'stretch',
+      backgroundColor: colors.accent,
+    },
+    cancelButton: {
+      backgroundColor: colors.background,
+    },
+    destructiveButton: {
+      backgroundColor: colors.danger,
+    },
+    cancelText: {
+      color: colors.text,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    buttonText: {
+      color: colors.onAccent,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,97 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { defaultStorageAdapter, StorageAdapter } from '@/services/storage';
+import { applyLayoutDirection } from '@/services/localization';
+import {
+  getDirection,
+  isLocalePreference,
+  Locale,
+  LocalePreference,
+  resolveLocale,
+  setLocale,
+  t,
+  TextDirection,
+} from '@/i18n';
+
+const PREFERENCE_KEY = 'localePreference';
+
+type LocaleContextValue = {
+  t: typeof t;
+  locale: Locale;
+  direction: TextDirection;
+  preference: LocalePreference;
+  /** Returns true when the app must restart to flip its layout direction. */
+  setPreference: (preference: LocalePreference) => boolean;
+};
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+type LocaleProviderProps = {
+  children: React.ReactNode;
+  storageAdapter?: StorageAdapter;
+};
+
+/**
+ * Follows the device language unless the user picked one. The active locale
+ * is also set globally, so utilities can call `t` directly; components read
+ * it through `useI18n` so that they re-render when it changes.
+ */
+export function LocaleProvider({
+  children,
+  storageAdapter = defaultStorageAdapter,
+}: LocaleProviderProps) {
+  const [preference, setPreferenceState] = useState<LocalePreference>('system');
+  const [locale, setLocaleState] = useState(() => {
+    const initial = resolveLocale('system');
+    setLocale(initial);
+    return initial;
+  });
+
+  const applyPreference = (next: LocalePreference) => {
+    const nextLocale = resolveLocale(next);
+    // Set before rendering so that every `t` call in the render sees it.
+    setLocale(nextLocale);
+    setPreferenceState(next);
+    setLocaleState(nextLocale);
+    return applyLayoutDirection(nextLocale, getDirection(nextLocale));
+  };
+
+  useEffect(() => {
+    const initial = resolveLocale('system');
+    applyLayoutDirection(initial, getDirection(initial));
+    storageAdapter
+      .getItem(PREFERENCE_KEY)
+      .then((stored) => {
+        if (isLocalePreference(stored)) applyPreference(stored);
+      })
+      .catch((error) => console.error('Error loading language:', error));
+  }, [storageAdapter]);
+
+  const setPreference = (next: LocalePreference) => {
+    storageAdapter
+      .setItem(PREFERENCE_KEY, next)
+      .catch((error) => console.error('Error saving language:', error));
+    return applyPreference(next);
+  };
+
+  return (
+    <LocaleContext.Provider
+      value={{
+        t,
+        locale,
+        direction: getDirection(locale),
+        preference,
+        setPreference,
+      }}
+    >
+      {children}
+    </LocaleContext.Provider>
+  );
+}
+
+export function useI18n() {
+  const value = useContext(LocaleContext);
+  if (!value) {
+    throw new Error('useI18n must be used within a LocaleProvider');
+  }
+  return value;
+}
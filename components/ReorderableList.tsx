@@ -0,0 +1,155 @@
+import React, { useRef, useState } from 'react';
+import { Animated, PanResponder, StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { ThemeColors } from '@/utils/theme';
+
+type ReorderableListProps<T> = {
+  items: T[];
+  keyExtractor: (item: T) => string;
+  /** Render `handle` inside the item; dragging it moves the whole item. */
+  renderItem: (item: T, handle: React.ReactNode) => React.ReactNode;
+  onReorder: (from: number, to: number) => void;
+  /** Names the item to screen readers, which move it with actions. */
+  itemLabel: (item: T) => string;
+};
+
+type ReorderableRowProps = {
+  label: string;
+  onHeight: (height: number) => void;
+  onDrop: (dy: number) => void;
+  onMove: (step: 1 | -1) => void;
+  children: (handle: React.ReactNode) => React.ReactNode;
+};
+
+/** Index a dragged row lands on after moving `dy` from `from`. */
+const getDropIndex = (heights: number[], from: number, dy: number) => {
+  let to = from;
+  let offset = dy;
+  while (to < heights.length - 1 && offset > heights[to + 1] / 2) {
+    offset -= heights[to + 1];
+    to += 1;
+  }
+  while (to > 0 && offset < -heights[to - 1] / 2) {
+    offset += heights[to - 1];
+    to -= 1;
+  }
+  return to;
+};
+
+function ReorderableRow({
+  label,
+  onHeight,
+  onDrop,
+  onMove,
+  children,
+}: ReorderableRowProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState(false);
+  // The responder is created once, so it reads the latest drop handler here.
+  const drop = useRef(onDrop);
+  drop.current = onDrop;
+
+  const responder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => setDragging(true),
+      onPanResponderMove: Animated.event([null, { dy: translateY }], {
+        useNativeDriver: false,
+      }),
+      onPanResponderRelease: (_, { dy }) => {
+        translateY.setValue(0);
+        setDragging(false);
+        drop.current(dy);
+      },
+      onPanResponderTerminate: () => {
+        translateY.setValue(0);
+        setDragging(false);
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      onLayout={(event) => onHeight(event.nativeEvent.layout.height)}
+      style={[{ transform: [{ translateY }] }, dragging && styles.dragging]}
+    >
+      {children(
+        <View
+          {...responder.panHandlers}
+          style={styles.handle}
+          accessible
+          accessibilityLabel={t('reorder.label', { name: label })}
+          accessibilityHint={t('reorder.hint')}
+          accessibilityActions={[
+            { name: 'moveUp', label: t('reorder.moveUp') },
+            { name: 'moveDown', label: t('reorder.moveDown') },
+          ]}
+          onAccessibilityAction={(event) =>
+            onMove(event.nativeEvent.actionName === 'moveUp' ? -1 : 1)
+          }
+        >
+          <Ionicons name="reorder-three" size={24} color={colors.textMuted} />
+        </View>
+      )}
+    </Animated.View>
+  );
+}
+
+export default function ReorderableList<T>({
+  items,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  itemLabel,
+}: ReorderableListProps<T>) {
+  const heights = useRef(new Map<string, number>());
+
+  const handleDrop = (from: number, dy: number) => {
+    const to = getDropIndex(
+      items.map((item) => heights.current.get(keyExtractor(item)) ?? 0),
+      from,
+      dy
+    );
+    if (to !== from) onReorder(from, to);
+  };
+
+  return (
+    <>
+      {items.map((item, index) => {
+        const key = keyExtractor(item);
+        return (
+          <ReorderableRow
+            key={key}
+            label={itemLabel(item)}
+            onHeight={(height) => heights.current.set(key, height)}
+            onDrop={(dy) => handleDrop(index, dy)}
+            onMove={(step) => {
+              const to = index + step;
+              if (to >= 0 && to < items.length) onReorder(index, to);
+            }}
+          >
+            {(handle) => renderItem(item, handle)}
+          </ReorderableRow>
+        );
+      })}
+    </>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    handle: {
+      padding: 4,
+    },
+    dragging: {
+      zIndex: 10,
+      elevation: 6,
+      opacity: 0.9,
+    },
+  });
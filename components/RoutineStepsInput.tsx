@@ -0,0 +1,299 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import DurationInput from '@/components/DurationInput';
+import AlertCheckpointsInput, {
+  AlertDraft,
+} from '@/components/AlertCheckpointsInput';
+import { createId } from '@/utils/id';
+import { MAX_ROUTINE_REPEAT } from '@/utils/routines';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { ThemeColors } from '@/utils/theme';
+
+export type StepDraft = {
+  id: string;
+  name: string;
+  duration: string;
+  alerts: AlertDraft[];
+};
+
+export type RoutineDraft = {
+  steps: StepDraft[];
+  repeat: number;
+};
+
+export type StepErrors = {
+  name?: string;
+  duration?: string;
+  alerts: Record<string, string>;
+};
+
+type RoutineStepsInputProps = {
+  value: RoutineDraft;
+  onChange: (value: RoutineDraft) => void;
+  errors?: Record<string, StepErrors>;
+  stepsError?: string;
+};
+
+export const createStepDraft = (
+  changes: Partial<StepDraft> = {}
+): StepDraft => ({
+  id: createId(),
+  name: '',
+  duration: '',
+  alerts: [],
+  ...changes,
+});
+
+export default function RoutineStepsInput({
+  value,
+  onChange,
+  errors = {},
+  stepsError,
+}: RoutineStepsInputProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const updateStep = (id: string, changes: Partial<StepDraft>) => {
+    onChange({
+      ...value,
+      steps: value.steps.map((step) =>
+        step.id === id ? { ...step, ...changes } : step
+      ),
+    });
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const steps = [...value.steps];
+    const [step] = steps.splice(index, 1);
+    steps.splice(index + offset, 0, step);
+    onChange({ ...value, steps });
+  };
+
+  const removeStep = (id: string) => {
+    onChange({ ...value, steps: value.steps.filter((step) => step.id !== id) });
+  };
+
+  const setRepeat = (repeat: number) => {
+    onChange({
+      ...value,
+      repeat: Math.min(MAX_ROUTINE_REPEAT, Math.max(1, repeat)),
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('routineInput.steps')}</Text>
+      {value.steps.map((step, index) => {
+        const stepErrors = errors[step.id];
+        return (
+          <View key={step.id} style={styles.step}>
+            <View style={styles.stepHeader}>
+              <Text style={styles.stepNumber}>
+                {t('routineInput.stepNumber', { number: index + 1 })}
+              </Text>
+              <TouchableOpacity
+                onPress={() => moveStep(index, -1)}
+                disabled={index === 0}
+                style={styles.iconButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('reorder.moveUp')}
+              >
+                <Ionicons
+                  name="arrow-up"
+                  size={18}
+                  color={
+                    index === 0 ? colors.borderStrong : colors.textSecondary
+                  }
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => moveStep(index, 1)}
+                disabled={index === value.steps.length - 1}
+                style={styles.iconButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('reorder.moveDown')}
+              >
+                <Ionicons
+                  name="arrow-down"
+                  size={18}
+                  color={
+                    index === value.steps.length - 1
+                      ? colors.borderStrong
+                      : colors.textSecondary
+                  }
+                />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => removeStep(step.id)}
+                style={styles.iconButton}
+                accessibilityRole="button"
+                accessibilityLabel={t('routineInput.removeStep')}
+              >
+                <Ionicons
+                  name="close-circle"
+                  size={20}
+                  color={colors.textMuted}
+                />
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={[styles.input, stepErrors?.name && styles.inputError]}
+              placeholder={t('routineInput.stepName')}
+              value={step.name}
+              onChangeText={(text) => updateStep(step.id, { name: text })}
+            />
+            {stepErrors?.name ? (
+              <Text style={styles.errorText}>{stepErrors.name}</Text>
+            ) : null}
+            <View style={styles.stepField}>
+              <DurationInput
+                value={step.duration}
+                onChange={(text) => updateStep(step.id, { duration: text })}
+                error={stepErrors?.duration}
+              />
+            </View>
+            <AlertCheckpointsInput
+              value={step.alerts}
+              onChange={(alerts) => updateStep(step.id, { alerts })}
+              errors={stepErrors?.alerts}
+            />
+          </View>
+        );
+      })}
+      {stepsError ? <Text style={styles.errorText}>{stepsError}</Text> : null}
+      <TouchableOpacity
+        style={styles.addStep}
+        onPress={() =>
+          onChange({ ...value, steps: [...value.steps, createStepDraft()] })
+        }
+      >
+        <Ionicons name="add" size={16} color={colors.accent} />
+        <Text style={styles.addStepText}>{t('routineInput.addStep')}</Text>
+      </TouchableOpacity>
+      <View style={styles.repeatRow}>
+        <Text style={styles.label}>{t('routineInput.repeat')}</Text>
+        <View style={styles.stepper}>
+          <TouchableOpacity
+            onPress={() => setRepeat(value.repeat - 1)}
+            style={styles.iconButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('routineInput.repeatLess')}
+          >
+            <Ionicons
+              name="remove-circle-outline"
+              size={24}
+              color={colors.accent}
+            />
+          </TouchableOpacity>
+          <Text style={styles.repeatValue}>
+            {t('routineInput.repeatCount', { count: value.repeat })}
+          </Text>
+          <TouchableOpacity
+            onPress={() => setRepeat(value.repeat + 1)}
+            style={styles.iconButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('routineInput.repeatMore')}
+          >
+            <Ionicons
+              name="add-circle-outline"
+              size={24}
+              color={colors.accent}
+            />
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 8,
+    },
+    step: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 12,
+    },
+    stepHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    stepNumber: {
+      flex: 1,
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    stepField: {
+      marginTop: 8,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 8,
+      fontSize: 14,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+    iconButton: {
+      padding: 4,
+    },
+    addStep: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      alignSelf: 'flex-start',
+      paddingHorizontal: 10,
+      paddingVertical: 4,
+      marginBottom: 12,
+      borderRadius: 16,
+      backgroundColor: colors.accentSoft,
+    },
+    addStepText: {
+      marginStart: 2,
+      fontSize: 14,
+      color: colors.accent,
+    },
+    repeatRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    repeatValue: {
+      minWidth: 48,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+  });
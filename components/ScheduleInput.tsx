@@ -0,0 +1,291 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TimerSchedule, Weekday } from '@/types/timer';
+import {
+  EVERY_DAY,
+  formatClockTime,
+  formatStartTimeInput,
+  getDayLabel,
+  MAX_SCHEDULE_HOURS,
+  WEEKDAYS,
+} from '@/utils/schedule';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { MessageKey } from '@/i18n';
+import { ThemeColors } from '@/utils/theme';
+
+export type ScheduleDraft = {
+  type: TimerSchedule['type'];
+  /** One-off start, as typed. */
+  at: string;
+  /** Clock time for recurring schedules, as typed. */
+  time: string;
+  days: Weekday[];
+  hours: number;
+};
+
+type ScheduleInputProps = {
+  value: ScheduleDraft;
+  onChange: (value: ScheduleDraft) => void;
+  error?: string;
+};
+
+const TYPES: { value: TimerSchedule['type']; label: MessageKey }[] = [
+  { value: 'once', label: 'scheduleInput.once' },
+  { value: 'daily', label: 'scheduleInput.daily' },
+  { value: 'everyHours', label: 'scheduleInput.everyHours' },
+];
+
+export const createScheduleDraft = (): ScheduleDraft => ({
+  type: 'daily',
+  at: '',
+  time: '07:00',
+  days: EVERY_DAY,
+  hours: 2,
+});
+
+export const toScheduleDraft = (schedule: TimerSchedule): ScheduleDraft => {
+  const draft = createScheduleDraft();
+  switch (schedule.type) {
+    case 'once':
+      return { ...draft, type: 'once', at: formatStartTimeInput(schedule.at) };
+    case 'daily':
+      return {
+        ...draft,
+        type: 'daily',
+        time: formatClockTime(schedule.hour, schedule.minute),
+        days: schedule.days,
+      };
+    case 'everyHours':
+      return {
+        ...draft,
+        type: 'everyHours',
+        time: formatClockTime(schedule.hour, schedule.minute),
+        hours: schedule.hours,
+      };
+  }
+};
+
+export default function ScheduleInput({
+  value,
+  onChange,
+  error,
+}: ScheduleInputProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const toggleDay = (day: Weekday) => {
+    onChange({
+      ...value,
+      days: value.days.includes(day)
+        ? value.days.filter((d) => d !== day)
+        : [...value.days, day],
+    });
+  };
+
+  const setHours = (hours: number) => {
+    onChange({
+      ...value,
+      hours: Math.min(MAX_SCHEDULE_HOURS, Math.max(1, hours)),
+    });
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    active: boolean,
+    onPress: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, active && styles.chipActive]}
+      accessibilityRole="button"
+      accessibilityState={{ selected: active }}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {TYPES.map((type) =>
+          renderChip(type.value, t(type.label), value.type === type.value, () =>
+            onChange({ ...value, type: type.value })
+          )
+        )}
+      </View>
+      {value.type === 'once' ? (
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          placeholder={t('scheduleInput.startAt')}
+          value={value.at}
+          onChangeText={(at) => onChange({ ...value, at })}
+        />
+      ) : (
+        <>
+          {value.type === 'everyHours' ? (
+            <View style={styles.hoursRow}>
+              <Text style={styles.label}>{t('scheduleInput.every')}</Text>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  onPress={() => setHours(value.hours - 1)}
+                  style={styles.iconButton}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('scheduleInput.fewerHours')}
+                >
+                  <Ionicons
+                    name="remove-circle-outline"
+                    size={24}
+                    color={colors.accent}
+                  />
+                </TouchableOpacity>
+                <Text style={styles.hoursValue}>
+                  {t('scheduleInput.hours', { count: value.hours })}
+                </Text>
+                <TouchableOpacity
+                  onPress={() => setHours(value.hours + 1)}
+                  style={styles.iconButton}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('scheduleInput.moreHours')}
+                >
+                  <Ionicons
+                    name="add-circle-outline"
+                    size={24}
+                    color={colors.accent}
+                  />
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : null}
+          <TextInput
+            style={[styles.input, error && styles.inputError]}
+            placeholder={
+              value.type === 'daily'
+                ? t('scheduleInput.at')
+                : t('scheduleInput.from')
+            }
+            value={value.time}
+            onChangeText={(time) => onChange({ ...value, time })}
+          />
+          {value.type === 'daily' ? (
+            <>
+              <View style={styles.days}>
+                {EVERY_DAY.map((day) =>
+                  renderChip(
+                    String(day),
+                    getDayLabel(day),
+                    value.days.includes(day),
+                    () => toggleDay(day)
+                  )
+                )}
+              </View>
+              <View style={styles.row}>
+                {renderChip(
+                  'everyDay',
+                  t('scheduleInput.everyDay'),
+                  false,
+                  () => onChange({ ...value, days: EVERY_DAY })
+                )}
+                {renderChip(
+                  'weekdays',
+                  t('scheduleInput.weekdays'),
+                  false,
+                  () => onChange({ ...value, days: WEEKDAYS })
+                )}
+              </View>
+            </>
+          ) : null}
+        </>
+      )}
+      {error ? <Text style={styles.errorText}>{error}</Text> : null}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginBottom: 16,
+    },
+    row: {
+      flexDirection: 'row',
+      marginBottom: 8,
+    },
+    days: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      marginTop: 8,
+      marginBottom: 4,
+    },
+    chip: {
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+      marginEnd: 6,
+      marginBottom: 4,
+      borderRadius: 16,
+      backgroundColor: colors.background,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+      fontWeight: '600',
+    },
+    label: {
+      fontSize: 16,
+      color: colors.text,
+    },
+    hoursRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    stepper: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    iconButton: {
+      padding: 4,
+    },
+    hoursValue: {
+      minWidth: 40,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+  });
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef } from 'react';
+import { Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MotiView, AnimatePresence } from 'moti';
+import { useThemedStyles } from '@/components/ThemeProvider';
+import { timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+type SnackbarProps = {
+  visible: boolean;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number;
+};
+
+export default function Snackbar({
+  visible,
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 5000,
+}: SnackbarProps) {
+  const styles = useThemedStyles(createStyles);
+  // Callers pass a fresh callback each render; that must not restart the
+  // countdown, so the latest one is read when it fires.
+  const dismiss = useRef(onDismiss);
+  dismiss.current = onDismiss;
+  useEffect(() => {
+    if (!visible) return;
+    const timeout = setTimeout(() => dismiss.current(), duration);
+    return () => clearTimeout(timeout);
+  }, [visible, message, duration]);
+
+  return (
+    <AnimatePresence>
+      {visible && (
+        <MotiView
+          from={{ opacity: 0, translateY: 20 }}
+          animate={{ opacity: 1, translateY: 0 }}
+          exit={{ opacity: 0, translateY: 20 }}
+          transition={timingTransition(['opacity', 'translateY'], 200)}
+          style={styles.container}
+        >
+          <Text style={styles.message}>{message}</Text>
+          {actionLabel && onAction ? (
+            <TouchableOpacity
+              onPress={() => {
+                onAction();
+                onDismiss();
+              }}
+            >
+              <Text style={styles.action}>{actionLabel}</Text>
+            </TouchableOpacity>
+          ) : null}
+        </MotiView>
+      )}
+    </AnimatePresence>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      position: 'absolute',
+      start: 16,
+      end: 96,
+      bottom: 24,
+      minHeight: 56,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      borderRadius: 12,
+      backgroundColor: colors.inverseSurface,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.25,
+      shadowRadius: 4,
+      elevation: 5,
+    },
+    message: {
+      flex: 1,
+      color: colors.inverseText,
+      fontSize: 14,
+    },
+    action: {
+      marginStart: 16,
+      color: colors.inverseAccent,
+      fontSize: 14,
+      fontWeight: '700',
+    },
+  });
@@ -0,0 +1,253 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+} from 'react-native';
+import { MotiView } from 'moti';
+import { Ionicons } from '@expo/vector-icons';
+import { Category, TimerTemplate } from '@/types/timer';
+import {
+  findCategoryByName,
+  getCategoryLabel,
+  sortCategories,
+} from '@/utils/categories';
+import { describeTemplate, groupTemplates } from '@/utils/templates';
+import { confirmAction } from '@/utils/confirm';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { springTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+type TemplateLibraryModalProps = {
+  visible: boolean;
+  templates: TimerTemplate[];
+  categories: Category[];
+  onStart: (template: TimerTemplate) => void;
+  onDelete: (template: TimerTemplate) => void;
+  onClose: () => void;
+};
+
+/** Category names in section order; ones without an entity go last. */
+const getGroupOrder = (
+  groups: Record<string, TimerTemplate[]>,
+  categories: Category[]
+) => {
+  const known = sortCategories(categories)
+    .map((category) => category.name)
+    .filter((name) => groups[name]);
+  return [
+    ...known,
+    ...Object.keys(groups).filter((name) => !known.includes(name)),
+  ];
+};
+
+export default function TemplateLibraryModal({
+  visible,
+  templates,
+  categories,
+  onStart,
+  onDelete,
+  onClose,
+}: TemplateLibraryModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const groups = groupTemplates(templates);
+
+  const confirmDelete = (template: TimerTemplate) =>
+    confirmAction(
+      t('templates.deleteTitle', { name: template.name }),
+      t('templates.deleteMessage'),
+      t('common.delete'),
+      () => onDelete(template)
+    );
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <MotiView
+          from={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={springTransition(['opacity', 'scale'])}
+          style={styles.modalContent}
+        >
+          <Text style={styles.modalTitle}>{t('templates.title')}</Text>
+          <ScrollView style={styles.modalBody}>
+            {templates.length === 0 ? (
+              <Text style={styles.empty}>{t('templates.empty')}</Text>
+            ) : null}
+            {getGroupOrder(groups, categories).map((name) => (
+              <View key={name}>
+                <View style={styles.groupHeader}>
+                  <View
+                    style={[
+                      styles.dot,
+                      {
+                        backgroundColor:
+                          findCategoryByName(categories, name)?.color ??
+                          colors.textMuted,
+                      },
+                    ]}
+                  />
+                  <Text style={styles.groupTitle}>
+                    {getCategoryLabel(name)}
+                  </Text>
+                </View>
+                {groups[name].map((template) => (
+                  <View key={template.id} style={styles.row}>
+                    <TouchableOpacity
+                      style={styles.startButton}
+                      onPress={() => onStart(template)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('templates.start', {
+                        name: template.name,
+                      })}
+                    >
+                      <Ionicons name="play" size={18} color={colors.onAccent} />
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.rowText}
+                      onPress={() => onStart(template)}
+                      accessibilityRole="button"
+                      accessibilityHint={t('templates.startHint')}
+                    >
+                      <Text style={styles.name} numberOfLines={1}>
+                        {template.name}
+                      </Text>
+                      <Text style={styles.details}>
+                        {describeTemplate(template)}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={styles.deleteButton}
+                      onPress={() => confirmDelete(template)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('templates.delete', {
+                        name: template.name,
+                      })}
+                    >
+                      <Ionicons
+                        name="trash-outline"
+                        size={18}
+                        color={colors.textMuted}
+                      />
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </ScrollView>
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.buttonText}>{t('common.close')}</Text>
+          </TouchableOpacity>
+        </MotiView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.overlay,
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      elevation: 5,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      marginBottom: 16,
+      textAlign: 'center',
+      color: colors.text,
+    },
+    modalBody: {
+      maxHeight: 440,
+      marginBottom: 12,
+    },
+    empty: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    groupHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginTop: 12,
+      marginBottom: 4,
+    },
+    dot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+      marginEnd: 6,
+    },
+    groupTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.background,
+    },
+    startButton: {
+      width: 36,
+      height: 36,
+      borderRadius: 18,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.accent,
+    },
+    rowText: {
+      flex: 1,
+      marginStart: 12,
+    },
+    name: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    details: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    deleteButton: {
+      padding: 8,
+    },
+    closeButton: {
+      padding: 12,
+      borderRadius: 8,
+      backgroundColor: colors.accent,
+    },
+    buttonText: {
+      color: colors.onAccent,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,132 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react';
+import { useColorScheme } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import {
+  DarkTheme,
+  DefaultTheme,
+  ThemeProvider as NavigationThemeProvider,
+} from '@react-navigation/native';
+import { ReducedMotionConfig, ReduceMotion } from 'react-native-reanimated';
+import { defaultStorageAdapter, StorageAdapter } from '@/services/storage';
+import {
+  isThemePreference,
+  resolveColorScheme,
+  Theme,
+  ThemeColors,
+  ThemePreference,
+  THEMES,
+} from '@/utils/theme';
+
+const PREFERENCE_KEY = 'themePreference';
+const REDUCE_MOTION_KEY = 'reduceMotion';
+
+type ThemeContextValue = Theme & {
+  preference: ThemePreference;
+  setPreference: (preference: ThemePreference) => void;
+  /** Turns animations off even when the system setting does not. */
+  reduceMotion: boolean;
+  setReduceMotion: (reduceMotion: boolean) => void;
+};
+
+const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+type ThemeProviderProps = {
+  children: React.ReactNode;
+  storageAdapter?: StorageAdapter;
+};
+
+/**
+ * Follows the device colour scheme unless the user picked one, and themes
+ * the navigation chrome and status bar to match. Reanimated, and so every
+ * Moti animation, already honours the system reduce motion setting; the
+ * in-app one forces it on.
+ */
+export function ThemeProvider({
+  children,
+  storageAdapter = defaultStorageAdapter,
+}: ThemeProviderProps) {
+  const system = useColorScheme();
+  const [preference, setPreferenceState] = useState<ThemePreference>('system');
+  const [reduceMotion, setReduceMotionState] = useState(false);
+
+  useEffect(() => {
+    storageAdapter
+      .getItem(PREFERENCE_KEY)
+      .then((stored) => {
+        if (isThemePreference(stored)) setPreferenceState(stored);
+      })
+      .catch((error) => console.error('Error loading theme:', error));
+    storageAdapter
+      .getItem(REDUCE_MOTION_KEY)
+      .then((stored) => setReduceMotionState(stored === 'true'))
+      .catch((error) => console.error('Error loading motion setting:', error));
+  }, [storageAdapter]);
+
+  const setPreference = (next: ThemePreference) => {
+    setPreferenceState(next);
+    storageAdapter
+      .setItem(PREFERENCE_KEY, next)
+      .catch((error) => console.error('Error saving theme:', error));
+  };
+
+  const setReduceMotion = (next: boolean) => {
+    setReduceMotionState(next);
+    storageAdapter
+      .setItem(REDUCE_MOTION_KEY, String(next))
+      .catch((error) => console.error('Error saving motion setting:', error));
+  };
+
+  const theme = THEMES[resolveColorScheme(preference, system)];
+  const navigationTheme = useMemo(() => {
+    const base = theme.scheme === 'dark' ? DarkTheme : DefaultTheme;
+    return {
+      ...base,
+      colors: {
+        ...base.colors,
+        primary: theme.colors.accent,
+        background: theme.colors.background,
+        card: theme.colors.surface,
+        text: theme.colors.text,
+        border: theme.colors.border,
+      },
+    };
+  }, [theme]);
+
+  return (
+    <ThemeContext.Provider
+      value={{
+        ...theme,
+        preference,
+        setPreference,
+        reduceMotion,
+        setReduceMotion,
+      }}
+    >
+      {reduceMotion ? <ReducedMotionConfig mode={ReduceMotion.Always} /> : null}
+      <NavigationThemeProvider value={navigationTheme}>
+        {children}
+        <StatusBar style={theme.scheme === 'dark' ? 'light' : 'dark'} />
+      </NavigationThemeProvider>
+    </ThemeContext.Provider>
+  );
+}
+
+export function useTheme() {
+  const theme = useContext(ThemeContext);
+  if (!theme) {
+    throw new Error('useTheme must be used within a ThemeProvider');
+  }
+  return theme;
+}
+
+/** Styles built from the current colours, rebuilt only when they change. */
+export function useThemedStyles<T>(create: (colors: ThemeColors) => T) {
+  const { colors } = useTheme();
+  return useMemo(() => create(colors), [colors, create]);
+}
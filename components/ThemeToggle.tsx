@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import ActionMenu from '@/components/ActionMenu';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme } from '@/components/ThemeProvider';
+import { MessageKey } from '@/i18n';
+import { THEME_PREFERENCES, ThemePreference } from '@/utils/theme';
+
+const PREFERENCE_OPTIONS: Record<
+  ThemePreference,
+  { label: MessageKey; icon: React.ComponentProps<typeof Ionicons>['name'] }
+> = {
+  system: { label: 'appearance.system', icon: 'contrast-outline' },
+  light: { label: 'appearance.light', icon: 'sunny-outline' },
+  dark: { label: 'appearance.dark', icon: 'moon-outline' },
+};
+
+/**
+ * Header button for choosing light, dark or the system appearance, and for
+ * turning animations off.
+ */
+export default function ThemeToggle() {
+  const { colors, preference, setPreference, reduceMotion, setReduceMotion } =
+    useTheme();
+  const { t } = useI18n();
+  const [menuVisible, setMenuVisible] = useState(false);
+
+  return (
+    <>
+      <TouchableOpacity
+        style={styles.headerButton}
+        accessibilityRole="button"
+        accessibilityLabel={t('appearance.title')}
+        onPress={() => setMenuVisible(true)}
+      >
+        <Ionicons
+          name={PREFERENCE_OPTIONS[preference].icon}
+          size={22}
+          color={colors.accent}
+        />
+      </TouchableOpacity>
+      <ActionMenu
+        visible={menuVisible}
+        title={t('appearance.title')}
+        onClose={() => setMenuVisible(false)}
+        options={[
+          ...THEME_PREFERENCES.map((option) => ({
+            label: t(PREFERENCE_OPTIONS[option].label),
+            icon: PREFERENCE_OPTIONS[option].icon,
+            selected: option === preference,
+            onPress: () => setPreference(option),
+          })),
+          {
+            label: t('appearance.reduceMotion'),
+            icon: 'flash-off-outline',
+            selected: reduceMotion,
+            onPress: () => setReduceMotion(!reduceMotion),
+          },
+        ]}
+      />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerButton: {
+    padding: 8,
+    marginStart: 8,
+  },
+});
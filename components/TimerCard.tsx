@@ -0,0 +1,551 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Pressable,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MotiView } from 'moti';
+import { IntervalProgress, Lap, Timer } from '@/types/timer';
+import { formatTime } from '@/utils/format';
+import {
+  getCurrentRoutineStep,
+  getRoutineCompletedSeconds,
+  getRoutineStepCount,
+  getRoutineStepNumber,
+  getRoutineTotalSeconds,
+} from '@/utils/routines';
+import { getPhaseLabel } from '@/utils/intervals';
+import { isStopwatch } from '@/utils/timerEngine';
+import {
+  formatLapTime,
+  getFastestLap,
+  hasPassedTarget,
+} from '@/utils/stopwatch';
+import { describeSchedule, formatNextStart } from '@/utils/schedule';
+import {
+  describeTimerForScreenReader,
+  isLargeFontScale,
+} from '@/utils/accessibility';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { formatNumber, t } from '@/i18n';
+import { springTransition, timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+export type TimerCardAction = 'start' | 'pause' | 'reset' | 'lap' | 'stop';
+
+type TimerCardProps = {
+  timer: Timer;
+  onAction: (action: TimerCardAction) => void;
+  onOpenMenu: () => void;
+  onDismissAlarm: () => void;
+  /**
+   * Pressing the card focuses it: it becomes the target of keyboard
+   * shortcuts and its remaining time is announced to screen readers.
+   */
+  onFocus?: () => void;
+  focused?: boolean;
+};
+
+/** Element id of a timer's card, for scrolling it into view on the web. */
+export const getTimerCardId = (timerId: string) => `timer-${timerId}`;
+
+/** "Step 2 of 6 · Work", with the round when the routine repeats. */
+const describeRoutineStep = (timer: Timer) => {
+  if (!timer.routine) return null;
+  const step = getCurrentRoutineStep(timer);
+  const description = t('timerCard.routineStep', {
+    number: getRoutineStepNumber(timer),
+    total: getRoutineStepCount(timer.routine),
+    name: step?.name ?? '',
+  });
+  return timer.routine.repeat > 1
+    ? t('timerCard.routineRound', {
+        step: description,
+        round: timer.routineProgress?.round ?? 1,
+        total: timer.routine.repeat,
+      })
+    : description;
+};
+
+const getRoutinePercent = (timer: Timer) => {
+  if (!timer.routine) return 0;
+  const elapsed =
+    timer.status === 'completed'
+      ? getRoutineTotalSeconds(timer.routine)
+      : getRoutineCompletedSeconds(timer) +
+        timer.duration -
+        timer.remainingTime;
+  return Math.round((elapsed / getRoutineTotalSeconds(timer.routine)) * 100);
+};
+
+/** One dot per round in the set, filled once that round's work is done. */
+function RoundDots({
+  rounds,
+  progress,
+}: {
+  rounds: number;
+  progress: IntervalProgress;
+}) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <View style={styles.roundDots}>
+      {Array.from({ length: rounds }, (_, index) => {
+        const round = index + 1;
+        const done =
+          round < progress.round ||
+          (round === progress.round && progress.phase !== 'work');
+        return (
+          <View
+            key={round}
+            style={[styles.roundDot, done && styles.roundDotDone]}
+          />
+        );
+      })}
+    </View>
+  );
+}
+
+const VISIBLE_LAPS = 5;
+
+/** Most recent laps first, with the fastest one highlighted. */
+function LapList({ laps }: { laps: Lap[] }) {
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const fastest = laps.length > 1 ? getFastestLap(laps) : null;
+  return (
+    <View style={styles.laps}>
+      {laps
+        .slice(-VISIBLE_LAPS)
+        .reverse()
+        .map((lap) => (
+          <View key={lap.number} style={styles.lapRow}>
+            <Text
+              style={[
+                styles.lapText,
+                lap.number === fastest?.number && styles.lapFastest,
+              ]}
+            >
+              {t('timerCard.lap', { number: lap.number })}
+            </Text>
+            <Text
+              style={[
+                styles.lapText,
+                lap.number === fastest?.number && styles.lapFastest,
+              ]}
+            >
+              {formatLapTime(lap.lapMs)}
+            </Text>
+            <Text style={styles.lapTotal}>{formatLapTime(lap.totalMs)}</Text>
+          </View>
+        ))}
+      {laps.length > VISIBLE_LAPS ? (
+        <Text style={styles.lapTotal}>
+          {t('timerCard.earlierLaps', { count: laps.length - VISIBLE_LAPS })}
+        </Text>
+      ) : null}
+    </View>
+  );
+}
+
+const statusColor = (timer: Timer, colors: ThemeColors) =>
+  timer.status !== 'running'
+    ? colors.status[timer.status]
+    : hasPassedTarget(timer)
+    ? colors.warning
+    : timer.intervalProgress && timer.intervalProgress.phase !== 'work'
+    ? colors.success
+    : colors.status.running;
+
+export default function TimerCard({
+  timer,
+  onAction,
+  onOpenMenu,
+  onDismissAlarm,
+  onFocus,
+  focused = false,
+}: TimerCardProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  const { fontScale } = useWindowDimensions();
+  const stopwatch = isStopwatch(timer);
+  // Countdowns drain towards zero; stopwatches fill up towards their target.
+  const progress = stopwatch
+    ? Math.min(1, (timer.elapsedTime ?? 0) / (timer.targetTime ?? 1)) * 100
+    : (timer.remainingTime / timer.duration) * 100;
+  const started = timer.status === 'running' || timer.status === 'paused';
+  const routineStep = describeRoutineStep(timer);
+  const phase =
+    timer.interval && timer.intervalProgress
+      ? t('timerCard.phase', {
+          phase: getPhaseLabel(timer.intervalProgress.phase),
+          round: timer.intervalProgress.round,
+          total: timer.interval.roundsBeforeLongBreak,
+        })
+      : null;
+  const nextStart =
+    timer.schedule && timer.nextStartAt !== undefined
+      ? t('timerCard.nextStart', {
+          when: formatNextStart(timer.nextStartAt, Date.now()),
+          schedule: describeSchedule(timer.schedule),
+        })
+      : null;
+
+  return (
+    <MotiView
+      from={{ opacity: 0, scale: 0.95 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={springTransition(['opacity', 'scale'])}
+      style={[styles.timerContainer, focused && styles.timerFocused]}
+      nativeID={getTimerCardId(timer.id)}
+    >
+      <Pressable
+        onPress={onFocus}
+        onLongPress={onOpenMenu}
+        accessibilityRole="button"
+        accessibilityLabel={[
+          describeTimerForScreenReader(timer),
+          routineStep,
+          phase,
+          nextStart,
+        ]
+          .filter(Boolean)
+          .join('. ')}
+        accessibilityHint={t('timerCard.hint')}
+        accessibilityState={{ selected: focused }}
+        accessibilityActions={[
+          { name: 'longpress', label: t('timerCard.moreOptions') },
+        ]}
+        onAccessibilityAction={(event) => {
+          if (event.nativeEvent.actionName === 'longpress') onOpenMenu();
+        }}
+      >
+        <View
+          style={[
+            styles.timerHeader,
+            isLargeFontScale(fontScale) && styles.timerHeaderStacked,
+          ]}
+        >
+          <Text style={styles.timerName}>{timer.name}</Text>
+          <Text
+            style={[styles.timerTime, { color: statusColor(timer, colors) }]}
+          >
+            {formatTime(
+              stopwatch ? timer.elapsedTime ?? 0 : timer.remainingTime
+            )}
+          </Text>
+        </View>
+        {routineStep ? (
+          <View style={styles.routineRow}>
+            <Text style={styles.routineStep} numberOfLines={1}>
+              {routineStep}
+            </Text>
+            <Text style={styles.routinePercent}>
+              {t('timerCard.overall', {
+                percent: formatNumber(getRoutinePercent(timer) / 100, {
+                  style: 'percent',
+                }),
+              })}
+            </Text>
+          </View>
+        ) : null}
+        {timer.interval && timer.intervalProgress ? (
+          <View style={styles.routineRow}>
+            <Text style={styles.routineStep}>
+              {t('timerCard.phaseShort', {
+                phase: getPhaseLabel(timer.intervalProgress.phase),
+                round: timer.intervalProgress.round,
+                total: timer.interval.roundsBeforeLongBreak,
+              })}
+            </Text>
+            <RoundDots
+              rounds={timer.interval.roundsBeforeLongBreak}
+              progress={timer.intervalProgress}
+            />
+          </View>
+        ) : null}
+        {nextStart ? (
+          <View style={styles.scheduleRow}>
+            <Ionicons
+              name="alarm-outline"
+              size={14}
+              color={colors.textSecondary}
+            />
+            <Text style={styles.scheduleText} numberOfLines={1}>
+              {nextStart}
+            </Text>
+          </View>
+        ) : null}
+      </Pressable>
+      {stopwatch && timer.targetTime === undefined ? null : (
+        <View
+          style={styles.progressBarContainer}
+          accessible
+          accessibilityRole="progressbar"
+          accessibilityLabel={t('timerCard.progress', { name: timer.name })}
+          accessibilityValue={{
+            min: 0,
+            max: 100,
+            // Countdowns drain, but progress is read as the share done.
+            now: Math.round(stopwatch ? progress : 100 - progress),
+          }}
+        >
+          <MotiView
+            from={{ width: '100%' }}
+            animate={{ width: `${progress}%` }}
+            transition={timingTransition(['width'], 1000)}
+            style={[
+              styles.progressBar,
+              { backgroundColor: statusColor(timer, colors) },
+            ]}
+          />
+        </View>
+      )}
+      {stopwatch && timer.laps?.length ? <LapList laps={timer.laps} /> : null}
+      {timer.alarmRinging ? (
+        <TouchableOpacity
+          style={styles.dismissButton}
+          onPress={onDismissAlarm}
+          accessibilityRole="button"
+          accessibilityLabel={t('timerCard.dismissAlarmFor', {
+            name: timer.name,
+          })}
+        >
+          <Ionicons name="alarm" size={20} color={colors.onAccent} />
+          <Text style={styles.dismissText}>{t('timerCard.dismissAlarm')}</Text>
+        </TouchableOpacity>
+      ) : null}
+      <View style={styles.timerControls}>
+        <TouchableOpacity
+          onPress={() => onAction('start')}
+          disabled={timer.status === 'running' || timer.status === 'completed'}
+          accessibilityRole="button"
+          accessibilityLabel={t(
+            timer.status === 'paused' ? 'timerCard.resume' : 'timerCard.start',
+            { name: timer.name }
+          )}
+          accessibilityState={{
+            disabled:
+              timer.status === 'running' || timer.status === 'completed',
+          }}
+          style={[
+            styles.timerButton,
+            (timer.status === 'running' || timer.status === 'completed') &&
+              styles.disabledButton,
+          ]}
+        >
+          <Ionicons name="play" size={20} color={colors.onAccent} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={() => onAction('pause')}
+          disabled={timer.status !== 'running'}
+          accessibilityRole="button"
+          accessibilityLabel={t('timerCard.pause', { name: timer.name })}
+          accessibilityState={{ disabled: timer.status !== 'running' }}
+          style={[
+            styles.timerButton,
+            timer.status !== 'running' && styles.disabledButton,
+          ]}
+        >
+          <Ionicons name="pause" size={20} color={colors.onAccent} />
+        </TouchableOpacity>
+        {stopwatch ? (
+          <>
+            <TouchableOpacity
+              onPress={() => onAction('lap')}
+              disabled={timer.status !== 'running'}
+              accessibilityRole="button"
+              accessibilityLabel={t('timerCard.recordLap', {
+                name: timer.name,
+              })}
+              accessibilityState={{ disabled: timer.status !== 'running' }}
+              style={[
+                styles.timerButton,
+                timer.status !== 'running' && styles.disabledButton,
+              ]}
+            >
+              <Ionicons name="flag" size={20} color={colors.onAccent} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => onAction('stop')}
+              disabled={!started}
+              accessibilityRole="button"
+              accessibilityLabel={t('timerCard.stop', { name: timer.name })}
+              accessibilityState={{ disabled: !started }}
+              style={[styles.timerButton, !started && styles.disabledButton]}
+            >
+              <Ionicons name="stop" size={20} color={colors.onAccent} />
+            </TouchableOpacity>
+          </>
+        ) : null}
+        <TouchableOpacity
+          onPress={() => onAction('reset')}
+          style={styles.timerButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('timerCard.reset', { name: timer.name })}
+        >
+          <Ionicons name="refresh" size={20} color={colors.onAccent} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          onPress={onOpenMenu}
+          style={styles.menuButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('timerCard.moreOptionsFor', {
+            name: timer.name,
+          })}
+        >
+          <Ionicons
+            name="ellipsis-horizontal"
+            size={20}
+            color={colors.textSecondary}
+          />
+        </TouchableOpacity>
+      </View>
+    </MotiView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    timerContainer: {
+      padding: 16,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    timerFocused: {
+      paddingStart: 12,
+      borderStartWidth: 4,
+      borderStartColor: colors.accent,
+      backgroundColor: colors.accentSoft,
+    },
+    timerHeader: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    timerHeaderStacked: {
+      flexDirection: 'column',
+      alignItems: 'flex-start',
+    },
+    timerName: {
+      fontSize: 16,
+      fontWeight: '500',
+      color: colors.text,
+    },
+    timerTime: {
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    routineRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+    },
+    routineStep: {
+      flex: 1,
+      marginEnd: 8,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    routinePercent: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    scheduleRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    scheduleText: {
+      flex: 1,
+      marginStart: 4,
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
+    roundDots: {
+      flexDirection: 'row',
+    },
+    roundDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      marginStart: 4,
+      backgroundColor: colors.border,
+    },
+    roundDotDone: {
+      backgroundColor: colors.danger,
+    },
+    laps: {
+      marginTop: 4,
+    },
+    lapRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 2,
+    },
+    lapText: {
+      flex: 1,
+      fontSize: 13,
+      color: colors.textBody,
+    },
+    lapFastest: {
+      color: colors.success,
+      fontWeight: '600',
+    },
+    lapTotal: {
+      fontSize: 13,
+      color: colors.textMuted,
+    },
+    progressBarContainer: {
+      height: 4,
+      backgroundColor: colors.border,
+      borderRadius: 2,
+      marginVertical: 8,
+      overflow: 'hidden',
+    },
+    progressBar: {
+      height: '100%',
+      borderRadius: 2,
+    },
+    timerControls: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      rowGap: 8,
+      justifyContent: 'flex-start',
+      marginTop: 8,
+    },
+    timerButton: {
+      backgroundColor: colors.accent,
+      padding: 8,
+      borderRadius: 8,
+      marginEnd: 8,
+    },
+    disabledButton: {
+      backgroundColor: colors.borderStrong,
+    },
+    dismissButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: colors.danger,
+      padding: 10,
+      borderRadius: 8,
+      marginTop: 8,
+    },
+    dismissText: {
+      marginStart: 8,
+      color: colors.onAccent,
+      fontSize: 16,
+      fontWeight: '600',
+    },
+    menuButton: {
+      marginStart: 'auto',
+      padding: 8,
+    },
+  });
@@ -0,0 +1,695 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  TextInput,
+  ScrollView,
+} from 'react-native';
+import { MotiView } from 'moti';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  AlertProfile,
+  Category,
+  IntervalSettings,
+  Routine,
+  RoutineStep,
+  TimerAlert,
+  TimerMode,
+  TimerSchedule,
+} from '@/types/timer';
+import DurationInput from '@/components/DurationInput';
+import CategoryInput from '@/components/CategoryInput';
+import AlertProfileEditor from '@/components/AlertProfileEditor';
+import AlertCheckpointsInput, {
+  AlertDraft,
+} from '@/components/AlertCheckpointsInput';
+import RoutineStepsInput, {
+  createStepDraft,
+  RoutineDraft,
+  StepErrors,
+} from '@/components/RoutineStepsInput';
+import IntervalSettingsInput, {
+  IntervalDraft,
+  IntervalErrors,
+  toIntervalDraft,
+} from '@/components/IntervalSettingsInput';
+import ScheduleInput, {
+  createScheduleDraft,
+  ScheduleDraft,
+} from '@/components/ScheduleInput';
+import { formatDurationInput, parseDuration } from '@/utils/duration';
+import { formatAlertTrigger, parseAlertTrigger } from '@/utils/alerts';
+import { DEFAULT_ALERT_PROFILE } from '@/utils/alertProfiles';
+import { findCategoryByName } from '@/utils/categories';
+import { DEFAULT_INTERVAL_SETTINGS } from '@/utils/intervals';
+import { parseClockTime, parseStartTime } from '@/utils/schedule';
+import { MessageKey, t } from '@/i18n';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { springTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+export type TimerFormValues = {
+  name: string;
+  duration: string;
+  category: string;
+  alerts: AlertDraft[];
+  alertProfile: AlertProfile | null;
+  /** Set when the timer runs as a routine of steps. */
+  routine: RoutineDraft | null;
+  /** Set when the timer cycles through work and break phases. */
+  interval: IntervalDraft | null;
+  /** Set when the timer counts up; the target may be left empty. */
+  stopwatch: { target: string } | null;
+  /** Set when the timer starts by itself. */
+  schedule: ScheduleDraft | null;
+};
+
+type TimerKind = 'timer' | 'routine' | 'interval' | 'stopwatch';
+
+const KINDS: { value: TimerKind; label: MessageKey }[] = [
+  { value: 'timer', label: 'timerForm.kind.timer' },
+  { value: 'routine', label: 'timerForm.kind.routine' },
+  { value: 'interval', label: 'timerForm.kind.interval' },
+  { value: 'stopwatch', label: 'timerForm.kind.stopwatch' },
+];
+
+const getKind = (values: TimerFormValues): TimerKind =>
+  values.routine
+    ? 'routine'
+    : values.interval
+    ? 'interval'
+    : values.stopwatch
+    ? 'stopwatch'
+    : 'timer';
+
+export type TimerFormResult = {
+  name: string;
+  duration: number;
+  category: string;
+  alerts: TimerAlert[];
+  alertProfile?: AlertProfile;
+  routine?: Routine;
+  interval?: IntervalSettings;
+  mode: TimerMode;
+  targetTime?: number;
+  schedule?: TimerSchedule;
+};
+
+type TimerFormErrors = Partial<
+  Record<
+    'name' | 'duration' | 'category' | 'steps' | 'target' | 'schedule',
+    string
+  >
+> & {
+  alerts: Record<string, string>;
+  stepErrors: Record<string, StepErrors>;
+  interval: IntervalErrors;
+};
+
+const emptyErrors = (): TimerFormErrors => ({
+  alerts: {},
+  stepErrors: {},
+  interval: {},
+});
+
+/** Parses alert drafts against a duration that may itself be invalid. */
+const validateAlerts = (drafts: AlertDraft[], seconds: number | null) => {
+  const errors: Record<string, string> = {};
+  const alerts: TimerAlert[] = [];
+  drafts.forEach((draft) => {
+    const parsed = parseAlertTrigger(draft.trigger);
+    if (!parsed.ok) {
+      errors[draft.id] = parsed.error;
+    } else if (
+      seconds !== null &&
+      parsed.trigger.type === 'remaining' &&
+      parsed.trigger.seconds >= seconds
+    ) {
+      errors[draft.id] = t('timerForm.errors.alertTooLate');
+    } else {
+      alerts.push({
+        id: draft.id,
+        trigger: parsed.trigger,
+        message: draft.message.trim() || undefined,
+      });
+    }
+  });
+  return { alerts, errors };
+};
+
+const validateRoutine = (draft: RoutineDraft, errors: TimerFormErrors) => {
+  if (draft.steps.length === 0) errors.steps = t('timerForm.errors.noSteps');
+
+  const steps: RoutineStep[] = draft.steps.map((step) => {
+    const duration = parseDuration(step.duration);
+    const alerts = validateAlerts(
+      step.alerts,
+      duration.ok ? duration.seconds : null
+    );
+    const stepErrors: StepErrors = { alerts: alerts.errors };
+    if (!step.name.trim()) stepErrors.name = t('timerForm.errors.stepName');
+    if (!duration.ok) stepErrors.duration = duration.error;
+    if (
+      stepErrors.name ||
+      stepErrors.duration ||
+      Object.keys(alerts.errors).length > 0
+    ) {
+      errors.stepErrors[step.id] = stepErrors;
+    }
+    return {
+      id: step.id,
+      name: step.name.trim(),
+      duration: duration.ok ? duration.seconds : 0,
+      alerts: alerts.alerts,
+    };
+  });
+
+  return { steps, repeat: draft.repeat };
+};
+
+const validateInterval = (
+  draft: IntervalDraft,
+  errors: TimerFormErrors
+): IntervalSettings => {
+  const parse = (field: keyof IntervalErrors) => {
+    const duration = parseDuration(draft[field]);
+    if (!duration.ok) errors.interval[field] = duration.error;
+    return duration.ok ? duration.seconds : 0;
+  };
+  return {
+    work: parse('work'),
+    shortBreak: parse('shortBreak'),
+    longBreak: parse('longBreak'),
+    roundsBeforeLongBreak: draft.roundsBeforeLongBreak,
+    autoStartBreaks: draft.autoStartBreaks,
+    autoStartWork: draft.autoStartWork,
+  };
+};
+
+const validateSchedule = (
+  draft: ScheduleDraft,
+  errors: TimerFormErrors
+): TimerSchedule | undefined => {
+  if (draft.type === 'once') {
+    const start = parseStartTime(draft.at, Date.now());
+    if (!start.ok) errors.schedule = start.error;
+    return start.ok ? { type: 'once', at: start.at } : undefined;
+  }
+  const time = parseClockTime(draft.time);
+  if (!time.ok) {
+    errors.schedule = time.error;
+    return undefined;
+  }
+  if (draft.type === 'everyHours') {
+    return {
+      type: 'everyHours',
+      hours: draft.hours,
+      hour: time.hour,
+      minute: time.minute,
+    };
+  }
+  if (draft.days.length === 0) {
+    errors.schedule = t('timerForm.errors.noDays');
+    return undefined;
+  }
+  return {
+    type: 'daily',
+    hour: time.hour,
+    minute: time.minute,
+    days: [...draft.days].sort((a, b) => a - b),
+  };
+};
+
+const validate = (values: TimerFormValues) => {
+  const errors = emptyErrors();
+  if (!values.name.trim()) errors.name = t('timerForm.errors.name');
+  if (!values.category.trim()) errors.category = t('timerForm.errors.category');
+
+  let seconds = 0;
+  let alerts: TimerAlert[] = [];
+  let routine: Routine | undefined;
+  let interval: IntervalSettings | undefined;
+  let targetTime: number | undefined;
+  const schedule = values.schedule
+    ? validateSchedule(values.schedule, errors)
+    : undefined;
+
+  if (values.routine) {
+    routine = validateRoutine(values.routine, errors);
+    // The timer starts out on the first step.
+    seconds = routine.steps[0]?.duration ?? 0;
+    alerts = routine.steps[0]?.alerts ?? [];
+  } else if (values.interval) {
+    interval = validateInterval(values.interval, errors);
+    seconds = interval.work;
+  } else if (values.stopwatch) {
+    if (values.stopwatch.target.trim()) {
+      const target = parseDuration(values.stopwatch.target);
+      if (!target.ok) errors.target = target.error;
+      else targetTime = target.seconds;
+    }
+  } else {
+    const duration = parseDuration(values.duration);
+    if (!duration.ok) errors.duration = duration.error;
+    seconds = duration.ok ? duration.seconds : 0;
+    const parsed = validateAlerts(
+      values.alerts,
+      duration.ok ? duration.seconds : null
+    );
+    alerts = parsed.alerts;
+    errors.alerts = parsed.errors;
+  }
+
+  const valid =
+    !errors.name &&
+    !errors.category &&
+    !errors.duration &&
+    !errors.steps &&
+    !errors.target &&
+    !errors.schedule &&
+    Object.keys(errors.alerts).length === 0 &&
+    Object.keys(errors.stepErrors).length === 0 &&
+    Object.keys(errors.interval).length === 0;
+
+  return {
+    errors,
+    valid,
+    seconds,
+    alerts,
+    routine,
+    interval,
+    targetTime,
+    schedule,
+  };
+};
+
+export const toAlertDrafts = (alerts: TimerAlert[]): AlertDraft[] =>
+  alerts.map((alert) => ({
+    id: alert.id,
+    trigger: formatAlertTrigger(alert.trigger),
+    message: alert.message ?? '',
+  }));
+
+export const emptyTimerForm: TimerFormValues = {
+  name: '',
+  duration: '',
+  category: '',
+  alerts: [],
+  alertProfile: null,
+  routine: null,
+  interval: null,
+  stopwatch: null,
+  schedule: null,
+};
+
+export const toRoutineDraft = (routine: Routine): RoutineDraft => ({
+  steps: routine.steps.map((step) => ({
+    id: step.id,
+    name: step.name,
+    duration: formatDurationInput(step.duration),
+    alerts: toAlertDrafts(step.alerts),
+  })),
+  repeat: routine.repeat,
+});
+
+type TimerFormModalProps = {
+  visible: boolean;
+  title: string;
+  submitLabel: string;
+  initialValues?: TimerFormValues;
+  categories?: Category[];
+  onSubmit: (result: TimerFormResult) => void;
+  onClose: () => void;
+};
+
+export default function TimerFormModal({
+  visible,
+  title,
+  submitLabel,
+  initialValues = emptyTimerForm,
+  categories = [],
+  onSubmit,
+  onClose,
+}: TimerFormModalProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  // Validation messages come from the module-level `t`; this re-renders on
+  // language changes.
+  useI18n();
+  const [values, setValues] = useState<TimerFormValues>(initialValues);
+  const [submitted, setSubmitted] = useState(false);
+  // The form resets when it opens, not whenever the parent re-renders.
+  const openingValues = useRef(initialValues);
+  openingValues.current = initialValues;
+
+  useEffect(() => {
+    if (visible) {
+      setValues(openingValues.current);
+      setSubmitted(false);
+    }
+  }, [visible]);
+
+  const {
+    errors,
+    valid,
+    seconds,
+    alerts,
+    routine,
+    interval,
+    targetTime,
+    schedule,
+  } = validate(values);
+  const kind = getKind(values);
+  const categoryProfile = findCategoryByName(
+    categories,
+    values.category
+  )?.alertProfile;
+  const visibleErrors = submitted ? errors : emptyErrors();
+
+  const setKind = (next: TimerKind) => {
+    if (next === kind) return;
+    setValues({
+      ...values,
+      routine:
+        next === 'routine'
+          ? {
+              steps: [
+                createStepDraft({
+                  name: t('routineInput.stepNumber', { number: 1 }),
+                  duration: values.duration,
+                  alerts: values.alerts,
+                }),
+              ],
+              repeat: 1,
+            }
+          : null,
+      interval:
+        next === 'interval' ? toIntervalDraft(DEFAULT_INTERVAL_SETTINGS) : null,
+      stopwatch: next === 'stopwatch' ? { target: '' } : null,
+    });
+  };
+
+  const handleSubmit = () => {
+    setSubmitted(true);
+    if (!valid) return;
+
+    onSubmit({
+      name: values.name.trim(),
+      duration: seconds,
+      category: values.category.trim(),
+      alerts,
+      alertProfile: values.alertProfile ?? undefined,
+      routine,
+      interval,
+      mode: values.stopwatch ? 'stopwatch' : 'countdown',
+      targetTime,
+      schedule,
+    });
+  };
+
+  return (
+    <Modal
+      animationType="slide"
+      transparent={true}
+      visible={visible}
+      onRequestClose={onClose}
+    >
+      <View style={styles.modalContainer}>
+        <MotiView
+          from={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={springTransition(['opacity', 'scale'])}
+          style={styles.modalContent}
+        >
+          <Text style={styles.modalTitle}>{title}</Text>
+          <ScrollView
+            style={styles.modalBody}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.field}>
+              <TextInput
+                style={[styles.input, visibleErrors.name && styles.inputError]}
+                placeholder={t('timerForm.name')}
+                accessibilityLabel={t('timerForm.name')}
+                value={values.name}
+                onChangeText={(text) => setValues({ ...values, name: text })}
+              />
+              {visibleErrors.name ? (
+                <Text style={styles.errorText}>{visibleErrors.name}</Text>
+              ) : null}
+            </View>
+            <View style={styles.kinds}>
+              {KINDS.map((option) => (
+                <TouchableOpacity
+                  key={option.value}
+                  style={[
+                    styles.kind,
+                    option.value === kind && styles.kindActive,
+                  ]}
+                  onPress={() => setKind(option.value)}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: option.value === kind }}
+                >
+                  <Text
+                    style={[
+                      styles.kindText,
+                      option.value === kind && styles.kindTextActive,
+                    ]}
+                  >
+                    {t(option.label)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {kind === 'timer' ? (
+              <DurationInput
+                value={values.duration}
+                onChange={(text) => setValues({ ...values, duration: text })}
+                error={visibleErrors.duration}
+              />
+            ) : null}
+            {values.stopwatch ? (
+              <View style={styles.field}>
+                <Text style={styles.label}>{t('timerForm.target')}</Text>
+                <DurationInput
+                  value={values.stopwatch.target}
+                  onChange={(target) =>
+                    setValues({ ...values, stopwatch: { target } })
+                  }
+                  error={visibleErrors.target}
+                />
+              </View>
+            ) : null}
+            <CategoryInput
+              value={values.category}
+              onChange={(category) => setValues({ ...values, category })}
+              categories={categories}
+              error={visibleErrors.category}
+            />
+            {values.routine ? (
+              <RoutineStepsInput
+                value={values.routine}
+                onChange={(routine) => setValues({ ...values, routine })}
+                errors={visibleErrors.stepErrors}
+                stepsError={visibleErrors.steps}
+              />
+            ) : values.interval ? (
+              <IntervalSettingsInput
+                value={values.interval}
+                onChange={(interval) => setValues({ ...values, interval })}
+                errors={visibleErrors.interval}
+              />
+            ) : values.stopwatch ? null : (
+              <AlertCheckpointsInput
+                value={values.alerts}
+                onChange={(alerts) => setValues({ ...values, alerts })}
+                errors={visibleErrors.alerts}
+              />
+            )}
+            <TouchableOpacity
+              style={styles.toggle}
+              onPress={() =>
+                setValues({
+                  ...values,
+                  schedule: values.schedule ? null : createScheduleDraft(),
+                })
+              }
+            >
+              <Ionicons
+                name={values.schedule ? 'checkbox' : 'square-outline'}
+                size={22}
+                color={colors.accent}
+              />
+              <Text style={styles.toggleText}>{t('timerForm.schedule')}</Text>
+            </TouchableOpacity>
+            {values.schedule ? (
+              <ScheduleInput
+                value={values.schedule}
+                onChange={(schedule) => setValues({ ...values, schedule })}
+                error={visibleErrors.schedule}
+              />
+            ) : null}
+            <TouchableOpacity
+              style={styles.toggle}
+              onPress={() =>
+                setValues({
+                  ...values,
+                  alertProfile: values.alertProfile
+                    ? null
+                    : categoryProfile ?? DEFAULT_ALERT_PROFILE,
+                })
+              }
+            >
+              <Ionicons
+                name={values.alertProfile ? 'checkbox' : 'square-outline'}
+                size={22}
+                color={colors.accent}
+              />
+              <Text style={styles.toggleText}>
+                {t('timerForm.customSound')}
+              </Text>
+            </TouchableOpacity>
+            {values.alertProfile ? (
+              <AlertProfileEditor
+                value={values.alertProfile}
+                onChange={(alertProfile) =>
+                  setValues({ ...values, alertProfile })
+                }
+              />
+            ) : null}
+          </ScrollView>
+          <View style={styles.modalButtons}>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.cancelButton]}
+              onPress={onClose}
+            >
+              <Text style={styles.buttonText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.modalButton, styles.submitButton]}
+              onPress={handleSubmit}
+            >
+              <Text style={styles.buttonText}>{submitLabel}</Text>
+            </TouchableOpacity>
+          </View>
+        </MotiView>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    modalContainer: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+      backgroundColor: colors.overlay,
+    },
+    modalContent: {
+      backgroundColor: colors.surface,
+      borderRadius: 16,
+      padding: 24,
+      width: '90%',
+      maxWidth: 400,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 4 },
+      shadowOpacity: 0.25,
+      shadowRadius: 8,
+      elevation: 5,
+    },
+    modalTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      marginBottom: 16,
+      textAlign: 'center',
+      color: colors.text,
+    },
+    modalBody: {
+      maxHeight: 440,
+    },
+    field: {
+      marginBottom: 16,
+    },
+    label: {
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: 8,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: colors.border,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 16,
+      backgroundColor: colors.surfaceMuted,
+      color: colors.text,
+    },
+    inputError: {
+      borderColor: colors.danger,
+    },
+    errorText: {
+      marginTop: 4,
+      fontSize: 13,
+      color: colors.danger,
+    },
+    kinds: {
+      flexDirection: 'row',
+      marginBottom: 16,
+    },
+    kind: {
+      flex: 1,
+      paddingVertical: 8,
+      marginHorizontal: 4,
+      borderRadius: 8,
+      backgroundColor: colors.background,
+      alignItems: 'center',
+    },
+    kindActive: {
+      backgroundColor: colors.accent,
+    },
+    kindText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    kindTextActive: {
+      color: colors.onAccent,
+      fontWeight: '600',
+    },
+    toggle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    toggleText: {
+      marginStart: 8,
+      fontSize: 16,
+      color: colors.text,
+    },
+    modalButtons: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+    },
+    modalButton: {
+      flex: 1,
+      padding: 12,
+      borderRadius: 8,
+      marginHorizontal: 8,
+    },
+    cancelButton: {
+      backgroundColor: colors.danger,
+    },
+    submitButton: {
+      backgroundColor: colors.accent,
+    },
+    buttonText: {
+      color: colors.onAccent,
+      textAlign: 'center',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
@@ -0,0 +1,174 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { SortMode, StatusFilter } from '@/types/timer';
+import { SORT_MODES, STATUS_FILTERS } from '@/utils/timerList';
+import { useI18n } from '@/components/LocaleProvider';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { ThemeColors } from '@/utils/theme';
+
+type TimerListControlsProps = {
+  /** Lets the screen focus the search box from a keyboard shortcut. */
+  searchInputRef?: React.RefObject<TextInput>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  statusFilter: StatusFilter;
+  onStatusFilterChange: (filter: StatusFilter) => void;
+  sortMode: SortMode;
+  onSortModeChange: (mode: SortMode) => void;
+};
+
+type ChipRowProps<T extends string> = {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+};
+
+function ChipRow<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: ChipRowProps<T>) {
+  const styles = useThemedStyles(createStyles);
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.chipRow}
+    >
+      <Text style={styles.chipRowLabel}>{label}</Text>
+      {options.map((option) => (
+        <TouchableOpacity
+          key={option.value}
+          style={[styles.chip, option.value === value && styles.chipActive]}
+          onPress={() => onChange(option.value)}
+          accessibilityRole="button"
+          accessibilityLabel={`${label} ${option.label}`}
+          accessibilityState={{ selected: option.value === value }}
+        >
+          <Text
+            style={[
+              styles.chipText,
+              option.value === value && styles.chipTextActive,
+            ]}
+          >
+            {option.label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+export default function TimerListControls({
+  searchInputRef,
+  query,
+  onQueryChange,
+  statusFilter,
+  onStatusFilterChange,
+  sortMode,
+  onSortModeChange,
+}: TimerListControlsProps) {
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+  const { t } = useI18n();
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchBox}>
+        <Ionicons name="search" size={18} color={colors.textMuted} />
+        <TextInput
+          ref={searchInputRef}
+          style={styles.searchInput}
+          placeholder={t('timerList.searchPlaceholder')}
+          accessibilityLabel={t('timerList.searchPlaceholder')}
+          value={query}
+          onChangeText={onQueryChange}
+        />
+        {query ? (
+          <TouchableOpacity
+            onPress={() => onQueryChange('')}
+            accessibilityRole="button"
+            accessibilityLabel={t('timerList.clearSearch')}
+          >
+            <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+        ) : null}
+      </View>
+      <ChipRow
+        label={t('timerList.show')}
+        options={STATUS_FILTERS.map((option) => ({
+          ...option,
+          label: t(option.label),
+        }))}
+        value={statusFilter}
+        onChange={onStatusFilterChange}
+      />
+      <ChipRow
+        label={t('timerList.sort')}
+        options={SORT_MODES.map((option) => ({
+          ...option,
+          label: t(option.label),
+        }))}
+        value={sortMode}
+        onChange={onSortModeChange}
+      />
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      marginHorizontal: 16,
+      marginTop: 16,
+    },
+    searchBox: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingHorizontal: 12,
+      borderRadius: 8,
+      backgroundColor: colors.surface,
+    },
+    searchInput: {
+      flex: 1,
+      paddingVertical: 10,
+      marginStart: 8,
+      fontSize: 16,
+      color: colors.text,
+    },
+    chipRow: {
+      alignItems: 'center',
+      marginTop: 8,
+    },
+    chipRowLabel: {
+      marginEnd: 8,
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      marginEnd: 6,
+      borderRadius: 16,
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.accent,
+    },
+    chipText: {
+      fontSize: 14,
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: colors.onAccent,
+    },
+  });
@@ -0,0 +1,116 @@
+import React, { createContext, useContext, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MotiView, AnimatePresence } from 'moti';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useTheme, useThemedStyles } from '@/components/ThemeProvider';
+import { timingTransition } from '@/utils/motion';
+import { ThemeColors } from '@/utils/theme';
+
+type Toast = {
+  id: number;
+  title: string;
+  message: string;
+};
+
+type ToastContextValue = {
+  showToast: (title: string, message: string) => void;
+};
+
+const TOAST_DURATION = 4000;
+
+const ToastContext = createContext<ToastContextValue | null>(null);
+
+export function ToastProvider({ children }: { children: React.ReactNode }) {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+  const insets = useSafeAreaInsets();
+  const { colors } = useTheme();
+  const styles = useThemedStyles(createStyles);
+
+  const dismissToast = (id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  };
+
+  const showToast = (title: string, message: string) => {
+    const id = nextId.current++;
+    setToasts((current) => [...current, { id, title, message }]);
+    setTimeout(() => dismissToast(id), TOAST_DURATION);
+  };
+
+  return (
+    <ToastContext.Provider value={{ showToast }}>
+      {children}
+      <View
+        pointerEvents="box-none"
+        style={[styles.container, { top: insets.top + 8 }]}
+      >
+        <AnimatePresence>
+          {toasts.map((toast) => (
+            <MotiView
+              key={toast.id}
+              from={{ opacity: 0, translateY: -20 }}
+              animate={{ opacity: 1, translateY: 0 }}
+              exit={{ opacity: 0, translateY: -20 }}
+              transition={timingTransition(['opacity', 'translateY'], 200)}
+              style={styles.toast}
+            >
+              <Ionicons name="notifications" size={20} color={colors.accent} />
+              <View style={styles.toastBody}>
+                <Text style={styles.toastTitle}>{toast.title}</Text>
+                <Text style={styles.toastMessage}>{toast.message}</Text>
+              </View>
+              <TouchableOpacity onPress={() => dismissToast(toast.id)}>
+                <Ionicons name="close" size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </MotiView>
+          ))}
+        </AnimatePresence>
+      </View>
+    </ToastContext.Provider>
+  );
+}
+
+export function useToast() {
+  const context = useContext(ToastContext);
+  if (!context) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      position: 'absolute',
+      left: 16,
+      right: 16,
+    },
+    toast: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 8,
+      padding: 12,
+      borderRadius: 12,
+      backgroundColor: colors.surface,
+      shadowColor: colors.shadow,
+      shadowOffset: { width: 0, height: 2 },
+      shadowOpacity: 0.15,
+      shadowRadius: 6,
+      elevation: 4,
+    },
+    toastBody: {
+      flex: 1,
+      marginHorizontal: 12,
+    },
+    toastTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    toastMessage: {
+      fontSize: 14,
+      color: colors.textBody,
+      marginTop: 2,
+    },
+  });
@@ -0,0 +1,145 @@
+import { en, MessageKey } from '@/i18n/locales/en';
+import { es } from '@/i18n/locales/es';
+import { ar } from '@/i18n/locales/ar';
+import {
+  Message,
+  PluralCategory,
+  PluralMessage,
+  TextDirection,
+} from '@/i18n/types';
+
+export type { MessageKey } from '@/i18n/locales/en';
+export type { TextDirection } from '@/i18n/types';
+
+export type Locale = 'en' | 'es' | 'ar';
+export type LocalePreference = 'system' | Locale;
+
+type LocaleInfo = {
+  /** The language's name in that language, as shown in the picker. */
+  name: string;
+  direction: TextDirection;
+  catalog: Record<MessageKey, Message>;
+  plural: (count: number) => PluralCategory;
+};
+
+const oneOrOther = (count: number): PluralCategory =>
+  count === 1 ? 'one' : 'other';
+
+/** CLDR cardinal rules for Arabic, for whole numbers. */
+const arabicPlural = (count: number): PluralCategory => {
+  const lastTwo = count % 100;
+  if (count === 0) return 'zero';
+  if (count === 1) return 'one';
+  if (count === 2) return 'two';
+  if (lastTwo >= 3 && lastTwo <= 10) return 'few';
+  if (lastTwo >= 11 && lastTwo <= 99) return 'many';
+  return 'other';
+};
+
+/*
+ * Plural rules are spelled out per locale rather than taken from
+ * Intl.PluralRules, which Hermes does not provide.
+ */
+export const LOCALES: Record<Locale, LocaleInfo> = {
+  en: { name: 'English', direction: 'ltr', catalog: en, plural: oneOrOther },
+  es: { name: 'Español', direction: 'ltr', catalog: es, plural: oneOrOther },
+  ar: { name: 'العربية', direction: 'rtl', catalog: ar, plural: arabicPlural },
+};
+
+export const LOCALE_PREFERENCES: LocalePreference[] = [
+  'system',
+  ...(Object.keys(LOCALES) as Locale[]),
+];
+
+export const isLocalePreference = (value: unknown): value is LocalePreference =>
+  typeof value === 'string' && (LOCALE_PREFERENCES as string[]).includes(value);
+
+/** The shipped locale for a BCP 47 tag such as "es-MX", or English. */
+export const matchLocale = (tag: string | undefined): Locale => {
+  const language = tag?.toLowerCase().split(/[-_]/)[0];
+  return language && language in LOCALES ? (language as Locale) : 'en';
+};
+
+export const getDeviceLocale = () =>
+  matchLocale(Intl.DateTimeFormat().resolvedOptions().locale);
+
+export const resolveLocale = (preference: LocalePreference): Locale =>
+  preference === 'system' ? getDeviceLocale() : preference;
+
+let activeLocale: Locale = 'en';
+
+/** The locale `t` and the formatters use; set by `LocaleProvider`. */
+export const getLocale = () => activeLocale;
+
+export const setLocale = (locale: Locale) => {
+  activeLocale = locale;
+};
+
+export const getDirection = (locale = activeLocale) =>
+  LOCALES[locale].direction;
+
+export type MessageParams = Record<string, string | number>;
+
+const selectForm = (message: PluralMessage, count: number) =>
+  message[LOCALES[activeLocale].plural(count)] ?? message.other;
+
+/**
+ * Looks `key` up in the active catalog, falling back to English, and fills
+ * in `{name}` placeholders from `params`. Plural messages pick their form
+ * from `params.count`; numbers are written with the locale's digits.
+ */
+export const t = (key: MessageKey, params: MessageParams = {}) => {
+  const message = LOCALES[activeLocale].catalog[key] ?? en[key];
+  const text =
+    typeof message === 'string'
+      ? message
+      : selectForm(message, Number(params.count ?? 0));
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value) : value;
+  });
+};
+
+// Building Intl formatters is slow on Hermes, so they are reused.
+const formatters = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat>();
+
+const getFormatter = <T extends Intl.NumberFormat | Intl.DateTimeFormat>(
+  kind: 'number' | 'date',
+  options: object,
+  create: (locale: string) => T
+) => {
+  const cacheKey = `${kind}:${activeLocale}:${JSON.stringify(options)}`;
+  let formatter = formatters.get(cacheKey);
+  if (!formatter) {
+    formatter = create(activeLocale);
+    formatters.set(cacheKey, formatter);
+  }
+  return formatter as T;
+};
+
+export const formatNumber = (
+  value: number,
+  options: Intl.NumberFormatOptions = {}
+) =>
+  getFormatter(
+    'number',
+    options,
+    (locale) => new Intl.NumberFormat(locale, options)
+  ).format(value);
+
+export const formatDate = (time: number, options: Intl.DateTimeFormatOptions) =>
+  getFormatter(
+    'date',
+    options,
+    (locale) => new Intl.DateTimeFormat(locale, options)
+  ).format(time);
+
+/** "a, b or c" in the active language. */
+export const formatOrList = (items: string[]) =>
+  items.length < 2
+    ? items.join('')
+    : t('common.orList', {
+        items: items.slice(0, -1).join(t('common.listSeparator')),
+        last: items[items.length - 1],
+      });
@@ -0,0 +1,565 @@
+import { MessageKey } from '@/i18n/locales/en';
+import { Message } from '@/i18n/types';
+
+export const ar: Record<MessageKey, Message> = {
+  // Durations and relative times
+  'duration.hours': {
+    zero: '{count} ساعة',
+    one: 'ساعة واحدة',
+    two: 'ساعتان',
+    few: '{count} ساعات',
+    many: '{count} ساعة',
+    other: '{count} ساعة',
+  },
+  'duration.minutes': {
+    zero: '{count} دقيقة',
+    one: 'دقيقة واحدة',
+    two: 'دقيقتان',
+    few: '{count} دقائق',
+    many: '{count} دقيقة',
+    other: '{count} دقيقة',
+  },
+  'duration.seconds': {
+    zero: '{count} ثانية',
+    one: 'ثانية واحدة',
+    two: 'ثانيتان',
+    few: '{count} ثوانٍ',
+    many: '{count} ثانية',
+    other: '{count} ثانية',
+  },
+  'duration.join': '{first} و{second}',
+  'relative.now': 'الآن',
+  'relative.minutesAgo': {
+    one: 'منذ دقيقة',
+    two: 'منذ دقيقتين',
+    few: 'منذ {count} دقائق',
+    many: 'منذ {count} دقيقة',
+    other: 'منذ {count} دقيقة',
+  },
+  'relative.hoursAgo': {
+    one: 'منذ ساعة',
+    two: 'منذ ساعتين',
+    few: 'منذ {count} ساعات',
+    many: 'منذ {count} ساعة',
+    other: 'منذ {count} ساعة',
+  },
+  'relative.daysAgo': {
+    one: 'منذ يوم',
+    two: 'منذ يومين',
+    few: 'منذ {count} أيام',
+    many: 'منذ {count} يومًا',
+    other: 'منذ {count} يوم',
+  },
+  'relative.inMinutes': {
+    one: 'خلال دقيقة',
+    two: 'خلال دقيقتين',
+    few: 'خلال {count} دقائق',
+    many: 'خلال {count} دقيقة',
+    other: 'خلال {count} دقيقة',
+  },
+  'relative.inHours': {
+    one: 'خلال ساعة',
+    two: 'خلال ساعتين',
+    few: 'خلال {count} ساعات',
+    many: 'خلال {count} ساعة',
+    other: 'خلال {count} ساعة',
+  },
+  'relative.inDays': {
+    one: 'خلال يوم',
+    two: 'خلال يومين',
+    few: 'خلال {count} أيام',
+    many: 'خلال {count} يومًا',
+    other: 'خلال {count} يوم',
+  },
+
+  // Screen reader descriptions
+  'a11y.timerRemaining': '{name}، {status}، يتبقى {time}',
+  'a11y.timerElapsed': '{name}، {status}، مضى {time}',
+  'a11y.status.idle': 'لم يبدأ',
+  'a11y.status.running': 'قيد التشغيل',
+  'a11y.status.paused': 'متوقف مؤقتًا',
+  'a11y.status.completed': 'انتهى',
+  'a11y.remainingAnnouncement': '{name}: يتبقى {time}',
+
+  // Alert checkpoints
+  'alerts.errors.empty': 'أدخل نسبة مئوية أو الوقت المتبقي',
+  'alerts.errors.percentRange': 'يجب أن تكون النسبة بين 0 و100',
+  'alerts.errors.format': 'استخدم 50% أو وقتًا مثل 5m',
+  'alerts.remainingMessage': 'يتبقى {time} على {name}',
+  'alerts.halfwayMessage': '{name} في منتصف الطريق!',
+  'alerts.percentMessage': 'أنجز {name} {percent}٪',
+  'alerts.halfwayTitle': 'منتصف الطريق!',
+  'alerts.checkpointTitle': 'تنبيه المؤقت',
+
+  // Routines, intervals and stopwatches
+  'routines.stepDoneTitle': 'انتهت خطوة {step} ✅',
+  'routines.upNextMessage': '{name}: التالي {step}',
+  'intervals.phase.work': 'تركيز',
+  'intervals.phase.shortBreak': 'استراحة قصيرة',
+  'intervals.phase.longBreak': 'استراحة طويلة',
+  'intervals.focusDoneTitle': 'انتهت جولة التركيز 🍅',
+  'intervals.breakOverTitle': 'انتهت الاستراحة',
+  'intervals.next.work': '{name}: حان وقت التركيز',
+  'intervals.next.shortBreak': '{name}: خذ استراحة قصيرة',
+  'intervals.next.longBreak': '{name}: خذ استراحة طويلة',
+  'stopwatch.targetReachedTitle': 'تم بلوغ الهدف 🎯',
+  'stopwatch.targetReachedMessage': 'يعمل {name} منذ {time}',
+
+  // Shared
+  'common.cancel': 'إلغاء',
+  'common.save': 'حفظ',
+  'common.delete': 'حذف',
+  'common.reset': 'إعادة ضبط',
+  'common.close': 'إغلاق',
+  'common.orList': '{items} أو {last}',
+  'common.listSeparator': '، ',
+  'categories.uncategorized': 'بلا فئة',
+
+  // Schedules
+  'schedule.errors.clock': 'استخدم توقيت 24 ساعة، مثل 07:00',
+  'schedule.errors.startTime': 'استخدم وقتًا مثل 07:00 أو 2024-05-01 07:00',
+  'schedule.errors.invalidDate': 'هذا ليس تاريخًا صحيحًا',
+  'schedule.errors.past': 'اختر وقتًا في المستقبل',
+  'schedule.once': 'مرة واحدة',
+  'schedule.daily': 'يوميًا الساعة {time}',
+  'schedule.weekdays': 'أيام العمل الساعة {time}',
+  'schedule.weekends': 'عطلات نهاية الأسبوع الساعة {time}',
+  'schedule.onDays': '{days} الساعة {time}',
+  'schedule.everyHours': {
+    one: 'كل ساعة بدءًا من {time}',
+    two: 'كل ساعتين بدءًا من {time}',
+    few: 'كل {count} ساعات بدءًا من {time}',
+    many: 'كل {count} ساعة بدءًا من {time}',
+    other: 'كل {count} ساعة بدءًا من {time}',
+  },
+  'schedule.todayAt': 'اليوم {time}',
+  'schedule.tomorrowAt': 'غدًا {time}',
+  'schedule.dayAt': '{day} {time}',
+  'schedule.startedTitle': 'بدء مجدول ⏰',
+  'schedule.startedMessage': 'بدأ {name}',
+
+  // Templates
+  'templates.starter.tea': 'شاي',
+  'templates.starter.kitchen': 'المطبخ',
+  'templates.starter.standup': 'اجتماع يومي',
+  'templates.starter.work': 'العمل',
+  'templates.starter.wrapUp': 'حان وقت الإنهاء',
+  'templates.starter.plank': 'تمرين البلانك',
+  'templates.starter.fitness': 'اللياقة',
+  'templates.stopwatch': 'ساعة إيقاف',
+  'templates.stopwatchTarget': 'ساعة إيقاف · الهدف {time}',
+  'templates.routine': {
+    one: 'خطوة واحدة · {time}',
+    two: 'خطوتان · {time}',
+    few: '{count} خطوات · {time}',
+    many: '{count} خطوة · {time}',
+    other: '{count} خطوة · {time}',
+  },
+  'templates.interval': 'تركيز {work} · استراحة {rest}',
+
+  // Timer list sorting and filters
+  'timerList.sort.created': 'تاريخ الإنشاء',
+  'timerList.sort.remaining': 'الوقت المتبقي',
+  'timerList.sort.name': 'الاسم',
+  'timerList.sort.recent': 'المستخدمة مؤخرًا',
+  'timerList.status.all': 'الكل',
+  'timerList.status.running': 'قيد التشغيل',
+  'timerList.status.paused': 'متوقفة مؤقتًا',
+  'timerList.status.completed': 'منتهية',
+  'timerList.status.idle': 'لم تبدأ',
+
+  // History days
+  'history.today': 'اليوم',
+  'history.yesterday': 'أمس',
+
+  // Notifications
+  'notifications.timerCompleteTitle': 'انتهى المؤقت! 🎉',
+  'notifications.routineCompleteTitle': 'انتهى الروتين! 🎉',
+  'notifications.finishedMessage': 'انتهى {name}!',
+
+  // Alert profiles
+  'alertProfile.sound.none': 'صامت',
+  'alertProfile.sound.chime': 'رنين',
+  'alertProfile.sound.beep': 'صفارة',
+  'alertProfile.sound.bell': 'جرس',
+  'alertProfile.haptic.none': 'إيقاف',
+  'alertProfile.haptic.light': 'خفيف',
+  'alertProfile.haptic.heavy': 'قوي',
+  'alertProfile.haptic.success': 'نجاح',
+  'alertProfile.haptic.pulse': 'نبض',
+
+  // Import and duration input errors
+  'import.errors.json': 'الملف ليس JSON صالحًا.',
+  'import.errors.format': 'الملف ليس ملف تصدير مؤقتات.',
+  'import.errors.newerVersion': 'تم التصدير من إصدار أحدث من التطبيق.',
+  'duration.errors.empty': 'أدخل مدة',
+  'duration.errors.format': 'استخدم صيغة مثل 90s أو 25:00 أو 1h30m أو 2.5 min',
+  'duration.errors.zero': 'يجب أن تكون المدة أكبر من صفر',
+  'duration.errors.tooLong': 'يجب أن تكون المدة أقل من 100 ساعة',
+
+  // Deep links
+  'links.errors.missingName': 'يحتاج الرابط إلى اسم مؤقت، مثل ?name=Tea.',
+  'links.errors.missingDuration': 'يحتاج الرابط إلى مدة، مثل &duration=3m.',
+  'links.errors.badDuration': '"{value}" ليست مدة. {reason}.',
+  'links.errors.timerAction':
+    'يمكن لروابط المؤقتات استخدام {actions}، وليس "{action}".',
+  'links.errors.timerMissing': 'هذا المؤقت لم يعد موجودًا. ربما تم حذفه.',
+  'links.errors.categoryAction':
+    'يمكن لروابط الفئات استخدام {actions}، وليس "{action}".',
+  'links.errors.categoryMissing': 'لا توجد فئة باسم "{name}".',
+  'links.timerStarted': 'بدأ المؤقت',
+  'links.timerStartedMessage': '{name} قيد التشغيل.',
+  'links.timerPaused': 'توقف المؤقت مؤقتًا',
+  'links.timerPausedMessage': '{name} متوقف مؤقتًا.',
+  'links.resetTimerTitle': 'إعادة ضبط {name}؟',
+  'links.resetTimerMessage': 'ينتهي التشغيل الحالي ويعود إلى البداية.',
+  'links.deleteTimerTitle': 'حذف {name}؟',
+  'links.deleteTimerMessage': 'يُحذف المؤقت، ويبقى سجله.',
+  'links.categoryStarted': 'بدأت الفئة',
+  'links.categoryStartedMessage':
+    'المؤقتات التي لم تبدأ أو المتوقفة في {name} قيد التشغيل الآن.',
+  'links.categoryPaused': 'توقفت الفئة مؤقتًا',
+  'links.categoryPausedMessage': 'توقفت مؤقتات {name} العاملة مؤقتًا.',
+  'links.categoryRestarted': 'أُعيد تشغيل الفئة',
+  'links.categoryRestartedMessage': 'أُعيد تشغيل مؤقتات {name} المنتهية.',
+  'links.resetCategoryTitle': 'إعادة ضبط كل المؤقتات في {name}؟',
+  'links.resetCategoryMessage':
+    'تنتهي عمليات تشغيلها الحالية وتعود إلى البداية.',
+  'links.timerAdded': 'أُضيف المؤقت',
+  'links.timerAddedMessage': '{name} جاهز في {category}.',
+
+  // Keyboard shortcut hints
+  'shortcuts.toggle': 'تشغيل/إيقاف مؤقت',
+  'shortcuts.newTimer': 'مؤقت جديد',
+  'shortcuts.move': 'تنقّل',
+  'shortcuts.search': 'بحث',
+  'shortcuts.clear': 'إلغاء التحديد',
+
+  // Navigation and header menus
+  'tabs.timers': 'المؤقتات',
+  'tabs.timersHeader': 'مؤقتاتي',
+  'tabs.history': 'السجل',
+  'tabs.historyHeader': 'سجل المؤقتات',
+  'tabs.stats': 'الإحصاءات',
+  'tabs.statsHeader': 'الإحصاءات',
+  'appearance.title': 'المظهر',
+  'appearance.system': 'حسب النظام',
+  'appearance.light': 'فاتح',
+  'appearance.dark': 'داكن',
+  'appearance.reduceMotion': 'تقليل الحركة',
+  'language.title': 'اللغة',
+  'language.system': 'حسب النظام',
+  'language.restartTitle': 'أعد التشغيل للإنهاء',
+  'language.restartMessage': 'أغلق التطبيق وافتحه مجددًا لتغيير اتجاه النص.',
+  'controls.pauseAll': 'إيقاف الكل مؤقتًا',
+  'controls.resumeAll': 'استئناف الكل',
+  'controls.resetDone': 'إعادة ضبط المنتهية',
+  'timerList.searchPlaceholder': 'ابحث في المؤقتات أو الفئات',
+  'timerList.clearSearch': 'مسح البحث',
+  'timerList.show': 'عرض',
+  'timerList.sort': 'ترتيب',
+  'reorder.label': 'إعادة ترتيب {name}',
+  'reorder.hint': 'استخدم الإجراءات لتحريكه لأعلى أو لأسفل.',
+  'reorder.moveUp': 'تحريك لأعلى',
+  'reorder.moveDown': 'تحريك لأسفل',
+
+  // Statistics
+  'stats.emptyTitle': 'لا توجد إحصاءات بعد',
+  'stats.emptyMessage': 'استخدم بعض المؤقتات لترى مجاميعك هنا',
+  'stats.minutesTimed': {
+    zero: 'دقيقة مُسجّلة',
+    one: 'دقيقة مُسجّلة',
+    two: 'دقيقتان مُسجّلتان',
+    few: 'دقائق مُسجّلة',
+    many: 'دقيقة مُسجّلة',
+    other: 'دقيقة مُسجّلة',
+  },
+  'stats.streak': {
+    zero: 'يوم متتالٍ · الأفضل {best}',
+    one: 'يوم متتالٍ · الأفضل {best}',
+    two: 'يومان متتاليان · الأفضل {best}',
+    few: 'أيام متتالية · الأفضل {best}',
+    many: 'يومًا متتاليًا · الأفضل {best}',
+    other: 'يوم متتالٍ · الأفضل {best}',
+  },
+  'stats.focusTitle': 'وقت التركيز',
+  'stats.focusSummary': {
+    zero: '{minutes} دون أي جولة فواصل مكتملة',
+    one: '{minutes} في جولة فواصل مكتملة واحدة',
+    two: '{minutes} في جولتي فواصل مكتملتين',
+    few: '{minutes} في {count} جولات فواصل مكتملة',
+    many: '{minutes} في {count} جولة فواصل مكتملة',
+    other: '{minutes} في {count} جولة فواصل مكتملة',
+  },
+  'stats.completionsThisWeek': 'المكتملة هذا الأسبوع',
+  'stats.completionsPerWeek': 'المكتملة في كل أسبوع',
+  'stats.minutesByCategory': 'الدقائق حسب الفئة',
+  'stats.categoryMinutes': '{count} د',
+  'stats.outcomes': 'النتائج',
+  'stats.outcomeSummary': {
+    zero: '{completed} مكتملة · {reset} أُعيد ضبطها · لم يُحذف أي منها أثناء التشغيل',
+    one: '{completed} مكتملة · {reset} أُعيد ضبطها · واحد حُذف أثناء التشغيل',
+    two: '{completed} مكتملة · {reset} أُعيد ضبطها · اثنان حُذفا أثناء التشغيل',
+    few: '{completed} مكتملة · {reset} أُعيد ضبطها · {count} حُذفت أثناء التشغيل',
+    many: '{completed} مكتملة · {reset} أُعيد ضبطها · {count} حُذفت أثناء التشغيل',
+    other:
+      '{completed} مكتملة · {reset} أُعيد ضبطها · {count} حُذفت أثناء التشغيل',
+  },
+  'stats.busiestTitle': 'أكثر أوقات اليوم نشاطًا',
+  'stats.busiestEmpty': 'لا توجد مؤقتات مكتملة بعد',
+  'stats.busiestHour': 'تنتهي معظم المؤقتات قرابة {hour}',
+
+  // History screen
+  'history.outcome.completed': 'مكتمل',
+  'history.outcome.reset': 'أُعيد ضبطه',
+  'history.outcome.deleted': 'محذوف',
+  'history.range.all': 'الكل',
+  'history.range.today': 'اليوم',
+  'history.range.week': '7 أيام',
+  'history.range.month': '30 يومًا',
+  'history.clearTitle': 'مسح السجل؟',
+  'history.clearMessage':
+    'يؤدي هذا إلى حذف كل إدخالات السجل ولا يمكن التراجع عنه.',
+  'history.clear': 'مسح',
+  'history.details.set': 'المضبوط {time}',
+  'history.details.ran': 'استغرق {time}',
+  'history.details.paused': 'أُوقف مؤقتًا {count} مرة ({time})',
+  'history.laps': {
+    zero: 'لا لفات · الأسرع {fastest}',
+    one: 'لفة واحدة · الأسرع {fastest}',
+    two: 'لفتان · الأسرع {fastest}',
+    few: '{count} لفات · الأسرع {fastest}',
+    many: '{count} لفة · الأسرع {fastest}',
+    other: '{count} لفة · الأسرع {fastest}',
+  },
+  'history.searchPlaceholder': 'ابحث في المؤقتات',
+  'history.noMatchesTitle': 'لا توجد إدخالات مطابقة',
+  'history.noMatchesMessage': 'جرّب بحثًا أو عامل تصفية آخر',
+  'history.emptyTitle': 'لا يوجد سجل بعد',
+  'history.emptyMessage': 'شغّل بعض المؤقتات لتراها هنا',
+
+  // Export and import
+  'import.menuTitle': 'تصدير / استيراد',
+  'import.exportJson': 'تصدير المؤقتات والسجل (JSON)',
+  'import.exportCsv': 'تصدير السجل (CSV)',
+  'import.importJson': 'استيراد من JSON',
+  'import.exportFailed': 'تعذّر التصدير',
+  'import.importFailed': 'تعذّر الاستيراد',
+  'import.replaceTitle': 'استبدال كل البيانات؟',
+  'import.replaceMessage': 'سيؤدي هذا إلى استبدال مؤقتاتك وسجلك الحاليين.',
+  'import.replace': 'استبدال',
+  'import.merge': 'دمج',
+  'import.title': 'استيراد البيانات',
+  'import.summary': '{timers} و{history} و{templates} جاهزة للاستيراد.',
+  'import.timers': {
+    zero: 'لا مؤقتات',
+    one: 'مؤقت واحد',
+    two: 'مؤقتان',
+    few: '{count} مؤقتات',
+    many: '{count} مؤقتًا',
+    other: '{count} مؤقت',
+  },
+  'import.historyEntries': {
+    zero: 'لا إدخالات سجل',
+    one: 'إدخال سجل واحد',
+    two: 'إدخالا سجل',
+    few: '{count} إدخالات سجل',
+    many: '{count} إدخالًا في السجل',
+    other: '{count} إدخال سجل',
+  },
+  'import.presets': {
+    zero: 'لا مفضلات',
+    one: 'مفضلة واحدة',
+    two: 'مفضلتان',
+    few: '{count} مفضلات',
+    many: '{count} مفضلة',
+    other: '{count} مفضلة',
+  },
+  'import.rowsSkipped': {
+    one: 'تم تخطي صف واحد:',
+    two: 'تم تخطي صفين:',
+    few: 'تم تخطي {count} صفوف:',
+    many: 'تم تخطي {count} صفًا:',
+    other: 'تم تخطي {count} صف:',
+  },
+  'import.sharingUnavailable': 'المشاركة غير متاحة على هذا الجهاز',
+  'import.hint':
+    'الدمج يحتفظ ببياناتك ويضيف السجلات بمعرّفات جديدة. الاستبدال يكتب فوق كل شيء.',
+  'import.rowError': '{section} رقم {number}: {error}',
+  'import.sectionError': '{section}: {error}',
+  'import.sections.timers': 'المؤقتات',
+  'import.sections.history': 'السجل',
+  'import.sections.categories': 'الفئات',
+  'import.sections.categoryProfiles': 'تنبيهات الفئات',
+  'import.sections.templates': 'المفضلة',
+  'import.recordErrors.notObject': 'ليس سجلًا',
+  'import.recordErrors.notList': 'ليست قائمة',
+  'import.recordErrors.missingId': 'المعرّف مفقود',
+  'import.recordErrors.missingName': 'الاسم مفقود',
+  'import.recordErrors.missingCategory': 'الفئة مفقودة',
+  'import.recordErrors.missingTimerId': 'معرّف المؤقت مفقود',
+  'import.recordErrors.stopwatchDuration': 'ساعات الإيقاف ليس لها مدة',
+  'import.recordErrors.invalidDuration': 'يجب أن تكون المدة رقمًا موجبًا',
+  'import.recordErrors.unknownStatus': 'حالة غير معروفة',
+  'import.recordErrors.invalidEndDate': 'تاريخ الانتهاء مفقود أو غير صالح',
+  'import.recordErrors.unknownOutcome': 'نتيجة غير معروفة',
+  'import.recordErrors.invalidAlertProfile': 'ملف تنبيه غير صالح',
+
+  // Category settings
+  'categorySettings.errors.empty': 'أدخل اسمًا للفئة',
+  'categorySettings.errors.exists':
+    '"{name}" موجودة بالفعل؛ ادمجها فيها بدلًا من ذلك',
+  'categorySettings.mergeTitle': 'الدمج في {target}؟',
+  'categorySettings.mergeMessage': 'تنتقل مؤقتات {name} وسجلها إلى {target}.',
+  'categorySettings.merge': 'دمج',
+  'categorySettings.deleteTitle': 'حذف {name}؟',
+  'categorySettings.deleteMessage': 'تنتقل مؤقتاتها وسجلها إلى {fallback}.',
+  'categorySettings.namePlaceholder': 'اسم الفئة',
+  'categorySettings.colour': 'اللون',
+  'categorySettings.icon': 'الأيقونة',
+  'categorySettings.alertDefaults': 'التنبيهات الافتراضية',
+  'categorySettings.alertDefaultsHint':
+    'الصوت والاهتزاز الافتراضيان لمؤقتات هذه الفئة',
+  'categorySettings.useAppDefaults': 'استخدام تنبيهات التطبيق الافتراضية',
+  'categorySettings.mergeInto': 'دمج في',
+  'categorySettings.delete': 'حذف الفئة',
+
+  // Alert profile editor
+  'alertProfile.soundLabel': 'الصوت',
+  'alertProfile.hapticLabel': 'الاهتزاز',
+  'alertProfile.volumeLabel': 'مستوى الصوت',
+  'alertProfile.ringUntilDismissed': 'منبّه: يرن حتى يتم إيقافه',
+  'alertProfile.preview': 'معاينة التنبيه',
+
+  // Timer form inputs
+  'alertCheckpoints.title': 'التنبيهات',
+  'alertCheckpoints.trigger': 'متى',
+  'alertCheckpoints.message': 'الرسالة (اختيارية)',
+  'alertCheckpoints.remove': 'إزالة التنبيه',
+  'alertCheckpoints.custom': 'مخصص',
+  'durationInput.hours': 'س',
+  'durationInput.minutes': 'د',
+  'durationInput.seconds': 'ث',
+  'durationInput.placeholder': 'أو اكتب: 1h30m أو 25:00 أو 90s أو 2.5 min',
+  'intervals.roundsBeforeLongBreak': 'الجولات قبل الاستراحة الطويلة',
+  'intervals.fewerRounds': 'جولات أقل',
+  'intervals.moreRounds': 'جولات أكثر',
+  'intervals.autoStartBreaks': 'بدء الاستراحات تلقائيًا',
+  'intervals.autoStartWork': 'بدء جولات التركيز تلقائيًا',
+  'routineInput.steps': 'الخطوات',
+  'routineInput.stepNumber': 'الخطوة {number}',
+  'routineInput.removeStep': 'إزالة الخطوة',
+  'routineInput.stepName': 'اسم الخطوة',
+  'routineInput.addStep': 'إضافة خطوة',
+  'routineInput.repeat': 'التكرار',
+  'routineInput.repeatLess': 'تكرار أقل',
+  'routineInput.repeatMore': 'تكرار أكثر',
+  'routineInput.repeatCount': {
+    one: 'مرة واحدة',
+    two: 'مرتان',
+    few: '{count} مرات',
+    many: '{count} مرة',
+    other: '{count} مرة',
+  },
+  'scheduleInput.once': 'مرة واحدة',
+  'scheduleInput.daily': 'يوميًا',
+  'scheduleInput.everyHours': 'كل N ساعات',
+  'scheduleInput.startAt': 'يبدأ في، مثل 07:00 أو 2024-05-01 07:00',
+  'scheduleInput.every': 'كل',
+  'scheduleInput.fewerHours': 'ساعات أقل',
+  'scheduleInput.moreHours': 'ساعات أكثر',
+  'scheduleInput.hours': '{count} س',
+  'scheduleInput.at': 'في الساعة، مثل 07:00',
+  'scheduleInput.from': 'من',
+  'scheduleInput.everyDay': 'كل يوم',
+  'scheduleInput.weekdays': 'أيام العمل',
+
+  // Presets
+  'templates.title': 'المفضلة',
+  'templates.empty':
+    'احفظ مؤقتًا في المفضلة من قائمته لتبدأه من هنا بلمسة واحدة.',
+  'templates.deleteTitle': 'حذف {name}؟',
+  'templates.deleteMessage': 'تبقى المؤقتات التي بدأتها من هذه المفضلة.',
+  'templates.start': 'بدء المفضلة {name}',
+  'templates.startHint': 'يبدأ مؤقتًا جديدًا من هذه المفضلة.',
+  'templates.delete': 'حذف المفضلة {name}',
+
+  // Timer form
+  'timerForm.kind.timer': 'مؤقت',
+  'timerForm.kind.routine': 'روتين',
+  'timerForm.kind.interval': 'فواصل',
+  'timerForm.kind.stopwatch': 'ساعة إيقاف',
+  'timerForm.errors.alertTooLate': 'يجب أن يكون أقصر من المؤقت',
+  'timerForm.errors.noSteps': 'أضف خطوة واحدة على الأقل',
+  'timerForm.errors.stepName': 'أدخل اسمًا لهذه الخطوة',
+  'timerForm.errors.noDays': 'اختر يومًا واحدًا على الأقل',
+  'timerForm.errors.name': 'أدخل اسمًا للمؤقت',
+  'timerForm.errors.category': 'اختر فئة',
+  'timerForm.name': 'اسم المؤقت',
+  'timerForm.target': 'الهدف (اختياري)',
+  'timerForm.schedule': 'البدء حسب جدول',
+  'timerForm.customSound': 'صوت مخصص لهذا المؤقت',
+  'timerForm.category': 'الفئة',
+  'timerForm.newCategory': 'أنشئ فئة جديدة',
+
+  // Timer cards
+  'timerCard.routineStep': 'الخطوة {number} من {total} · {name}',
+  'timerCard.routineRound': '{step} · الجولة {round}/{total}',
+  'timerCard.lap': 'اللفة {number}',
+  'timerCard.earlierLaps': {
+    one: '+لفة سابقة واحدة',
+    two: '+لفتان سابقتان',
+    few: '+{count} لفات سابقة',
+    many: '+{count} لفة سابقة',
+    other: '+{count} لفة سابقة',
+  },
+  'timerCard.phase': '{phase}، الجولة {round} من {total}',
+  'timerCard.phaseShort': '{phase} · الجولة {round}/{total}',
+  'timerCard.nextStart': 'البدء التالي {when} · {schedule}',
+  'timerCard.hint': 'يتتبع الوقت المتبقي. اضغط مطولًا لمزيد من الخيارات.',
+  'timerCard.moreOptions': 'خيارات إضافية',
+  'timerCard.overall': '{percent} من الإجمالي',
+  'timerCard.progress': 'تقدم {name}',
+  'timerCard.dismissAlarmFor': 'إيقاف منبّه {name}',
+  'timerCard.dismissAlarm': 'إيقاف المنبّه',
+  'timerCard.start': 'بدء مؤقت {name}',
+  'timerCard.resume': 'استئناف مؤقت {name}',
+  'timerCard.pause': 'إيقاف مؤقت {name} مؤقتًا',
+  'timerCard.recordLap': 'تسجيل لفة في {name}',
+  'timerCard.stop': 'إيقاف {name}',
+  'timerCard.reset': 'إعادة ضبط مؤقت {name}',
+  'timerCard.moreOptionsFor': 'خيارات إضافية لـ {name}',
+
+  // Deep link and not-found screens
+  'links.failedTitle': 'تعذّر فتح الرابط',
+  'links.goToTimers': 'الانتقال إلى المؤقتات',
+  'notFound.title': 'عذرًا!',
+  'notFound.message': 'هذه الشاشة غير موجودة.',
+  'notFound.home': 'الانتقال إلى الشاشة الرئيسية!',
+
+  // Timers screen
+  'timers.presetSaved': 'تم حفظ المفضلة',
+  'timers.presetSavedMessage': '{name} في مفضلتك الآن.',
+  'timers.emptyTitle': 'لا توجد مؤقتات',
+  'timers.emptyMessage': 'أضف مؤقتًا للبدء.',
+  'timers.runningNow': 'قيد التشغيل الآن',
+  'timers.noMatches': 'لا توجد مؤقتات مطابقة',
+  'timers.categorySpoken': '{name}، {count} قيد التشغيل، يتبقى {time}',
+  'timers.categorySummary': '{count} قيد التشغيل · يتبقى {time}',
+  'timers.startCategory': 'بدء مؤقتات {name}',
+  'timers.pauseCategory': 'إيقاف مؤقتات {name} مؤقتًا',
+  'timers.restartCategory': 'إعادة تشغيل مؤقتات {name} المنتهية',
+  'timers.resetCategory': 'إعادة ضبط مؤقتات {name}',
+  'timers.categorySettings': 'إعدادات {name}',
+  'timers.emptyCategory': 'لا توجد مؤقتات في هذه الفئة',
+  'timers.allPinned': 'كلها قيد التشغيل ومثبتة في الأعلى',
+  'timers.add': 'إضافة مؤقت',
+  'timers.editTitle': 'تعديل المؤقت',
+  'timers.addTitle': 'مؤقت جديد',
+  'timers.addSubmit': 'إضافة',
+  'timers.menu.edit': 'تعديل',
+  'timers.menu.duplicate': 'تكرار',
+  'timers.menu.saveAsPreset': 'حفظ في المفضلة',
+  'timers.deleted': 'تم حذف "{name}"',
+  'timers.undo': 'تراجع',
+};
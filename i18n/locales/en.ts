@@ -0,0 +1,462 @@
+import { Message } from '@/i18n/types';
+
+/**
+ * The source catalog: every key the app uses, in English. Other locales are
+ * checked against it, and `t` falls back to it for anything they miss.
+ */
+export const en = {
+  // Durations and relative times
+  'duration.hours': { one: '{count} hour', other: '{count} hours' },
+  'duration.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'duration.seconds': { one: '{count} second', other: '{count} seconds' },
+  'duration.join': '{first} {second}',
+  'relative.now': 'just now',
+  'relative.minutesAgo': {
+    one: '{count} minute ago',
+    other: '{count} minutes ago',
+  },
+  'relative.hoursAgo': { one: '{count} hour ago', other: '{count} hours ago' },
+  'relative.daysAgo': { one: '{count} day ago', other: '{count} days ago' },
+  'relative.inMinutes': {
+    one: 'in {count} minute',
+    other: 'in {count} minutes',
+  },
+  'relative.inHours': { one: 'in {count} hour', other: 'in {count} hours' },
+  'relative.inDays': { one: 'in {count} day', other: 'in {count} days' },
+
+  // Screen reader descriptions
+  'a11y.timerRemaining': '{name}, {status}, {time} left',
+  'a11y.timerElapsed': '{name}, {status}, {time} elapsed',
+  'a11y.status.idle': 'not started',
+  'a11y.status.running': 'running',
+  'a11y.status.paused': 'paused',
+  'a11y.status.completed': 'finished',
+  'a11y.remainingAnnouncement': '{name}: {time} left',
+
+  // Alert checkpoints
+  'alerts.errors.empty': 'Enter a percentage or time left',
+  'alerts.errors.percentRange': 'Percentage must be between 0 and 100',
+  'alerts.errors.format': 'Use 50% or a time like 5m',
+  'alerts.remainingMessage': '{time} left on {name}',
+  'alerts.halfwayMessage': '{name} is halfway complete!',
+  'alerts.percentMessage': '{name} is {percent}% complete',
+  'alerts.halfwayTitle': 'Halfway Point!',
+  'alerts.checkpointTitle': 'Timer Checkpoint',
+
+  // Routines, intervals and stopwatches
+  'routines.stepDoneTitle': '{step} done ✅',
+  'routines.upNextMessage': '{name}: up next, {step}',
+  'intervals.phase.work': 'Focus',
+  'intervals.phase.shortBreak': 'Short break',
+  'intervals.phase.longBreak': 'Long break',
+  'intervals.focusDoneTitle': 'Focus round done 🍅',
+  'intervals.breakOverTitle': 'Break over',
+  'intervals.next.work': '{name}: time to focus',
+  'intervals.next.shortBreak': '{name}: take a short break',
+  'intervals.next.longBreak': '{name}: take a long break',
+  'stopwatch.targetReachedTitle': 'Target reached 🎯',
+  'stopwatch.targetReachedMessage': '{name} has been running for {time}',
+
+  // Shared
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.reset': 'Reset',
+  'common.close': 'Close',
+  'common.orList': '{items} or {last}',
+  'common.listSeparator': ', ',
+  'categories.uncategorized': 'Uncategorized',
+
+  // Schedules
+  'schedule.errors.clock': 'Use a 24-hour time like 07:00',
+  'schedule.errors.startTime': 'Use a time like 07:00 or 2024-05-01 07:00',
+  'schedule.errors.invalidDate': 'Not a valid date',
+  'schedule.errors.past': 'Pick a time in the future',
+  'schedule.once': 'Once',
+  'schedule.daily': 'Daily at {time}',
+  'schedule.weekdays': 'Weekdays at {time}',
+  'schedule.weekends': 'Weekends at {time}',
+  'schedule.onDays': '{days} at {time}',
+  'schedule.everyHours': {
+    one: 'Every hour from {time}',
+    other: 'Every {count} hours from {time}',
+  },
+  'schedule.todayAt': 'Today {time}',
+  'schedule.tomorrowAt': 'Tomorrow {time}',
+  'schedule.dayAt': '{day} {time}',
+  'schedule.startedTitle': 'Scheduled start ⏰',
+  'schedule.startedMessage': '{name} has started',
+
+  // Templates
+  'templates.starter.tea': 'Tea',
+  'templates.starter.kitchen': 'Kitchen',
+  'templates.starter.standup': 'Standup',
+  'templates.starter.work': 'Work',
+  'templates.starter.wrapUp': 'Time to wrap up',
+  'templates.starter.plank': 'Plank',
+  'templates.starter.fitness': 'Fitness',
+  'templates.stopwatch': 'Stopwatch',
+  'templates.stopwatchTarget': 'Stopwatch · target {time}',
+  'templates.routine': {
+    one: '{count} step · {time}',
+    other: '{count} steps · {time}',
+  },
+  'templates.interval': 'Focus {work} · break {rest}',
+
+  // Timer list sorting and filters
+  'timerList.sort.created': 'Created',
+  'timerList.sort.remaining': 'Time left',
+  'timerList.sort.name': 'Name',
+  'timerList.sort.recent': 'Recently used',
+  'timerList.status.all': 'All',
+  'timerList.status.running': 'Running',
+  'timerList.status.paused': 'Paused',
+  'timerList.status.completed': 'Completed',
+  'timerList.status.idle': 'Idle',
+
+  // History days
+  'history.today': 'Today',
+  'history.yesterday': 'Yesterday',
+
+  // Notifications
+  'notifications.timerCompleteTitle': 'Timer Complete! 🎉',
+  'notifications.routineCompleteTitle': 'Routine Complete! 🎉',
+  'notifications.finishedMessage': '{name} has finished!',
+
+  // Alert profiles
+  'alertProfile.sound.none': 'Silent',
+  'alertProfile.sound.chime': 'Chime',
+  'alertProfile.sound.beep': 'Beep',
+  'alertProfile.sound.bell': 'Bell',
+  'alertProfile.haptic.none': 'Off',
+  'alertProfile.haptic.light': 'Light',
+  'alertProfile.haptic.heavy': 'Heavy',
+  'alertProfile.haptic.success': 'Success',
+  'alertProfile.haptic.pulse': 'Pulse',
+
+  // Import and duration input errors
+  'import.errors.json': 'The file is not valid JSON.',
+  'import.errors.format': 'The file is not a timer export.',
+  'import.errors.newerVersion':
+    'The export was made by a newer version of the app.',
+  'duration.errors.empty': 'Enter a duration',
+  'duration.errors.format': 'Use a format like 90s, 25:00, 1h30m or 2.5 min',
+  'duration.errors.zero': 'Duration must be longer than zero',
+  'duration.errors.tooLong': 'Duration must be under 100 hours',
+
+  // Deep links
+  'links.errors.missingName': 'The link needs a timer name, like ?name=Tea.',
+  'links.errors.missingDuration':
+    'The link needs a duration, like &duration=3m.',
+  'links.errors.badDuration': '"{value}" is not a duration. {reason}.',
+  'links.errors.timerAction': 'Timer links can {actions}, not "{action}".',
+  'links.errors.timerMissing':
+    'That timer no longer exists. It may have been deleted.',
+  'links.errors.categoryAction':
+    'Category links can {actions}, not "{action}".',
+  'links.errors.categoryMissing': 'There is no category called "{name}".',
+  'links.timerStarted': 'Timer started',
+  'links.timerStartedMessage': '{name} is running.',
+  'links.timerPaused': 'Timer paused',
+  'links.timerPausedMessage': '{name} is paused.',
+  'links.resetTimerTitle': 'Reset {name}?',
+  'links.resetTimerMessage':
+    'Its current run ends and it goes back to the start.',
+  'links.deleteTimerTitle': 'Delete {name}?',
+  'links.deleteTimerMessage': 'The timer is removed; its history is kept.',
+  'links.categoryStarted': 'Category started',
+  'links.categoryStartedMessage':
+    'Idle and paused timers in {name} are running.',
+  'links.categoryPaused': 'Category paused',
+  'links.categoryPausedMessage': 'Running timers in {name} are paused.',
+  'links.categoryRestarted': 'Category restarted',
+  'links.categoryRestartedMessage': 'Finished timers in {name} started again.',
+  'links.resetCategoryTitle': 'Reset every timer in {name}?',
+  'links.resetCategoryMessage':
+    'Their current runs end and they go back to the start.',
+  'links.timerAdded': 'Timer added',
+  'links.timerAddedMessage': '{name} is ready in {category}.',
+
+  // Keyboard shortcut hints
+  'shortcuts.toggle': 'start/pause',
+  'shortcuts.newTimer': 'new timer',
+  'shortcuts.move': 'move',
+  'shortcuts.search': 'search',
+  'shortcuts.clear': 'clear',
+
+  // Navigation and header menus
+  'tabs.timers': 'Timers',
+  'tabs.timersHeader': 'My Timers',
+  'tabs.history': 'History',
+  'tabs.historyHeader': 'Timer History',
+  'tabs.stats': 'Stats',
+  'tabs.statsHeader': 'Statistics',
+  'appearance.title': 'Appearance',
+  'appearance.system': 'Match system',
+  'appearance.light': 'Light',
+  'appearance.dark': 'Dark',
+  'appearance.reduceMotion': 'Reduce motion',
+  'language.title': 'Language',
+  'language.system': 'Match system',
+  'language.restartTitle': 'Restart to finish',
+  'language.restartMessage':
+    'Close and reopen the app to switch the layout direction.',
+  'controls.pauseAll': 'Pause all',
+  'controls.resumeAll': 'Resume all',
+  'controls.resetDone': 'Reset done',
+  'timerList.searchPlaceholder': 'Search timers or categories',
+  'timerList.clearSearch': 'Clear search',
+  'timerList.show': 'Show',
+  'timerList.sort': 'Sort',
+  'reorder.label': 'Reorder {name}',
+  'reorder.hint': 'Use the actions to move it up or down.',
+  'reorder.moveUp': 'Move up',
+  'reorder.moveDown': 'Move down',
+
+  // Statistics
+  'stats.emptyTitle': 'No statistics yet',
+  'stats.emptyMessage': 'Run some timers to see your totals here',
+  'stats.minutesTimed': { one: 'minute timed', other: 'minutes timed' },
+  'stats.streak': 'day streak · best {best}',
+  'stats.focusTitle': 'Focus time',
+  'stats.focusSummary': {
+    one: '{minutes} across {count} completed interval round',
+    other: '{minutes} across {count} completed interval rounds',
+  },
+  'stats.completionsThisWeek': 'Completions this week',
+  'stats.completionsPerWeek': 'Completions per week',
+  'stats.minutesByCategory': 'Minutes by category',
+  'stats.categoryMinutes': '{count}m',
+  'stats.outcomes': 'Outcomes',
+  'stats.outcomeSummary':
+    '{completed} completed · {reset} reset · {count} deleted mid-run',
+  'stats.busiestTitle': 'Busiest time of day',
+  'stats.busiestEmpty': 'No completed timers yet',
+  'stats.busiestHour': 'Most timers finish around {hour}',
+
+  // History screen
+  'history.outcome.completed': 'Completed',
+  'history.outcome.reset': 'Reset',
+  'history.outcome.deleted': 'Deleted',
+  'history.range.all': 'All time',
+  'history.range.today': 'Today',
+  'history.range.week': '7 days',
+  'history.range.month': '30 days',
+  'history.clearTitle': 'Clear history?',
+  'history.clearMessage':
+    'This removes every history entry and cannot be undone.',
+  'history.clear': 'Clear',
+  'history.details.set': 'Set {time}',
+  'history.details.ran': 'Ran {time}',
+  'history.details.paused': 'Paused {count}× ({time})',
+  'history.laps': {
+    one: '{count} lap · fastest {fastest}',
+    other: '{count} laps · fastest {fastest}',
+  },
+  'history.searchPlaceholder': 'Search timers',
+  'history.noMatchesTitle': 'No matching entries',
+  'history.noMatchesMessage': 'Try a different search or filter',
+  'history.emptyTitle': 'No timer history yet',
+  'history.emptyMessage': 'Start some timers to see them here',
+
+  // Export and import
+  'import.menuTitle': 'Export / Import',
+  'import.exportJson': 'Export timers & history (JSON)',
+  'import.exportCsv': 'Export history (CSV)',
+  'import.importJson': 'Import from JSON',
+  'import.exportFailed': 'Export failed',
+  'import.importFailed': 'Import failed',
+  'import.replaceTitle': 'Replace all data?',
+  'import.replaceMessage':
+    'Your current timers and history will be overwritten.',
+  'import.replace': 'Replace',
+  'import.merge': 'Merge',
+  'import.title': 'Import data',
+  'import.summary': '{timers}, {history} and {templates} ready to import.',
+  'import.timers': { one: '{count} timer', other: '{count} timers' },
+  'import.historyEntries': {
+    one: '{count} history entry',
+    other: '{count} history entries',
+  },
+  'import.presets': { one: '{count} preset', other: '{count} presets' },
+  'import.rowsSkipped': {
+    one: '{count} row skipped:',
+    other: '{count} rows skipped:',
+  },
+  'import.sharingUnavailable': 'Sharing is not available on this device',
+  'import.hint':
+    'Merge keeps your data and adds records with new ids. Replace overwrites everything.',
+  'import.rowError': '{section} #{number}: {error}',
+  'import.sectionError': '{section}: {error}',
+  'import.sections.timers': 'Timers',
+  'import.sections.history': 'History',
+  'import.sections.categories': 'Categories',
+  'import.sections.categoryProfiles': 'Category alerts',
+  'import.sections.templates': 'Presets',
+  'import.recordErrors.notObject': 'not a record',
+  'import.recordErrors.notList': 'not a list',
+  'import.recordErrors.missingId': 'missing id',
+  'import.recordErrors.missingName': 'missing name',
+  'import.recordErrors.missingCategory': 'missing category',
+  'import.recordErrors.missingTimerId': 'missing timer id',
+  'import.recordErrors.stopwatchDuration': 'stopwatches have no duration',
+  'import.recordErrors.invalidDuration': 'duration must be a positive number',
+  'import.recordErrors.unknownStatus': 'unknown status',
+  'import.recordErrors.invalidEndDate': 'missing or invalid end date',
+  'import.recordErrors.unknownOutcome': 'unknown outcome',
+  'import.recordErrors.invalidAlertProfile': 'invalid alert profile',
+
+  // Category settings
+  'categorySettings.errors.empty': 'Give the category a name',
+  'categorySettings.errors.exists':
+    '"{name}" already exists; merge into it instead',
+  'categorySettings.mergeTitle': 'Merge into {target}?',
+  'categorySettings.mergeMessage':
+    'Timers and history in {name} move to {target}.',
+  'categorySettings.merge': 'Merge',
+  'categorySettings.deleteTitle': 'Delete {name}?',
+  'categorySettings.deleteMessage':
+    'Its timers and history move to {fallback}.',
+  'categorySettings.namePlaceholder': 'Category name',
+  'categorySettings.colour': 'Colour',
+  'categorySettings.icon': 'Icon',
+  'categorySettings.alertDefaults': 'Alert defaults',
+  'categorySettings.alertDefaultsHint':
+    'Default sound and haptics for timers in this category',
+  'categorySettings.useAppDefaults': 'Use app default alerts',
+  'categorySettings.mergeInto': 'Merge into',
+  'categorySettings.delete': 'Delete category',
+
+  // Alert profile editor
+  'alertProfile.soundLabel': 'Sound',
+  'alertProfile.hapticLabel': 'Haptics',
+  'alertProfile.volumeLabel': 'Volume',
+  'alertProfile.ringUntilDismissed': 'Alarm: ring until dismissed',
+  'alertProfile.preview': 'Preview alert',
+
+  // Timer form inputs
+  'alertCheckpoints.title': 'Alerts',
+  'alertCheckpoints.trigger': 'When to alert',
+  'alertCheckpoints.message': 'Message (optional)',
+  'alertCheckpoints.remove': 'Remove alert',
+  'alertCheckpoints.custom': 'Custom',
+  'durationInput.hours': 'h',
+  'durationInput.minutes': 'm',
+  'durationInput.seconds': 's',
+  'durationInput.placeholder': 'or type: 1h30m, 25:00, 90s, 2.5 min',
+  'intervals.roundsBeforeLongBreak': 'Rounds before long break',
+  'intervals.fewerRounds': 'Fewer rounds',
+  'intervals.moreRounds': 'More rounds',
+  'intervals.autoStartBreaks': 'Start breaks automatically',
+  'intervals.autoStartWork': 'Start focus rounds automatically',
+  'routineInput.steps': 'Steps',
+  'routineInput.stepNumber': 'Step {number}',
+  'routineInput.removeStep': 'Remove step',
+  'routineInput.stepName': 'Step name',
+  'routineInput.addStep': 'Add step',
+  'routineInput.repeat': 'Repeat',
+  'routineInput.repeatLess': 'Repeat fewer times',
+  'routineInput.repeatMore': 'Repeat more times',
+  'routineInput.repeatCount': { one: 'Once', other: '{count}×' },
+  'scheduleInput.once': 'Once',
+  'scheduleInput.daily': 'Daily',
+  'scheduleInput.everyHours': 'Every N hours',
+  'scheduleInput.startAt': 'Start at, e.g. 07:00 or 2024-05-01 07:00',
+  'scheduleInput.every': 'Every',
+  'scheduleInput.fewerHours': 'Fewer hours',
+  'scheduleInput.moreHours': 'More hours',
+  'scheduleInput.hours': '{count}h',
+  'scheduleInput.at': 'At, e.g. 07:00',
+  'scheduleInput.from': 'From',
+  'scheduleInput.everyDay': 'Every day',
+  'scheduleInput.weekdays': 'Weekdays',
+
+  // Presets
+  'templates.title': 'Presets',
+  'templates.empty':
+    'Save a timer as a preset from its menu to start it here in one tap.',
+  'templates.deleteTitle': 'Delete {name}?',
+  'templates.deleteMessage':
+    'Timers already started from this preset are kept.',
+  'templates.start': 'Start {name} preset',
+  'templates.startHint': 'Starts a timer from this preset.',
+  'templates.delete': 'Delete {name} preset',
+
+  // Timer form
+  'timerForm.kind.timer': 'Timer',
+  'timerForm.kind.routine': 'Routine',
+  'timerForm.kind.interval': 'Interval',
+  'timerForm.kind.stopwatch': 'Stopwatch',
+  'timerForm.errors.alertTooLate': 'Must be shorter than the timer',
+  'timerForm.errors.noSteps': 'Add at least one step',
+  'timerForm.errors.stepName': 'Name this step',
+  'timerForm.errors.noDays': 'Pick at least one day',
+  'timerForm.errors.name': 'Give the timer a name',
+  'timerForm.errors.category': 'Choose a category',
+  'timerForm.name': 'Timer Name',
+  'timerForm.target': 'Target (optional)',
+  'timerForm.schedule': 'Start on a schedule',
+  'timerForm.customSound': 'Custom sound for this timer',
+  'timerForm.category': 'Category',
+  'timerForm.newCategory': 'Creates a new category',
+
+  // Timer cards
+  'timerCard.routineStep': 'Step {number} of {total} · {name}',
+  'timerCard.routineRound': '{step} · Round {round}/{total}',
+  'timerCard.lap': 'Lap {number}',
+  'timerCard.earlierLaps': {
+    one: '+{count} earlier lap',
+    other: '+{count} earlier laps',
+  },
+  'timerCard.phase': '{phase}, round {round} of {total}',
+  'timerCard.phaseShort': '{phase} · Round {round}/{total}',
+  'timerCard.nextStart': 'Next start {when} · {schedule}',
+  'timerCard.hint': 'Follows its remaining time. Long press for more options.',
+  'timerCard.moreOptions': 'More options',
+  'timerCard.overall': '{percent} overall',
+  'timerCard.progress': '{name} progress',
+  'timerCard.dismissAlarmFor': 'Dismiss {name} alarm',
+  'timerCard.dismissAlarm': 'Dismiss alarm',
+  'timerCard.start': 'Start {name} timer',
+  'timerCard.resume': 'Resume {name} timer',
+  'timerCard.pause': 'Pause {name} timer',
+  'timerCard.recordLap': 'Record a lap on {name}',
+  'timerCard.stop': 'Stop {name}',
+  'timerCard.reset': 'Reset {name} timer',
+  'timerCard.moreOptionsFor': 'More options for {name}',
+
+  // Deep link and not-found screens
+  'links.failedTitle': "Couldn't open that link",
+  'links.goToTimers': 'Go to timers',
+  'notFound.title': 'Oops!',
+  'notFound.message': "This screen doesn't exist.",
+  'notFound.home': 'Go to home screen!',
+
+  // Timers screen
+  'timers.presetSaved': 'Preset saved',
+  'timers.presetSavedMessage': '{name} is in your presets.',
+  'timers.emptyTitle': 'No timers found',
+  'timers.emptyMessage': 'Add a new timer to get started.',
+  'timers.runningNow': 'Running now',
+  'timers.noMatches': 'No timers match',
+  'timers.categorySpoken': '{name}, {count} running, {time} left',
+  'timers.categorySummary': '{count} running · {time} left',
+  'timers.startCategory': 'Start timers in {name}',
+  'timers.pauseCategory': 'Pause timers in {name}',
+  'timers.restartCategory': 'Restart finished timers in {name}',
+  'timers.resetCategory': 'Reset timers in {name}',
+  'timers.categorySettings': '{name} settings',
+  'timers.emptyCategory': 'No timers in this category',
+  'timers.allPinned': 'All running, pinned above',
+  'timers.add': 'Add timer',
+  'timers.editTitle': 'Edit Timer',
+  'timers.addTitle': 'Add New Timer',
+  'timers.addSubmit': 'Add Timer',
+  'timers.menu.edit': 'Edit',
+  'timers.menu.duplicate': 'Duplicate',
+  'timers.menu.saveAsPreset': 'Save as preset',
+  'timers.deleted': 'Deleted "{name}"',
+  'timers.undo': 'Undo',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,486 @@
+import { MessageKey } from '@/i18n/locales/en';
+import { Message } from '@/i18n/types';
+
+export const es: Record<MessageKey, Message> = {
+  // Durations and relative times
+  'duration.hours': { one: '{count} hora', other: '{count} horas' },
+  'duration.minutes': { one: '{count} minuto', other: '{count} minutos' },
+  'duration.seconds': { one: '{count} segundo', other: '{count} segundos' },
+  'duration.join': '{first} {second}',
+  'relative.now': 'ahora mismo',
+  'relative.minutesAgo': {
+    one: 'hace {count} minuto',
+    other: 'hace {count} minutos',
+  },
+  'relative.hoursAgo': {
+    one: 'hace {count} hora',
+    other: 'hace {count} horas',
+  },
+  'relative.daysAgo': { one: 'hace {count} día', other: 'hace {count} días' },
+  'relative.inMinutes': {
+    one: 'dentro de {count} minuto',
+    other: 'dentro de {count} minutos',
+  },
+  'relative.inHours': {
+    one: 'dentro de {count} hora',
+    other: 'dentro de {count} horas',
+  },
+  'relative.inDays': {
+    one: 'dentro de {count} día',
+    other: 'dentro de {count} días',
+  },
+
+  // Screen reader descriptions
+  'a11y.timerRemaining': '{name}, {status}, quedan {time}',
+  'a11y.timerElapsed': '{name}, {status}, {time} transcurridos',
+  'a11y.status.idle': 'sin empezar',
+  'a11y.status.running': 'en marcha',
+  'a11y.status.paused': 'en pausa',
+  'a11y.status.completed': 'terminado',
+  'a11y.remainingAnnouncement': '{name}: quedan {time}',
+
+  // Alert checkpoints
+  'alerts.errors.empty': 'Escribe un porcentaje o el tiempo restante',
+  'alerts.errors.percentRange': 'El porcentaje debe estar entre 0 y 100',
+  'alerts.errors.format': 'Usa 50% o un tiempo como 5m',
+  'alerts.remainingMessage': 'Quedan {time} en {name}',
+  'alerts.halfwayMessage': '¡{name} va por la mitad!',
+  'alerts.percentMessage': '{name} está al {percent} %',
+  'alerts.halfwayTitle': '¡A mitad de camino!',
+  'alerts.checkpointTitle': 'Aviso del temporizador',
+
+  // Routines, intervals and stopwatches
+  'routines.stepDoneTitle': '{step} terminado ✅',
+  'routines.upNextMessage': '{name}: ahora, {step}',
+  'intervals.phase.work': 'Concentración',
+  'intervals.phase.shortBreak': 'Pausa corta',
+  'intervals.phase.longBreak': 'Pausa larga',
+  'intervals.focusDoneTitle': 'Ronda de concentración terminada 🍅',
+  'intervals.breakOverTitle': 'Se acabó la pausa',
+  'intervals.next.work': '{name}: hora de concentrarse',
+  'intervals.next.shortBreak': '{name}: toma una pausa corta',
+  'intervals.next.longBreak': '{name}: toma una pausa larga',
+  'stopwatch.targetReachedTitle': 'Objetivo alcanzado 🎯',
+  'stopwatch.targetReachedMessage': '{name} lleva {time} en marcha',
+
+  // Shared
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.delete': 'Eliminar',
+  'common.reset': 'Reiniciar',
+  'common.close': 'Cerrar',
+  'common.orList': '{items} o {last}',
+  'common.listSeparator': ', ',
+  'categories.uncategorized': 'Sin categoría',
+
+  // Schedules
+  'schedule.errors.clock': 'Usa una hora de 24 horas, como 07:00',
+  'schedule.errors.startTime': 'Usa una hora como 07:00 o 2024-05-01 07:00',
+  'schedule.errors.invalidDate': 'No es una fecha válida',
+  'schedule.errors.past': 'Elige un momento futuro',
+  'schedule.once': 'Una vez',
+  'schedule.daily': 'Cada día a las {time}',
+  'schedule.weekdays': 'Entre semana a las {time}',
+  'schedule.weekends': 'Fines de semana a las {time}',
+  'schedule.onDays': '{days} a las {time}',
+  'schedule.everyHours': {
+    one: 'Cada hora desde las {time}',
+    other: 'Cada {count} horas desde las {time}',
+  },
+  'schedule.todayAt': 'Hoy {time}',
+  'schedule.tomorrowAt': 'Mañana {time}',
+  'schedule.dayAt': '{day} {time}',
+  'schedule.startedTitle': 'Inicio programado ⏰',
+  'schedule.startedMessage': '{name} ha empezado',
+
+  // Templates
+  'templates.starter.tea': 'Té',
+  'templates.starter.kitchen': 'Cocina',
+  'templates.starter.standup': 'Reunión diaria',
+  'templates.starter.work': 'Trabajo',
+  'templates.starter.wrapUp': 'Hora de ir cerrando',
+  'templates.starter.plank': 'Plancha',
+  'templates.starter.fitness': 'Ejercicio',
+  'templates.stopwatch': 'Cronómetro',
+  'templates.stopwatchTarget': 'Cronómetro · objetivo {time}',
+  'templates.routine': {
+    one: '{count} paso · {time}',
+    other: '{count} pasos · {time}',
+  },
+  'templates.interval': 'Concentración {work} · pausa {rest}',
+
+  // Timer list sorting and filters
+  'timerList.sort.created': 'Creación',
+  'timerList.sort.remaining': 'Tiempo restante',
+  'timerList.sort.name': 'Nombre',
+  'timerList.sort.recent': 'Uso reciente',
+  'timerList.status.all': 'Todos',
+  'timerList.status.running': 'En marcha',
+  'timerList.status.paused': 'En pausa',
+  'timerList.status.completed': 'Terminados',
+  'timerList.status.idle': 'Sin empezar',
+
+  // History days
+  'history.today': 'Hoy',
+  'history.yesterday': 'Ayer',
+
+  // Notifications
+  'notifications.timerCompleteTitle': '¡Temporizador terminado! 🎉',
+  'notifications.routineCompleteTitle': '¡Rutina terminada! 🎉',
+  'notifications.finishedMessage': '¡{name} ha terminado!',
+
+  // Alert profiles
+  'alertProfile.sound.none': 'Silencio',
+  'alertProfile.sound.chime': 'Campanilla',
+  'alertProfile.sound.beep': 'Pitido',
+  'alertProfile.sound.bell': 'Campana',
+  'alertProfile.haptic.none': 'No',
+  'alertProfile.haptic.light': 'Suave',
+  'alertProfile.haptic.heavy': 'Fuerte',
+  'alertProfile.haptic.success': 'Éxito',
+  'alertProfile.haptic.pulse': 'Pulso',
+
+  // Import and duration input errors
+  'import.errors.json': 'El archivo no es un JSON válido.',
+  'import.errors.format': 'El archivo no es una exportación de temporizadores.',
+  'import.errors.newerVersion':
+    'La exportación se hizo con una versión más reciente de la app.',
+  'duration.errors.empty': 'Escribe una duración',
+  'duration.errors.format': 'Usa un formato como 90s, 25:00, 1h30m o 2.5 min',
+  'duration.errors.zero': 'La duración debe ser mayor que cero',
+  'duration.errors.tooLong': 'La duración debe ser inferior a 100 horas',
+
+  // Deep links
+  'links.errors.missingName':
+    'El enlace necesita el nombre de un temporizador, como ?name=Té.',
+  'links.errors.missingDuration':
+    'El enlace necesita una duración, como &duration=3m.',
+  'links.errors.badDuration': '"{value}" no es una duración. {reason}.',
+  'links.errors.timerAction':
+    'Los enlaces de temporizador pueden usar {actions}, no "{action}".',
+  'links.errors.timerMissing':
+    'Ese temporizador ya no existe. Puede que se haya eliminado.',
+  'links.errors.categoryAction':
+    'Los enlaces de categoría pueden usar {actions}, no "{action}".',
+  'links.errors.categoryMissing': 'No hay ninguna categoría llamada "{name}".',
+  'links.timerStarted': 'Temporizador iniciado',
+  'links.timerStartedMessage': '{name} está en marcha.',
+  'links.timerPaused': 'Temporizador en pausa',
+  'links.timerPausedMessage': '{name} está en pausa.',
+  'links.resetTimerTitle': '¿Reiniciar {name}?',
+  'links.resetTimerMessage':
+    'La ejecución actual termina y vuelve al principio.',
+  'links.deleteTimerTitle': '¿Eliminar {name}?',
+  'links.deleteTimerMessage':
+    'Se elimina el temporizador; su historial se conserva.',
+  'links.categoryStarted': 'Categoría iniciada',
+  'links.categoryStartedMessage':
+    'Los temporizadores sin empezar o en pausa de {name} están en marcha.',
+  'links.categoryPaused': 'Categoría en pausa',
+  'links.categoryPausedMessage':
+    'Los temporizadores en marcha de {name} están en pausa.',
+  'links.categoryRestarted': 'Categoría reiniciada',
+  'links.categoryRestartedMessage':
+    'Los temporizadores terminados de {name} han vuelto a empezar.',
+  'links.resetCategoryTitle': '¿Reiniciar todos los temporizadores de {name}?',
+  'links.resetCategoryMessage':
+    'Sus ejecuciones actuales terminan y vuelven al principio.',
+  'links.timerAdded': 'Temporizador añadido',
+  'links.timerAddedMessage': '{name} está listo en {category}.',
+
+  // Keyboard shortcut hints
+  'shortcuts.toggle': 'iniciar/pausar',
+  'shortcuts.newTimer': 'nuevo temporizador',
+  'shortcuts.move': 'moverse',
+  'shortcuts.search': 'buscar',
+  'shortcuts.clear': 'quitar selección',
+
+  // Navigation and header menus
+  'tabs.timers': 'Temporizadores',
+  'tabs.timersHeader': 'Mis temporizadores',
+  'tabs.history': 'Historial',
+  'tabs.historyHeader': 'Historial de temporizadores',
+  'tabs.stats': 'Estadísticas',
+  'tabs.statsHeader': 'Estadísticas',
+  'appearance.title': 'Apariencia',
+  'appearance.system': 'Como el sistema',
+  'appearance.light': 'Claro',
+  'appearance.dark': 'Oscuro',
+  'appearance.reduceMotion': 'Reducir movimiento',
+  'language.title': 'Idioma',
+  'language.system': 'Como el sistema',
+  'language.restartTitle': 'Reinicia para terminar',
+  'language.restartMessage':
+    'Cierra y vuelve a abrir la app para cambiar la dirección del texto.',
+  'controls.pauseAll': 'Pausar todo',
+  'controls.resumeAll': 'Reanudar todo',
+  'controls.resetDone': 'Reiniciar terminados',
+  'timerList.searchPlaceholder': 'Buscar temporizadores o categorías',
+  'timerList.clearSearch': 'Borrar búsqueda',
+  'timerList.show': 'Mostrar',
+  'timerList.sort': 'Ordenar',
+  'reorder.label': 'Reordenar {name}',
+  'reorder.hint': 'Usa las acciones para subirlo o bajarlo.',
+  'reorder.moveUp': 'Subir',
+  'reorder.moveDown': 'Bajar',
+
+  // Statistics
+  'stats.emptyTitle': 'Aún no hay estadísticas',
+  'stats.emptyMessage': 'Usa algunos temporizadores para ver aquí tus totales',
+  'stats.minutesTimed': {
+    one: 'minuto cronometrado',
+    other: 'minutos cronometrados',
+  },
+  'stats.streak': {
+    one: 'día seguido · récord {best}',
+    other: 'días seguidos · récord {best}',
+  },
+  'stats.focusTitle': 'Tiempo de concentración',
+  'stats.focusSummary': {
+    one: '{minutes} en {count} ronda de intervalos completada',
+    other: '{minutes} en {count} rondas de intervalos completadas',
+  },
+  'stats.completionsThisWeek': 'Completados esta semana',
+  'stats.completionsPerWeek': 'Completados por semana',
+  'stats.minutesByCategory': 'Minutos por categoría',
+  'stats.categoryMinutes': '{count} min',
+  'stats.outcomes': 'Resultados',
+  'stats.outcomeSummary': {
+    one: '{completed} completados · {reset} reiniciados · {count} eliminado a medias',
+    other:
+      '{completed} completados · {reset} reiniciados · {count} eliminados a medias',
+  },
+  'stats.busiestTitle': 'Hora con más actividad',
+  'stats.busiestEmpty': 'Aún no hay temporizadores completados',
+  'stats.busiestHour': 'La mayoría de temporizadores terminan hacia las {hour}',
+
+  // History screen
+  'history.outcome.completed': 'Completado',
+  'history.outcome.reset': 'Reiniciado',
+  'history.outcome.deleted': 'Eliminado',
+  'history.range.all': 'Todo',
+  'history.range.today': 'Hoy',
+  'history.range.week': '7 días',
+  'history.range.month': '30 días',
+  'history.clearTitle': '¿Borrar el historial?',
+  'history.clearMessage':
+    'Se eliminan todas las entradas del historial y no se puede deshacer.',
+  'history.clear': 'Borrar',
+  'history.details.set': 'Fijado {time}',
+  'history.details.ran': 'Duró {time}',
+  'history.details.paused': 'Pausado {count}× ({time})',
+  'history.laps': {
+    one: '{count} vuelta · la más rápida {fastest}',
+    other: '{count} vueltas · la más rápida {fastest}',
+  },
+  'history.searchPlaceholder': 'Buscar temporizadores',
+  'history.noMatchesTitle': 'No hay entradas que coincidan',
+  'history.noMatchesMessage': 'Prueba con otra búsqueda o filtro',
+  'history.emptyTitle': 'Aún no hay historial',
+  'history.emptyMessage': 'Inicia algunos temporizadores para verlos aquí',
+
+  // Export and import
+  'import.menuTitle': 'Exportar / Importar',
+  'import.exportJson': 'Exportar temporizadores e historial (JSON)',
+  'import.exportCsv': 'Exportar historial (CSV)',
+  'import.importJson': 'Importar desde JSON',
+  'import.exportFailed': 'No se pudo exportar',
+  'import.importFailed': 'No se pudo importar',
+  'import.replaceTitle': '¿Reemplazar todos los datos?',
+  'import.replaceMessage':
+    'Se sobrescribirán tus temporizadores e historial actuales.',
+  'import.replace': 'Reemplazar',
+  'import.merge': 'Combinar',
+  'import.title': 'Importar datos',
+  'import.summary': '{timers}, {history} y {templates} listos para importar.',
+  'import.timers': {
+    one: '{count} temporizador',
+    other: '{count} temporizadores',
+  },
+  'import.historyEntries': {
+    one: '{count} entrada de historial',
+    other: '{count} entradas de historial',
+  },
+  'import.presets': { one: '{count} favorito', other: '{count} favoritos' },
+  'import.rowsSkipped': {
+    one: '{count} fila omitida:',
+    other: '{count} filas omitidas:',
+  },
+  'import.sharingUnavailable': 'No se puede compartir en este dispositivo',
+  'import.hint':
+    'Combinar conserva tus datos y añade registros con ids nuevos. Reemplazar lo sobrescribe todo.',
+  'import.rowError': '{section} n.º {number}: {error}',
+  'import.sectionError': '{section}: {error}',
+  'import.sections.timers': 'Temporizadores',
+  'import.sections.history': 'Historial',
+  'import.sections.categories': 'Categorías',
+  'import.sections.categoryProfiles': 'Avisos de categoría',
+  'import.sections.templates': 'Favoritos',
+  'import.recordErrors.notObject': 'no es un registro',
+  'import.recordErrors.notList': 'no es una lista',
+  'import.recordErrors.missingId': 'falta el id',
+  'import.recordErrors.missingName': 'falta el nombre',
+  'import.recordErrors.missingCategory': 'falta la categoría',
+  'import.recordErrors.missingTimerId': 'falta el id del temporizador',
+  'import.recordErrors.stopwatchDuration': 'los cronómetros no tienen duración',
+  'import.recordErrors.invalidDuration':
+    'la duración debe ser un número positivo',
+  'import.recordErrors.unknownStatus': 'estado desconocido',
+  'import.recordErrors.invalidEndDate': 'falta la fecha de fin o no es válida',
+  'import.recordErrors.unknownOutcome': 'resultado desconocido',
+  'import.recordErrors.invalidAlertProfile': 'perfil de aviso no válido',
+
+  // Category settings
+  'categorySettings.errors.empty': 'Ponle un nombre a la categoría',
+  'categorySettings.errors.exists':
+    '"{name}" ya existe; combínala con esa categoría',
+  'categorySettings.mergeTitle': '¿Combinar con {target}?',
+  'categorySettings.mergeMessage':
+    'Los temporizadores y el historial de {name} pasan a {target}.',
+  'categorySettings.merge': 'Combinar',
+  'categorySettings.deleteTitle': '¿Eliminar {name}?',
+  'categorySettings.deleteMessage':
+    'Sus temporizadores e historial pasan a {fallback}.',
+  'categorySettings.namePlaceholder': 'Nombre de la categoría',
+  'categorySettings.colour': 'Color',
+  'categorySettings.icon': 'Icono',
+  'categorySettings.alertDefaults': 'Avisos predeterminados',
+  'categorySettings.alertDefaultsHint':
+    'Sonido y vibración predeterminados para los temporizadores de esta categoría',
+  'categorySettings.useAppDefaults': 'Usar los avisos de la app',
+  'categorySettings.mergeInto': 'Combinar con',
+  'categorySettings.delete': 'Eliminar categoría',
+
+  // Alert profile editor
+  'alertProfile.soundLabel': 'Sonido',
+  'alertProfile.hapticLabel': 'Vibración',
+  'alertProfile.volumeLabel': 'Volumen',
+  'alertProfile.ringUntilDismissed': 'Alarma: sonar hasta descartarla',
+  'alertProfile.preview': 'Probar aviso',
+
+  // Timer form inputs
+  'alertCheckpoints.title': 'Avisos',
+  'alertCheckpoints.trigger': 'Cuándo avisar',
+  'alertCheckpoints.message': 'Mensaje (opcional)',
+  'alertCheckpoints.remove': 'Quitar aviso',
+  'alertCheckpoints.custom': 'Personalizado',
+  'durationInput.hours': 'h',
+  'durationInput.minutes': 'min',
+  'durationInput.seconds': 's',
+  'durationInput.placeholder': 'o escribe: 1h30m, 25:00, 90s, 2.5 min',
+  'intervals.roundsBeforeLongBreak': 'Rondas antes de la pausa larga',
+  'intervals.fewerRounds': 'Menos rondas',
+  'intervals.moreRounds': 'Más rondas',
+  'intervals.autoStartBreaks': 'Empezar las pausas automáticamente',
+  'intervals.autoStartWork': 'Empezar las rondas automáticamente',
+  'routineInput.steps': 'Pasos',
+  'routineInput.stepNumber': 'Paso {number}',
+  'routineInput.removeStep': 'Quitar paso',
+  'routineInput.stepName': 'Nombre del paso',
+  'routineInput.addStep': 'Añadir paso',
+  'routineInput.repeat': 'Repetir',
+  'routineInput.repeatLess': 'Repetir menos veces',
+  'routineInput.repeatMore': 'Repetir más veces',
+  'routineInput.repeatCount': { one: 'Una vez', other: '{count}×' },
+  'scheduleInput.once': 'Una vez',
+  'scheduleInput.daily': 'Cada día',
+  'scheduleInput.everyHours': 'Cada N horas',
+  'scheduleInput.startAt': 'Empieza a las, p. ej. 07:00 o 2024-05-01 07:00',
+  'scheduleInput.every': 'Cada',
+  'scheduleInput.fewerHours': 'Menos horas',
+  'scheduleInput.moreHours': 'Más horas',
+  'scheduleInput.hours': '{count} h',
+  'scheduleInput.at': 'A las, p. ej. 07:00',
+  'scheduleInput.from': 'Desde',
+  'scheduleInput.everyDay': 'Todos los días',
+  'scheduleInput.weekdays': 'Entre semana',
+
+  // Presets
+  'templates.title': 'Favoritos',
+  'templates.empty':
+    'Guarda un temporizador como favorito desde su menú para iniciarlo aquí con un toque.',
+  'templates.deleteTitle': '¿Eliminar {name}?',
+  'templates.deleteMessage':
+    'Los temporizadores ya iniciados desde este favorito se conservan.',
+  'templates.start': 'Iniciar el favorito {name}',
+  'templates.startHint': 'Inicia un temporizador a partir de este favorito.',
+  'templates.delete': 'Eliminar el favorito {name}',
+
+  // Timer form
+  'timerForm.kind.timer': 'Temporizador',
+  'timerForm.kind.routine': 'Rutina',
+  'timerForm.kind.interval': 'Intervalos',
+  'timerForm.kind.stopwatch': 'Cronómetro',
+  'timerForm.errors.alertTooLate': 'Debe ser menor que el temporizador',
+  'timerForm.errors.noSteps': 'Añade al menos un paso',
+  'timerForm.errors.stepName': 'Ponle nombre a este paso',
+  'timerForm.errors.noDays': 'Elige al menos un día',
+  'timerForm.errors.name': 'Ponle un nombre al temporizador',
+  'timerForm.errors.category': 'Elige una categoría',
+  'timerForm.name': 'Nombre del temporizador',
+  'timerForm.target': 'Objetivo (opcional)',
+  'timerForm.schedule': 'Empezar según un horario',
+  'timerForm.customSound': 'Sonido propio para este temporizador',
+  'timerForm.category': 'Categoría',
+  'timerForm.newCategory': 'Crea una categoría nueva',
+
+  // Timer cards
+  'timerCard.routineStep': 'Paso {number} de {total} · {name}',
+  'timerCard.routineRound': '{step} · Ronda {round}/{total}',
+  'timerCard.lap': 'Vuelta {number}',
+  'timerCard.earlierLaps': {
+    one: '+{count} vuelta anterior',
+    other: '+{count} vueltas anteriores',
+  },
+  'timerCard.phase': '{phase}, ronda {round} de {total}',
+  'timerCard.phaseShort': '{phase} · Ronda {round}/{total}',
+  'timerCard.nextStart': 'Próximo inicio {when} · {schedule}',
+  'timerCard.hint':
+    'Sigue su tiempo restante. Mantén pulsado para ver más opciones.',
+  'timerCard.moreOptions': 'Más opciones',
+  'timerCard.overall': '{percent} del total',
+  'timerCard.progress': 'Progreso de {name}',
+  'timerCard.dismissAlarmFor': 'Descartar la alarma de {name}',
+  'timerCard.dismissAlarm': 'Descartar alarma',
+  'timerCard.start': 'Iniciar el temporizador {name}',
+  'timerCard.resume': 'Reanudar el temporizador {name}',
+  'timerCard.pause': 'Pausar el temporizador {name}',
+  'timerCard.recordLap': 'Marcar una vuelta en {name}',
+  'timerCard.stop': 'Detener {name}',
+  'timerCard.reset': 'Reiniciar el temporizador {name}',
+  'timerCard.moreOptionsFor': 'Más opciones de {name}',
+
+  // Deep link and not-found screens
+  'links.failedTitle': 'No se pudo abrir el enlace',
+  'links.goToTimers': 'Ir a los temporizadores',
+  'notFound.title': '¡Vaya!',
+  'notFound.message': 'Esta pantalla no existe.',
+  'notFound.home': '¡Ir a la pantalla de inicio!',
+
+  // Timers screen
+  'timers.presetSaved': 'Favorito guardado',
+  'timers.presetSavedMessage': '{name} está en tus favoritos.',
+  'timers.emptyTitle': 'No hay temporizadores',
+  'timers.emptyMessage': 'Añade un temporizador para empezar.',
+  'timers.runningNow': 'En marcha ahora',
+  'timers.noMatches': 'Ningún temporizador coincide',
+  'timers.categorySpoken': '{name}, {count} en marcha, quedan {time}',
+  'timers.categorySummary': '{count} en marcha · quedan {time}',
+  'timers.startCategory': 'Iniciar los temporizadores de {name}',
+  'timers.pauseCategory': 'Pausar los temporizadores de {name}',
+  'timers.restartCategory':
+    'Volver a iniciar los temporizadores terminados de {name}',
+  'timers.resetCategory': 'Reiniciar los temporizadores de {name}',
+  'timers.categorySettings': 'Ajustes de {name}',
+  'timers.emptyCategory': 'No hay temporizadores en esta categoría',
+  'timers.allPinned': 'Todos en marcha, fijados arriba',
+  'timers.add': 'Añadir temporizador',
+  'timers.editTitle': 'Editar temporizador',
+  'timers.addTitle': 'Nuevo temporizador',
+  'timers.addSubmit': 'Añadir',
+  'timers.menu.edit': 'Editar',
+  'timers.menu.duplicate': 'Duplicar',
+  'timers.menu.saveAsPreset': 'Guardar como favorito',
+  'timers.deleted': 'Se eliminó "{name}"',
+  'timers.undo': 'Deshacer',
+};
@@ -0,0 +1,11 @@
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/** Forms of a message picked by the `count` parameter; `other` is required. */
+export type PluralMessage = Partial<Record<PluralCategory, string>> & {
+  other: string;
+};
+
+/** Catalog text, with `{name}` placeholders filled in by `t`. */
+export type Message = string | PluralMessage;
+
+export type TextDirection = 'ltr' | 'rtl';
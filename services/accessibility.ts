@@ -0,0 +1,14 @@
+import { AccessibilityInfo, Platform } from 'react-native';
+import { announceInLiveRegion } from '@/services/browser';
+
+/**
+ * Reads `message` out through the screen reader, if one is running.
+ * react-native-web has no announcement API, so a live region is used there.
+ */
+export const announce = (message: string) => {
+  if (Platform.OS === 'web') {
+    announceInLiveRegion(message);
+    return;
+  }
+  AccessibilityInfo.announceForAccessibility(message);
+};
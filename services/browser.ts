@@ -0,0 +1,107 @@
+import { Platform } from 'react-native';
+import { KeyPress } from '@/utils/keyboardShortcuts';
+
+// `document` is missing during static rendering as well as off the web.
+const isBrowser = Platform.OS === 'web' && typeof document !== 'undefined';
+
+export const supportsKeyboardShortcuts = isBrowser;
+
+let pageTitle: string | null = null;
+
+/** Shows `title` in the browser tab, or the page's own title when null. */
+export const setDocumentTitle = (title: string | null) => {
+  if (!isBrowser) return;
+  pageTitle ??= document.title;
+  document.title = title ?? pageTitle;
+};
+
+/**
+ * Calls `onVisible` when the page comes back into view: the tab is shown
+ * again, the window regains focus, or the page is restored from the
+ * back/forward cache. Browsers throttle or freeze intervals while hidden,
+ * so this is the moment to catch up with the clock.
+ */
+export const addPageVisibleListener = (onVisible: () => void) => {
+  if (!isBrowser) return () => {};
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') onVisible();
+  };
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  window.addEventListener('focus', onVisible);
+  window.addEventListener('pageshow', onVisible);
+  return () => {
+    document.removeEventListener('visibilitychange', handleVisibilityChange);
+    window.removeEventListener('focus', onVisible);
+    window.removeEventListener('pageshow', onVisible);
+  };
+};
+
+const getKeyTarget = (target: EventTarget | null): KeyPress['target'] => {
+  if (!(target instanceof HTMLElement)) return 'page';
+  if (
+    target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+  ) {
+    return 'text';
+  }
+  return target.closest('[role="button"], button, a') ? 'control' : 'page';
+};
+
+/**
+ * Listens for key presses on the web; the default action is suppressed
+ * when `onKeyPress` returns true. Does nothing on other platforms.
+ */
+export const addKeyPressListener = (
+  onKeyPress: (press: KeyPress) => boolean
+) => {
+  if (!isBrowser) return () => {};
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const handled = onKeyPress({
+      key: event.key,
+      ctrlKey: event.ctrlKey,
+      metaKey: event.metaKey,
+      altKey: event.altKey,
+      target: getKeyTarget(event.target),
+    });
+    if (handled) event.preventDefault();
+  };
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+};
+
+/** Scrolls the element rendered with `nativeID` into view, if it is not. */
+export const scrollIntoView = (nativeId: string) => {
+  if (!isBrowser) return;
+  document.getElementById(nativeId)?.scrollIntoView({ block: 'nearest' });
+};
+
+let liveRegion: HTMLElement | null = null;
+
+/** Puts `message` in a visually hidden polite live region for screen readers. */
+export const announceInLiveRegion = (message: string) => {
+  if (!isBrowser) return;
+  if (!liveRegion) {
+    liveRegion = document.createElement('div');
+    liveRegion.setAttribute('role', 'status');
+    liveRegion.setAttribute('aria-live', 'polite');
+    Object.assign(liveRegion.style, {
+      position: 'absolute',
+      width: '1px',
+      height: '1px',
+      overflow: 'hidden',
+      clip: 'rect(0 0 0 0)',
+      whiteSpace: 'nowrap',
+    });
+    document.body.appendChild(liveRegion);
+  }
+  liveRegion.textContent = message;
+};
+
+/** Tells the browser, and screen readers, the page's language and direction. */
+export const setDocumentLanguage = (language: string, direction: string) => {
+  if (!isBrowser) return;
+  document.documentElement.lang = language;
+  document.documentElement.dir = direction;
+};
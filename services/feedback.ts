@@ -0,0 +1,107 @@
+import { Platform } from 'react-native';
+import { Audio } from 'expo-av';
+import * as Haptics from 'expo-haptics';
+import { AlertProfile, HapticPattern, SoundChoice } from '@/types/timer';
+
+const SOUND_FILES: Record<Exclude<SoundChoice, 'none'>, number> = {
+  chime: require('@/assets/sounds/chime.wav'),
+  beep: require('@/assets/sounds/beep.wav'),
+  bell: require('@/assets/sounds/bell.wav'),
+};
+
+const ALARM_HAPTIC_INTERVAL = 1500;
+
+let alarmId = 0;
+let alarmSound: Audio.Sound | null = null;
+let alarmHaptics: ReturnType<typeof setInterval> | null = null;
+
+const playHaptic = async (pattern: HapticPattern) => {
+  if (Platform.OS === 'web') return;
+
+  switch (pattern) {
+    case 'light':
+      return Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    case 'heavy':
+      return Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    case 'success':
+      return Haptics.notificationAsync(
+        Haptics.NotificationFeedbackType.Success
+      );
+    case 'pulse':
+      for (let i = 0; i < 3; i++) {
+        await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+        await new Promise((resolve) => setTimeout(resolve, 150));
+      }
+      return;
+  }
+};
+
+// Haptics run alongside the sound rather than before it, so they are not
+// awaited; a failure is logged instead of going unhandled.
+const logHapticError = (error: unknown) =>
+  console.error('Error playing haptic feedback:', error);
+
+const loadSound = async (profile: AlertProfile, isLooping: boolean) => {
+  if (profile.sound === 'none') return null;
+  await Audio.setAudioModeAsync({ playsInSilentModeIOS: true });
+  const { sound } = await Audio.Sound.createAsync(SOUND_FILES[profile.sound], {
+    shouldPlay: true,
+    isLooping,
+    volume: profile.volume,
+  });
+  return sound;
+};
+
+/** Plays a profile's sound and haptic once, e.g. for a checkpoint. */
+export const playFeedback = async (profile: AlertProfile) => {
+  try {
+    playHaptic(profile.haptic).catch(logHapticError);
+    const sound = await loadSound(profile, false);
+    sound?.setOnPlaybackStatusUpdate((status) => {
+      if (status.isLoaded && status.didJustFinish) sound.unloadAsync();
+    });
+  } catch (error) {
+    console.error('Error playing alert feedback:', error);
+  }
+};
+
+/** Loops the profile's sound and haptic until `stopAlarm` is called. */
+export const startAlarm = async (profile: AlertProfile) => {
+  // Stopping bumps the id before it awaits anything, so the id read here
+  // already marks this call; a start or stop made meanwhile supersedes it.
+  const stopped = stopAlarm();
+  const id = alarmId;
+  await stopped;
+  if (id !== alarmId) return;
+  try {
+    playHaptic(profile.haptic).catch(logHapticError);
+    if (alarmHaptics) clearInterval(alarmHaptics);
+    alarmHaptics = setInterval(
+      () => playHaptic(profile.haptic).catch(logHapticError),
+      ALARM_HAPTIC_INTERVAL
+    );
+    const sound = await loadSound(profile, true);
+    if (id !== alarmId) {
+      await sound?.unloadAsync();
+      return;
+    }
+    alarmSound = sound;
+  } catch (error) {
+    console.error('Error starting alarm:', error);
+  }
+};
+
+export const stopAlarm = async () => {
+  alarmId++;
+  if (alarmHaptics) {
+    clearInterval(alarmHaptics);
+    alarmHaptics = null;
+  }
+  const sound = alarmSound;
+  alarmSound = null;
+  try {
+    await sound?.unloadAsync();
+  } catch (error) {
+    console.error('Error stopping alarm:', error);
+  }
+};
@@ -0,0 +1,53 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { t } from '@/i18n';
+
+const downloadOnWeb = (
+  filename: string,
+  contents: string,
+  mimeType: string
+) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Hands a generated file to the system share sheet, or downloads it when
+ * running on the web.
+ */
+export const shareTextFile = async (
+  filename: string,
+  contents: string,
+  mimeType: string
+) => {
+  if (Platform.OS === 'web') {
+    downloadOnWeb(filename, contents, mimeType);
+    return;
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(uri, contents);
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error(t('import.sharingUnavailable'));
+  }
+  await Sharing.shareAsync(uri, { mimeType, dialogTitle: filename });
+};
+
+/** Lets the user choose a file and returns its text, or null if cancelled. */
+export const pickTextFile = async (mimeType: string) => {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: mimeType,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  const asset = result.assets[0];
+  if (Platform.OS === 'web' && asset.file) return asset.file.text();
+  return FileSystem.readAsStringAsync(asset.uri);
+};
@@ -0,0 +1,23 @@
+import { I18nManager, Platform } from 'react-native';
+import { TextDirection } from '@/i18n';
+import { setDocumentLanguage } from '@/services/browser';
+
+/**
+ * Lays the app out left-to-right or right-to-left. Browsers flip the page
+ * straight away; native apps only read the setting at launch, so this
+ * returns true when the change needs a restart to show.
+ */
+export const applyLayoutDirection = (
+  language: string,
+  direction: TextDirection
+) => {
+  if (Platform.OS === 'web') {
+    setDocumentLanguage(language, direction);
+    return false;
+  }
+  const rtl = direction === 'rtl';
+  if (I18nManager.isRTL === rtl) return false;
+  I18nManager.allowRTL(rtl);
+  I18nManager.forceRTL(rtl);
+  return true;
+};
@@ -0,0 +1,36 @@
+import * as Notifications from 'expo-notifications';
+import { NotificationService } from '@/services/notifications/types';
+
+Notifications.setNotificationHandler({
+  // The in-app banners and dialogs already cover the foreground case.
+  handleNotification: async () => ({
+    shouldShowAlert: false,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+export const expoNotificationService: NotificationService = {
+  async requestPermission() {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  },
+
+  async schedule({ id, fireAt, title, body }) {
+    await Notifications.scheduleNotificationAsync({
+      identifier: id,
+      content: { title, body, sound: true },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: fireAt,
+      },
+    });
+  },
+
+  async cancel(id) {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  },
+};
@@ -0,0 +1,31 @@
+import {
+  LocalNotification,
+  NotificationService,
+} from '@/services/notifications/types';
+
+export type InMemoryNotificationService = NotificationService & {
+  scheduled: Map<string, LocalNotification>;
+};
+
+/**
+ * Records notifications instead of handing them to the OS. Used on web,
+ * where scheduled local notifications are unavailable, and in tests.
+ */
+export const createInMemoryNotificationService = (
+  permissionGranted = true
+): InMemoryNotificationService => {
+  const scheduled = new Map<string, LocalNotification>();
+
+  return {
+    scheduled,
+    async requestPermission() {
+      return permissionGranted;
+    },
+    async schedule(notification) {
+      scheduled.set(notification.id, notification);
+    },
+    async cancel(id) {
+      scheduled.delete(id);
+    },
+  };
+};
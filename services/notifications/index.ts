@@ -0,0 +1,12 @@
+import { Platform } from 'react-native';
+import { NotificationService } from '@/services/notifications/types';
+import { createInMemoryNotificationService } from '@/services/notifications/inMemoryNotificationService';
+
+export * from '@/services/notifications/types';
+export { createInMemoryNotificationService } from '@/services/notifications/inMemoryNotificationService';
+
+export const defaultNotificationService: NotificationService =
+  Platform.OS === 'web'
+    ? createInMemoryNotificationService()
+    : require('@/services/notifications/expoNotificationService')
+        .expoNotificationService;
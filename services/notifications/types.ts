@@ -0,0 +1,16 @@
+export type LocalNotification = {
+  id: string;
+  fireAt: number;
+  title: string;
+  body: string;
+};
+
+/**
+ * Schedules OS-level notifications so timer events are delivered even when
+ * the app is backgrounded or closed.
+ */
+export interface NotificationService {
+  requestPermission(): Promise<boolean>;
+  schedule(notification: LocalNotification): Promise<void>;
+  cancel(id: string): Promise<void>;
+}
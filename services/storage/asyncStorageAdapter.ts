@@ -0,0 +1,8 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { StorageAdapter } from '@/services/storage/types';
+
+export const asyncStorageAdapter: StorageAdapter = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
@@ -0,0 +1,25 @@
+import { StorageAdapter } from '@/services/storage/types';
+
+export type InMemoryStorageAdapter = StorageAdapter & {
+  data: Map<string, string>;
+};
+
+/** Keeps values in a map instead of on disk. Used in tests. */
+export const createInMemoryStorageAdapter = (
+  initial: Record<string, string> = {}
+): InMemoryStorageAdapter => {
+  const data = new Map(Object.entries(initial));
+
+  return {
+    data,
+    async getItem(key) {
+      return data.get(key) ?? null;
+    },
+    async setItem(key, value) {
+      data.set(key, value);
+    },
+    async removeItem(key) {
+      data.delete(key);
+    },
+  };
+};
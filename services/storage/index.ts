@@ -0,0 +1,7 @@
+import { StorageAdapter } from '@/services/storage/types';
+import { asyncStorageAdapter } from '@/services/storage/asyncStorageAdapter';
+
+export * from '@/services/storage/types';
+export { createInMemoryStorageAdapter } from '@/services/storage/inMemoryStorageAdapter';
+
+export const defaultStorageAdapter: StorageAdapter = asyncStorageAdapter;
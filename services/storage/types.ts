@@ -0,0 +1,9 @@
+/**
+ * Minimal key-value backend the persistence layer writes through. Matches
+ * the subset of AsyncStorage the app uses so other backends can stand in.
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
@@ -0,0 +1,275 @@
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+} from 'react';
+import { Alert, AppState, Platform } from 'react-native';
+import { Timer } from '@/types/timer';
+import { useToast } from '@/components/ToastProvider';
+import { useTimerNotifications } from '@/store/useTimerNotifications';
+import {
+  defaultNotificationService,
+  NotificationService,
+} from '@/services/notifications';
+import { defaultStorageAdapter, StorageAdapter } from '@/services/storage';
+import { getAlertMessage, getAlertTitle } from '@/utils/alerts';
+import {
+  initialTimerState,
+  TimerAction,
+  timerActions,
+  timerReducer,
+  TimerState,
+} from '@/store/timerReducer';
+import { createTimerStorage } from '@/utils/storage';
+import { resolveAlertProfile } from '@/utils/alertProfiles';
+import { isStopwatch } from '@/utils/timerEngine';
+import {
+  getCurrentRoutineStep,
+  getStepCompleteMessage,
+  getStepCompleteTitle,
+} from '@/utils/routines';
+import {
+  getPhaseCompleteMessage,
+  getPhaseCompleteTitle,
+  getPhaseTransition,
+} from '@/utils/intervals';
+import {
+  getTargetReachedMessage,
+  getTargetReachedTitle,
+  hasPassedTarget,
+} from '@/utils/stopwatch';
+import {
+  getScheduledStartMessage,
+  getScheduledStartTitle,
+} from '@/utils/schedule';
+import { playFeedback, startAlarm, stopAlarm } from '@/services/feedback';
+import { addPageVisibleListener, setDocumentTitle } from '@/services/browser';
+import { getDocumentTitle } from '@/utils/documentTitle';
+import { t } from '@/i18n';
+
+type TimerStore = {
+  state: TimerState;
+  dispatch: React.Dispatch<TimerAction>;
+};
+
+const TimerContext = createContext<TimerStore | null>(null);
+
+type TimerProviderProps = {
+  children: React.ReactNode;
+  notificationService?: NotificationService;
+  storageAdapter?: StorageAdapter;
+};
+
+export function TimerProvider({
+  children,
+  notificationService = defaultNotificationService,
+  storageAdapter = defaultStorageAdapter,
+}: TimerProviderProps) {
+  const [state, dispatch] = useReducer(timerReducer, initialTimerState);
+  const storage = useMemo(
+    () => createTimerStorage(storageAdapter),
+    [storageAdapter]
+  );
+  const previousTimers = useRef<Timer[]>([]);
+  const { showToast } = useToast();
+  useTimerNotifications(
+    state.timers,
+    state.timersVersion,
+    state.loaded,
+    notificationService
+  );
+
+  const notifyTransitions = (previous: Timer[], next: Timer[]) => {
+    const previousById = new Map(previous.map((timer) => [timer.id, timer]));
+
+    next.forEach((timer) => {
+      const before = previousById.get(timer.id);
+      if (!before) return;
+
+      const profile = resolveAlertProfile(timer, state.categories);
+
+      if (before.status !== 'completed' && timer.status === 'completed') {
+        // Stopwatches only complete when the user stops them.
+        if (isStopwatch(timer)) return;
+        const title = t('notifications.timerCompleteTitle');
+        const message = t('notifications.finishedMessage', {
+          name: timer.name,
+        });
+        if (!timer.alarmRinging) playFeedback(profile);
+        // react-native-web's Alert.alert does nothing, so the web gets a toast.
+        if (timer.alarmRinging || Platform.OS === 'web') {
+          showToast(title, message);
+        } else {
+          Alert.alert(title, message);
+        }
+        return;
+      }
+
+      if (
+        before.nextStartAt !== timer.nextStartAt &&
+        before.status !== 'running' &&
+        timer.status === 'running'
+      ) {
+        playFeedback({ ...profile, repeat: 'once' });
+        showToast(getScheduledStartTitle(), getScheduledStartMessage(timer));
+      }
+
+      const stepsBefore = before.routineProgress?.completedSteps.length ?? 0;
+      const stepsDone = timer.routineProgress?.completedSteps ?? [];
+      const advanced = stepsDone.length > stepsBefore;
+      if (advanced) {
+        const finished = stepsDone[stepsDone.length - 1];
+        const upNext = getCurrentRoutineStep(timer);
+        playFeedback({ ...profile, repeat: 'once' });
+        showToast(
+          getStepCompleteTitle(finished.name),
+          getStepCompleteMessage(timer, upNext?.name ?? timer.name)
+        );
+      }
+
+      if (
+        timer.targetTime !== undefined &&
+        !hasPassedTarget(before) &&
+        hasPassedTarget(timer)
+      ) {
+        playFeedback({ ...profile, repeat: 'once' });
+        showToast(
+          getTargetReachedTitle(),
+          getTargetReachedMessage(timer, timer.targetTime)
+        );
+      }
+
+      const transition = getPhaseTransition(before, timer);
+      if (transition) {
+        playFeedback({ ...profile, repeat: 'once' });
+        showToast(
+          getPhaseCompleteTitle(transition.from),
+          getPhaseCompleteMessage(timer, transition.to)
+        );
+      }
+
+      const alreadyTriggered =
+        advanced || transition ? [] : before.triggeredAlerts ?? [];
+      const fired = timer.alerts.filter(
+        (alert) =>
+          timer.triggeredAlerts?.includes(alert.id) &&
+          !alreadyTriggered.includes(alert.id)
+      );
+      if (fired.length > 0) playFeedback({ ...profile, repeat: 'once' });
+      fired.forEach((alert) =>
+        showToast(getAlertTitle(alert), getAlertMessage(timer, alert))
+      );
+    });
+  };
+
+  useEffect(() => {
+    const hydrate = async () => {
+      const now = Date.now();
+      const [timers, history, categories, templates, view] = await Promise.all([
+        storage.loadTimers(now),
+        storage.loadHistory(now),
+        storage.loadCategories(now),
+        storage.loadTemplates(now),
+        storage.loadViewSettings(),
+      ]);
+      dispatch({
+        type: 'hydrate',
+        timers,
+        history,
+        categories,
+        templates,
+        view,
+        now,
+      });
+    };
+    hydrate();
+  }, [storage]);
+
+  useEffect(() => {
+    const tick = () => dispatch(timerActions.tick());
+
+    let interval = setInterval(tick, 1000);
+    // Browsers throttle intervals in hidden tabs, so catch up straight away
+    // and restart the interval rather than wait for its next late tick.
+    const resume = () => {
+      tick();
+      clearInterval(interval);
+      interval = setInterval(tick, 1000);
+    };
+    const subscription = AppState.addEventListener('change', (appState) => {
+      if (appState === 'active') resume();
+    });
+    const removePageVisibleListener = addPageVisibleListener(resume);
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+      removePageVisibleListener();
+    };
+  }, []);
+
+  // Effects keyed on a version or id read the rest of the state and the
+  // latest callbacks from here rather than from the render they ran in.
+  const latest = useRef({ state, notifyTransitions });
+  latest.current = { state, notifyTransitions };
+
+  useEffect(() => {
+    if (state.loaded) {
+      latest.current.notifyTransitions(previousTimers.current, state.timers);
+    }
+    previousTimers.current = state.timers;
+  }, [state.loaded, state.timers]);
+
+  useEffect(() => {
+    if (state.loaded) storage.saveTimers(latest.current.state.timers);
+  }, [state.loaded, state.timersVersion, storage]);
+
+  useEffect(() => {
+    if (state.loaded) storage.saveHistory(state.history);
+  }, [state.loaded, state.history, storage]);
+
+  useEffect(() => {
+    if (state.loaded) storage.saveCategories(state.categories);
+  }, [state.loaded, state.categories, storage]);
+
+  useEffect(() => {
+    if (state.loaded) storage.saveTemplates(state.templates);
+  }, [state.loaded, state.templates, storage]);
+
+  useEffect(() => {
+    if (state.loaded) storage.saveViewSettings(state.view);
+  }, [state.loaded, state.view, storage]);
+
+  const documentTitle = getDocumentTitle(state.timers);
+  useEffect(() => {
+    setDocumentTitle(documentTitle);
+  }, [documentTitle]);
+
+  const ringingId = state.timers.find((timer) => timer.alarmRinging)?.id;
+  useEffect(() => {
+    const { timers, categories } = latest.current.state;
+    const ringingTimer = timers.find((timer) => timer.id === ringingId);
+    if (!ringingTimer) {
+      stopAlarm();
+      return;
+    }
+    startAlarm(resolveAlertProfile(ringingTimer, categories));
+  }, [ringingId]);
+
+  return (
+    <TimerContext.Provider value={{ state, dispatch }}>
+      {children}
+    </TimerContext.Provider>
+  );
+}
+
+export function useTimerStore() {
+  const store = useContext(TimerContext);
+  if (!store) {
+    throw new Error('useTimerStore must be used within a TimerProvider');
+  }
+  return store;
+}
@@ -0,0 +1,104 @@
+import { Timer } from '@/types/timer';
+import {
+  initialTimerState,
+  timerActions,
+  timerReducer,
+  TimerState,
+} from '@/store/timerReducer';
+
+const NOW = new Date(2024, 0, 1, 9, 0).getTime();
+
+const makeTimer = (overrides: Partial<Timer> = {}): Timer => ({
+  id: 'tea',
+  name: 'Tea',
+  duration: 60,
+  remainingTime: 60,
+  category: 'Kitchen',
+  status: 'idle',
+  alerts: [],
+  ...overrides,
+});
+
+const withTimer = (timer = makeTimer()): TimerState =>
+  timerReducer(initialTimerState, timerActions.add(timer, NOW));
+
+describe('timerReducer', () => {
+  it('adds a timer and creates its category', () => {
+    const state = withTimer();
+
+    expect(state.timers).toHaveLength(1);
+    expect(state.categories.map((category) => category.name)).toEqual([
+      'Kitchen',
+    ]);
+    expect(state.timersVersion).toBe(1);
+  });
+
+  it('counts down from the start time without bumping the version', () => {
+    const started = timerReducer(withTimer(), timerActions.start(['tea'], NOW));
+    const ticked = timerReducer(started, {
+      type: 'tick',
+      now: NOW + 20_000,
+    });
+
+    expect(ticked.timers[0].status).toBe('running');
+    expect(ticked.timers[0].remainingTime).toBe(40);
+    expect(ticked.timersVersion).toBe(started.timersVersion);
+  });
+
+  it('keeps the remaining time while paused', () => {
+    let state = timerReducer(withTimer(), timerActions.start(['tea'], NOW));
+    state = timerReducer(state, timerActions.pause(['tea'], NOW + 15_000));
+    state = timerReducer(state, { type: 'tick', now: NOW + 60_000 });
+
+    expect(state.timers[0].status).toBe('paused');
+    expect(state.timers[0].remainingTime).toBe(45);
+  });
+
+  it('completes a timer that runs out and logs it', () => {
+    const started = timerReducer(withTimer(), timerActions.start(['tea'], NOW));
+    const state = timerReducer(started, { type: 'tick', now: NOW + 61_000 });
+
+    expect(state.timers[0].status).toBe('completed');
+    expect(state.history).toHaveLength(1);
+    expect(state.history[0]).toMatchObject({
+      timerId: 'tea',
+      outcome: 'completed',
+    });
+    expect(state.timersVersion).toBe(started.timersVersion + 1);
+  });
+
+  it('logs a deletion and takes it back when the timer is restored', () => {
+    const timer = makeTimer();
+    const started = timerReducer(withTimer(timer), {
+      type: 'start',
+      timerIds: ['tea'],
+      now: NOW,
+    });
+    const deleted = timerReducer(started, {
+      type: 'delete',
+      timerId: 'tea',
+      now: NOW + 10_000,
+    });
+
+    expect(deleted.timers).toHaveLength(0);
+    expect(deleted.history.map((entry) => entry.outcome)).toEqual(['deleted']);
+
+    const restored = timerReducer(deleted, {
+      type: 'restore',
+      timer: started.timers[0],
+      index: 0,
+      now: NOW + 12_000,
+    });
+
+    expect(restored.timers.map((t) => t.id)).toEqual(['tea']);
+    expect(restored.history).toHaveLength(0);
+  });
+
+  it('ignores actions for timers that do not exist', () => {
+    const state = withTimer();
+
+    expect(
+      timerReducer(state, { type: 'delete', timerId: 'missing', now: NOW })
+    ).toBe(state);
+  });
+});
@@ -0,0 +1,78 @@
+import React from 'react';
+import { act, create, ReactTestRenderer } from 'react-test-renderer';
+import { Timer } from '@/types/timer';
+import { NotificationService } from '@/services/notifications/types';
+import { createInMemoryNotificationService } from '@/services/notifications/inMemoryNotificationService';
+import { useTimerNotifications } from '@/store/useTimerNotifications';
+import { pauseTimer, startTimer } from '@/utils/timerEngine';
+
+type HarnessProps = {
+  timers: Timer[];
+  version: number;
+  service: NotificationService;
+};
+
+function Harness({ timers, version, service }: HarnessProps) {
+  useTimerNotifications(timers, version, true, service);
+  return null;
+}
+
+const makeTimer = (): Timer => ({
+  id: 'tea',
+  name: 'Tea',
+  duration: 60,
+  remainingTime: 60,
+  category: 'Kitchen',
+  status: 'idle',
+  alerts: [],
+});
+
+/** Renders the hook and waits for its queued reconcile to finish. */
+const render = async (props: HarnessProps, renderer?: ReactTestRenderer) => {
+  let result = renderer;
+  await act(async () => {
+    if (result) {
+      result.update(<Harness {...props} />);
+    } else {
+      result = create(<Harness {...props} />);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result!;
+};
+
+describe('useTimerNotifications', () => {
+  it('schedules the completion of a running timer', async () => {
+    const service = createInMemoryNotificationService();
+    const running = startTimer(makeTimer(), Date.now());
+
+    await render({ timers: [running], version: 1, service });
+
+    expect([...service.scheduled.keys()]).toEqual(['tea:complete']);
+    expect(service.scheduled.get('tea:complete')?.fireAt).toBe(
+      running.startedAt! + 60_000
+    );
+  });
+
+  it('cancels pending notifications once the timer is paused', async () => {
+    const service = createInMemoryNotificationService();
+    const running = startTimer(makeTimer(), Date.now());
+
+    const renderer = await render({ timers: [running], version: 1, service });
+    await render(
+      { timers: [pauseTimer(running, Date.now())], version: 2, service },
+      renderer
+    );
+
+    expect(service.scheduled.size).toBe(0);
+  });
+
+  it('schedules nothing when permission is refused', async () => {
+    const service = createInMemoryNotificationService(false);
+    const running = startTimer(makeTimer(), Date.now());
+
+    await render({ timers: [running], version: 1, service });
+
+    expect(service.scheduled.size).toBe(0);
+  });
+});
@@ -0,0 +1,629 @@
+import {
+  Category,
+  HistoryEntry,
+  Timer,
+  TimerTemplate,
+  ViewSettings,
+} from '@/types/timer';
+import { resolveAlertProfile } from '@/utils/alertProfiles';
+import {
+  CategoryEdit,
+  DEFAULT_CATEGORY_NAME,
+  ensureCategories,
+  findCategoryByName,
+  mergeCategories,
+  moveToCategory,
+  reorderCategories,
+} from '@/utils/categories';
+import { createAbandonedEntry, createHistoryEntry } from '@/utils/history';
+import { ImportMode, mergeById } from '@/utils/exportImport';
+import {
+  isStopwatch,
+  migrateTimer,
+  pauseTimer,
+  recordLap,
+  resetTimer,
+  startTimer,
+  stopStopwatch,
+  syncTimers,
+} from '@/utils/timerEngine';
+import { planSchedule } from '@/utils/schedule';
+import { upsertTemplate } from '@/utils/templates';
+import { BulkAction, getBulkTargets } from '@/utils/bulkActions';
+import { DEFAULT_VIEW_SETTINGS } from '@/utils/timerList';
+
+export type TimerState = {
+  loaded: boolean;
+  timers: Timer[];
+  history: HistoryEntry[];
+  categories: Category[];
+  templates: TimerTemplate[];
+  view: ViewSettings;
+  /** Bumped on every change worth persisting; plain ticks leave it alone. */
+  timersVersion: number;
+};
+
+export type TimerEdit = Partial<
+  Pick<
+    Timer,
+    | 'name'
+    | 'duration'
+    | 'category'
+    | 'alerts'
+    | 'alertProfile'
+    | 'routine'
+    | 'interval'
+    | 'mode'
+    | 'targetTime'
+    | 'schedule'
+  >
+>;
+
+export type TimerAction =
+  | {
+      type: 'hydrate';
+      timers: Timer[];
+      history: HistoryEntry[];
+      categories: Category[];
+      templates: TimerTemplate[];
+      view: ViewSettings;
+      now: number;
+    }
+  | { type: 'add'; timer: Timer; now: number }
+  | { type: 'start'; timerIds: string[]; now: number }
+  | { type: 'pause'; timerIds: string[]; now: number }
+  | { type: 'reset'; timerIds: string[]; now: number }
+  | { type: 'restart'; timerIds: string[]; now: number }
+  | { type: 'delete'; timerId: string; now: number }
+  | { type: 'restore'; timer: Timer; index: number; now: number }
+  | { type: 'edit'; timerId: string; changes: TimerEdit; now: number }
+  | { type: 'tick'; now: number }
+  | { type: 'complete'; timerId: string; completedAt: number }
+  | { type: 'lap'; timerId: string; now: number }
+  | { type: 'dismissAlarm'; timerId: string }
+  | { type: 'deleteHistoryEntry'; entryId: string }
+  | { type: 'clearHistory' }
+  | {
+      type: 'import';
+      mode: ImportMode;
+      timers: Timer[];
+      history: HistoryEntry[];
+      categories: Category[];
+      templates: TimerTemplate[];
+      now: number;
+    }
+  | { type: 'updateCategory'; categoryId: string; changes: CategoryEdit }
+  | { type: 'mergeCategory'; sourceId: string; targetId: string }
+  | { type: 'deleteCategory'; categoryId: string; now: number }
+  | { type: 'reorderCategories'; from: number; to: number }
+  | { type: 'saveTemplate'; template: TimerTemplate }
+  | { type: 'deleteTemplate'; templateId: string }
+  | { type: 'updateView'; changes: Partial<ViewSettings> };
+
+export const initialTimerState: TimerState = {
+  loaded: false,
+  timers: [],
+  history: [],
+  categories: [],
+  templates: [],
+  view: DEFAULT_VIEW_SETTINGS,
+  timersVersion: 0,
+};
+
+export const timerActions = {
+  add: (timer: Timer, now = Date.now()): TimerAction => ({
+    type: 'add',
+    timer,
+    now,
+  }),
+  start: (timerIds: string[], now = Date.now()): TimerAction => ({
+    type: 'start',
+    timerIds,
+    now,
+  }),
+  pause: (timerIds: string[], now = Date.now()): TimerAction => ({
+    type: 'pause',
+    timerIds,
+    now,
+  }),
+  reset: (timerIds: string[], now = Date.now()): TimerAction => ({
+    type: 'reset',
+    timerIds,
+    now,
+  }),
+  restart: (timerIds: string[], now = Date.now()): TimerAction => ({
+    type: 'restart',
+    timerIds,
+    now,
+  }),
+  /** Applies a bulk action to the given timers it applies to. */
+  bulk: (
+    action: BulkAction,
+    timers: Timer[],
+    now = Date.now()
+  ): TimerAction => {
+    const timerIds = getBulkTargets(timers, action);
+    switch (action) {
+      case 'start':
+      case 'resume':
+        return { type: 'start', timerIds, now };
+      case 'pause':
+        return { type: 'pause', timerIds, now };
+      case 'reset':
+      case 'resetCompleted':
+        return { type: 'reset', timerIds, now };
+      case 'restart':
+        return { type: 'restart', timerIds, now };
+    }
+  },
+  delete: (timerId: string, now = Date.now()): TimerAction => ({
+    type: 'delete',
+    timerId,
+    now,
+  }),
+  restore: (timer: Timer, index: number, now = Date.now()): TimerAction => ({
+    type: 'restore',
+    timer,
+    index,
+    now,
+  }),
+  edit: (
+    timerId: string,
+    changes: TimerEdit,
+    now = Date.now()
+  ): TimerAction => ({
+    type: 'edit',
+    timerId,
+    changes,
+    now,
+  }),
+  tick: (now = Date.now()): TimerAction => ({ type: 'tick', now }),
+  complete: (timerId: string, completedAt = Date.now()): TimerAction => ({
+    type: 'complete',
+    timerId,
+    completedAt,
+  }),
+  lap: (timerId: string, now = Date.now()): TimerAction => ({
+    type: 'lap',
+    timerId,
+    now,
+  }),
+  dismissAlarm: (timerId: string): TimerAction => ({
+    type: 'dismissAlarm',
+    timerId,
+  }),
+  deleteHistoryEntry: (entryId: string): TimerAction => ({
+    type: 'deleteHistoryEntry',
+    entryId,
+  }),
+  clearHistory: (): TimerAction => ({ type: 'clearHistory' }),
+  import: (
+    mode: ImportMode,
+    data: {
+      timers: Timer[];
+      history: HistoryEntry[];
+      categories: Category[];
+      templates: TimerTemplate[];
+    },
+    now = Date.now()
+  ): TimerAction => ({ type: 'import', mode, ...data, now }),
+  updateCategory: (categoryId: string, changes: CategoryEdit): TimerAction => ({
+    type: 'updateCategory',
+    categoryId,
+    changes,
+  }),
+  mergeCategory: (sourceId: string, targetId: string): TimerAction => ({
+    type: 'mergeCategory',
+    sourceId,
+    targetId,
+  }),
+  deleteCategory: (categoryId: string, now = Date.now()): TimerAction => ({
+    type: 'deleteCategory',
+    categoryId,
+    now,
+  }),
+  reorderCategories: (from: number, to: number): TimerAction => ({
+    type: 'reorderCategories',
+    from,
+    to,
+  }),
+  saveTemplate: (template: TimerTemplate): TimerAction => ({
+    type: 'saveTemplate',
+    template,
+  }),
+  deleteTemplate: (templateId: string): TimerAction => ({
+    type: 'deleteTemplate',
+    templateId,
+  }),
+  updateView: (changes: Partial<ViewSettings>): TimerAction => ({
+    type: 'updateView',
+    changes,
+  }),
+};
+
+const updateTimers = (
+  state: TimerState,
+  timerIds: string[],
+  update: (timer: Timer) => Timer
+): TimerState => ({
+  ...state,
+  timers: state.timers.map((timer) =>
+    timerIds.includes(timer.id) ? update(timer) : timer
+  ),
+  timersVersion: state.timersVersion + 1,
+});
+
+/** Completed timers whose profile rings until dismissed start their alarm. */
+const ringIfAlarm = (state: TimerState, timer: Timer): Timer =>
+  resolveAlertProfile(timer, state.categories).repeat === 'untilDismissed'
+    ? { ...timer, alarmRinging: true }
+    : timer;
+
+/**
+ * Gives every timer's category an entity and spells it the way the entity
+ * does, so a timer typed into "work" joins an existing "Work".
+ */
+const withCategories = (state: TimerState, now: number): TimerState => {
+  const categories = ensureCategories(
+    state.categories,
+    state.timers.map((timer) => timer.category),
+    now
+  );
+  return {
+    ...state,
+    categories,
+    timers: state.timers.map((timer) => {
+      const name = findCategoryByName(categories, timer.category)?.name;
+      return name && name !== timer.category
+        ? { ...timer, category: name }
+        : timer;
+    }),
+  };
+};
+
+/** Moves every timer, history entry and template to another category name. */
+const renameCategory = (
+  state: TimerState,
+  from: string,
+  to: string
+): TimerState => ({
+  ...state,
+  timers: moveToCategory(state.timers, from, to),
+  history: moveToCategory(state.history, from, to),
+  templates: moveToCategory(state.templates, from, to),
+  timersVersion: state.timersVersion + 1,
+});
+
+const applySync = (
+  state: TimerState,
+  timers: Timer[],
+  now: number,
+  ring = true
+): TimerState => {
+  const { timers: result, events } = syncTimers(timers, now);
+  const synced = ring
+    ? result.map((timer, index) =>
+        timer.status === 'completed' && timers[index].status !== 'completed'
+          ? ringIfAlarm(state, timer)
+          : timer
+      )
+    : result;
+  const completions = events.flatMap((event) =>
+    event.type === 'completed' ||
+    (event.type === 'phaseCompleted' && event.phase === 'work')
+      ? [createHistoryEntry(event.timer, 'completed', event.completedAt)]
+      : []
+  );
+
+  return {
+    ...state,
+    timers: synced,
+    history:
+      completions.length > 0
+        ? [...state.history, ...completions]
+        : state.history,
+    timersVersion:
+      events.length > 0 ? state.timersVersion + 1 : state.timersVersion,
+  };
+};
+
+/** Logs runs cut short by a reset before `update` is applied to the timers. */
+const resetWithHistory = (
+  state: TimerState,
+  timerIds: string[],
+  update: (timer: Timer) => Timer,
+  now: number
+): TimerState => {
+  const abandoned = state.timers
+    .filter((timer) => timerIds.includes(timer.id))
+    .flatMap((timer) => {
+      const updated = update(timer);
+      return updated.startedAt === undefined
+        ? createAbandonedEntry(timer, 'reset', now)
+        : [];
+    });
+  const next = updateTimers(state, timerIds, update);
+  return abandoned.length > 0
+    ? { ...next, history: [...state.history, ...abandoned] }
+    : next;
+};
+
+const editTimer = (timer: Timer, changes: TimerEdit): Timer => {
+  const modeChanged =
+    (changes.mode ?? 'countdown') !== (timer.mode ?? 'countdown') ||
+    (['routine', 'interval'] as const).some(
+      (key) =>
+        key in changes &&
+        JSON.stringify(changes[key]) !== JSON.stringify(timer[key])
+    );
+  if (modeChanged) {
+    // Changing the steps or cycle, or switching type, starts over.
+    return resetTimer({
+      ...timer,
+      ...changes,
+      routineProgress: undefined,
+      intervalProgress: undefined,
+    });
+  }
+  if (timer.routine || timer.interval) {
+    // Their duration and alerts come from the current step or phase.
+    const { duration, alerts, ...rest } = changes;
+    return { ...timer, ...rest };
+  }
+
+  const edited = { ...timer, ...changes };
+  if (changes.alerts) {
+    const alertIds = changes.alerts.map((alert) => alert.id);
+    edited.triggeredAlerts = timer.triggeredAlerts?.filter((id) =>
+      alertIds.includes(id)
+    );
+  }
+  if (changes.duration === undefined || changes.duration === timer.duration) {
+    return edited;
+  }
+  return resetTimer(edited);
+};
+
+export function timerReducer(
+  state: TimerState,
+  action: TimerAction
+): TimerState {
+  switch (action.type) {
+    case 'hydrate': {
+      const hydrated = withCategories(
+        {
+          ...state,
+          loaded: true,
+          timers: action.timers,
+          history: action.history,
+          categories: action.categories,
+          templates: action.templates,
+          view: action.view,
+          timersVersion: state.timersVersion + 1,
+        },
+        action.now
+      );
+      return applySync(hydrated, hydrated.timers, action.now, false);
+    }
+    case 'add':
+      return withCategories(
+        {
+          ...state,
+          timers: [...state.timers, planSchedule(action.timer, action.now)],
+          timersVersion: state.timersVersion + 1,
+        },
+        action.now
+      );
+    case 'start':
+      return updateTimers(state, action.timerIds, (timer) =>
+        startTimer(timer, action.now)
+      );
+    case 'pause':
+      return updateTimers(state, action.timerIds, (timer) =>
+        pauseTimer(timer, action.now)
+      );
+    case 'reset':
+      return resetWithHistory(state, action.timerIds, resetTimer, action.now);
+    case 'restart':
+      // Only finished timers start over; the rest keep their current run.
+      return updateTimers(state, action.timerIds, (timer) =>
+        timer.status === 'completed'
+          ? startTimer(resetTimer(timer), action.now)
+          : timer
+      );
+    case 'delete': {
+      const timer = state.timers.find((t) => t.id === action.timerId);
+      if (!timer) return state;
+      return {
+        ...state,
+        timers: state.timers.filter((t) => t.id !== action.timerId),
+        history: [
+          ...state.history,
+          ...createAbandonedEntry(timer, 'deleted', action.now),
+        ],
+        timersVersion: state.timersVersion + 1,
+      };
+    }
+    case 'restore': {
+      if (state.timers.some((timer) => timer.id === action.timer.id)) {
+        return state;
+      }
+      const timers = [...state.timers];
+      timers.splice(action.index, 0, action.timer);
+      const deletion = [...state.history]
+        .reverse()
+        .find(
+          (entry) =>
+            entry.timerId === action.timer.id && entry.outcome === 'deleted'
+        );
+      const restored = withCategories(
+        {
+          ...state,
+          timers,
+          history: deletion
+            ? state.history.filter((entry) => entry !== deletion)
+            : state.history,
+          timersVersion: state.timersVersion + 1,
+        },
+        action.now
+      );
+      return applySync(restored, restored.timers, action.now);
+    }
+    case 'edit':
+      return withCategories(
+        resetWithHistory(
+          state,
+          [action.timerId],
+          (timer) => {
+            const edited = editTimer(timer, action.changes);
+            // A new schedule replaces whatever start was planned before.
+            return JSON.stringify(edited.schedule) !==
+              JSON.stringify(timer.schedule)
+              ? planSchedule(edited, action.now)
+              : edited;
+          },
+          action.now
+        ),
+        action.now
+      );
+    case 'tick':
+      return applySync(state, state.timers, action.now);
+    case 'complete': {
+      const timer = state.timers.find((t) => t.id === action.timerId);
+      if (!timer || timer.status === 'completed') return state;
+
+      // Stopping a stopwatch is how it finishes, so it never rings.
+      const completed = isStopwatch(timer)
+        ? stopStopwatch(timer, action.completedAt)
+        : ringIfAlarm(state, {
+            ...timer,
+            status: 'completed',
+            remainingTime: 0,
+            completedAt: action.completedAt,
+          });
+      return {
+        ...state,
+        timers: state.timers.map((t) => (t.id === timer.id ? completed : t)),
+        history: [
+          ...state.history,
+          createHistoryEntry(completed, 'completed', action.completedAt),
+        ],
+        timersVersion: state.timersVersion + 1,
+      };
+    }
+    case 'lap':
+      return updateTimers(state, [action.timerId], (timer) =>
+        recordLap(timer, action.now)
+      );
+    case 'dismissAlarm':
+      return updateTimers(state, [action.timerId], (timer) => ({
+        ...timer,
+        alarmRinging: undefined,
+      }));
+    case 'deleteHistoryEntry':
+      return {
+        ...state,
+        history: state.history.filter((entry) => entry.id !== action.entryId),
+      };
+    case 'clearHistory':
+      return { ...state, history: [] };
+    case 'import': {
+      const imported = action.timers.map((timer) =>
+        migrateTimer(timer, action.now)
+      );
+      const replace = action.mode === 'replace';
+      const merged = withCategories(
+        {
+          ...state,
+          timers: replace
+            ? mergeById([], imported)
+            : mergeById(state.timers, imported),
+          history: replace
+            ? mergeById([], action.history)
+            : mergeById(state.history, action.history),
+          categories: replace
+            ? mergeCategories([], action.categories)
+            : mergeCategories(state.categories, action.categories),
+          templates: replace
+            ? mergeById([], action.templates)
+            : mergeById(state.templates, action.templates),
+          timersVersion: state.timersVersion + 1,
+        },
+        action.now
+      );
+      return applySync(merged, merged.timers, action.now, false);
+    }
+    case 'updateCategory': {
+      const category = state.categories.find((c) => c.id === action.categoryId);
+      if (!category) return state;
+      const name = action.changes.name?.trim() || category.name;
+      // Taking another category's name is a merge, which is asked for apart.
+      const clash = findCategoryByName(state.categories, name);
+      if (clash && clash.id !== category.id) return state;
+
+      const updated: TimerState = {
+        ...state,
+        categories: state.categories.map((c) =>
+          c.id === category.id ? { ...c, ...action.changes, name } : c
+        ),
+      };
+      return name === category.name
+        ? updated
+        : renameCategory(updated, category.name, name);
+    }
+    case 'mergeCategory': {
+      const source = state.categories.find((c) => c.id === action.sourceId);
+      const target = state.categories.find((c) => c.id === action.targetId);
+      if (!source || !target || source === target) return state;
+      return renameCategory(
+        {
+          ...state,
+          categories: state.categories.filter((c) => c !== source),
+        },
+        source.name,
+        target.name
+      );
+    }
+    case 'deleteCategory': {
+      const category = state.categories.find((c) => c.id === action.categoryId);
+      if (!category) return state;
+      const inUse = state.timers.some(
+        (timer) => timer.category === category.name
+      );
+      // Its timers would only move straight back into it.
+      if (inUse && category.name === DEFAULT_CATEGORY_NAME) return state;
+      return withCategories(
+        renameCategory(
+          {
+            ...state,
+            categories: state.categories.filter((c) => c !== category),
+          },
+          category.name,
+          DEFAULT_CATEGORY_NAME
+        ),
+        action.now
+      );
+    }
+    case 'reorderCategories':
+      return {
+        ...state,
+        categories: reorderCategories(state.categories, action.from, action.to),
+      };
+    case 'saveTemplate':
+      return {
+        ...state,
+        templates: upsertTemplate(state.templates, action.template),
+      };
+    case 'deleteTemplate':
+      return {
+        ...state,
+        templates: state.templates.filter(
+          (template) => template.id !== action.templateId
+        ),
+      };
+    case 'updateView':
+      return { ...state, view: { ...state.view, ...action.changes } };
+    default:
+      return state;
+  }
+}
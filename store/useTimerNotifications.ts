@@ -0,0 +1,76 @@
+import { useEffect, useRef } from 'react';
+import { Timer } from '@/types/timer';
+import { NotificationService } from '@/services/notifications';
+import {
+  getTimerNotificationIds,
+  planTimerNotifications,
+} from '@/utils/notificationPlan';
+
+type ScheduledPlan = {
+  signature: string;
+  ids: string[];
+};
+
+/**
+ * Keeps OS notifications in step with the timers: whenever a timer starts,
+ * pauses, resets, is edited or deleted its pending notifications are
+ * cancelled and the ones it still needs are scheduled again.
+ */
+export function useTimerNotifications(
+  timers: Timer[],
+  version: number,
+  enabled: boolean,
+  service: NotificationService
+) {
+  const plans = useRef(new Map<string, ScheduledPlan>());
+  const queue = useRef(Promise.resolve());
+  const permission = useRef<Promise<boolean> | null>(null);
+  // Ticks replace the timers every second but only version bumps matter.
+  const latestTimers = useRef(timers);
+  latestTimers.current = timers;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const snapshot = latestTimers.current;
+
+    const reconcile = async () => {
+      const now = Date.now();
+      const seen = new Set<string>();
+
+      for (const timer of snapshot) {
+        seen.add(timer.id);
+        const planned = planTimerNotifications(timer, now);
+        const signature = JSON.stringify(planned);
+        const previous = plans.current.get(timer.id);
+        if (previous?.signature === signature) continue;
+
+        const stale = new Set([
+          ...(previous?.ids ?? []),
+          ...getTimerNotificationIds(timer),
+        ]);
+        await Promise.all([...stale].map((id) => service.cancel(id)));
+
+        if (planned.length > 0) {
+          permission.current ??= service.requestPermission();
+          if (await permission.current) {
+            await Promise.all(planned.map((n) => service.schedule(n)));
+          }
+        }
+        plans.current.set(timer.id, {
+          signature,
+          ids: planned.map((n) => n.id),
+        });
+      }
+
+      for (const [timerId, plan] of plans.current) {
+        if (seen.has(timerId)) continue;
+        await Promise.all(plan.ids.map((id) => service.cancel(id)));
+        plans.current.delete(timerId);
+      }
+    };
+
+    queue.current = queue.current.then(reconcile).catch((error) => {
+      console.error('Error scheduling notifications:', error);
+    });
+  }, [version, enabled, service]);
+}
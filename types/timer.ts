@@ -0,0 +1,222 @@
+export type TimerStatus = 'idle' | 'running' | 'paused' | 'completed';
+
+export type TimerMode = 'countdown' | 'stopwatch';
+
+export type Lap = {
+  number: number;
+  /** Stopwatch time when the lap was recorded. */
+  totalMs: number;
+  lapMs: number;
+};
+
+export type AlertTrigger =
+  | { type: 'percent'; percent: number }
+  | { type: 'remaining'; seconds: number };
+
+export type TimerAlert = {
+  id: string;
+  trigger: AlertTrigger;
+  message?: string;
+};
+
+export type SoundChoice = 'none' | 'chime' | 'beep' | 'bell';
+
+export type HapticPattern = 'none' | 'light' | 'heavy' | 'success' | 'pulse';
+
+export type AlertProfile = {
+  sound: SoundChoice;
+  repeat: 'once' | 'untilDismissed';
+  haptic: HapticPattern;
+  volume: number;
+};
+
+/** A group of timers. Timers and history refer to it by `name`. */
+export type Category = {
+  id: string;
+  name: string;
+  color: string;
+  /** Ionicons glyph name. */
+  icon: string;
+  /** Position of the category's section; lower comes first. */
+  order: number;
+  /** Default alert settings for the category's timers. */
+  alertProfile?: AlertProfile;
+};
+
+export type RoutineStep = {
+  id: string;
+  name: string;
+  duration: number;
+  alerts: TimerAlert[];
+};
+
+/** Steps run back to back, the whole list `repeat` times. */
+export type Routine = {
+  steps: RoutineStep[];
+  repeat: number;
+};
+
+/** How one step of a routine run went. */
+export type RoutineStepRecord = {
+  stepId: string;
+  name: string;
+  round: number;
+  duration: number;
+  activeSeconds: number;
+  totalPausedMs: number;
+  pauseCount: number;
+  startedAt: string;
+  endedAt: string;
+};
+
+export type RoutineProgress = {
+  stepIndex: number;
+  /** 1-based pass through the step list. */
+  round: number;
+  completedSteps: RoutineStepRecord[];
+};
+
+export type IntervalPhase = 'work' | 'shortBreak' | 'longBreak';
+
+/** Pomodoro-style cycle lengths, in seconds. */
+export type IntervalSettings = {
+  work: number;
+  shortBreak: number;
+  longBreak: number;
+  roundsBeforeLongBreak: number;
+  autoStartBreaks: boolean;
+  autoStartWork: boolean;
+};
+
+export type IntervalProgress = {
+  phase: IntervalPhase;
+  /** 1-based work round within the current set. */
+  round: number;
+  completedRounds: number;
+};
+
+/** Day of the week as `Date.getDay()` numbers it, 0 being Sunday. */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * When a timer starts by itself. Recurring times are local clock times;
+ * `everyHours` restarts from `hour:minute` each day.
+ */
+export type TimerSchedule =
+  | { type: 'once'; at: number }
+  | { type: 'daily'; hour: number; minute: number; days: Weekday[] }
+  | { type: 'everyHours'; hours: number; hour: number; minute: number };
+
+export type Timer = {
+  id: string;
+  name: string;
+  /** Absent on timers saved before stopwatches; those count down. */
+  mode?: TimerMode;
+  /** Countdown length in seconds; always 0 for stopwatches. */
+  duration: number;
+  remainingTime: number;
+  category: string;
+  status: TimerStatus;
+  alerts: TimerAlert[];
+  triggeredAlerts?: string[];
+  /** Overrides the category's alert profile when set. */
+  alertProfile?: AlertProfile;
+  alarmRinging?: boolean;
+  startedAt?: number;
+  pausedAt?: number;
+  accumulatedPausedMs?: number;
+  pauseCount?: number;
+  completedAt?: number;
+  /** Last time the timer was started or resumed; kept across resets. */
+  lastUsedAt?: number;
+  /**
+   * Makes the timer a routine. `duration` and `alerts` then mirror the
+   * current step, so the timer runs one step at a time.
+   */
+  routine?: Routine;
+  routineProgress?: RoutineProgress;
+  /**
+   * Makes the timer cycle through work and break phases; `duration`
+   * mirrors the current phase.
+   */
+  interval?: IntervalSettings;
+  intervalProgress?: IntervalProgress;
+  /** Soft goal for a stopwatch, in seconds; it keeps running past it. */
+  targetTime?: number;
+  /** Whole seconds a stopwatch has run, refreshed on every tick. */
+  elapsedTime?: number;
+  laps?: Lap[];
+  schedule?: TimerSchedule;
+  /** Next time the schedule starts the timer; the scheduler's stored plan. */
+  nextStartAt?: number;
+};
+
+/** A saved timer setup that new timers are created from in one tap. */
+export type TimerTemplate = Pick<
+  Timer,
+  | 'id'
+  | 'name'
+  | 'category'
+  | 'mode'
+  | 'duration'
+  | 'alerts'
+  | 'alertProfile'
+  | 'routine'
+  | 'interval'
+  | 'targetTime'
+> & {
+  /** Set on the starter presets the app ships with. */
+  builtIn?: boolean;
+};
+
+/** Order of timers within each category on the Timers screen. */
+export type SortMode = 'created' | 'remaining' | 'name' | 'recent';
+
+export type StatusFilter = TimerStatus | 'all';
+
+/** How the Timers screen was last left; restored on the next launch. */
+export type ViewSettings = {
+  sortMode: SortMode;
+  statusFilter: StatusFilter;
+  /** Ids of the categories shown open. */
+  expandedCategories: string[];
+};
+
+/** Shape of timers stored before alert checkpoints replaced the halfway flag. */
+export type LegacyTimer = Omit<Timer, 'alerts'> & {
+  alerts?: TimerAlert[];
+  halfwayAlert?: boolean;
+  halfwayAlertTriggered?: boolean;
+};
+
+export type HistoryOutcome = 'completed' | 'reset' | 'deleted';
+
+export type HistoryEntry = {
+  id: string;
+  timerId: string;
+  name: string;
+  category: string;
+  outcome: HistoryOutcome;
+  /** When the run finished, was reset or was deleted. */
+  endedAt: string;
+  startedAt?: string;
+  /** Configured length in seconds. */
+  duration?: number;
+  /** Seconds the timer actually ran, excluding pauses. */
+  activeSeconds?: number;
+  totalPausedMs?: number;
+  pauseCount?: number;
+  /** Per-step details when the entry is a routine run. */
+  steps?: RoutineStepRecord[];
+  /** Work round of an interval timer; such entries count as focus time. */
+  intervalRound?: number;
+  laps?: Lap[];
+};
+
+/** History entries as stored before the schema was versioned. */
+export type LegacyHistoryEntry = {
+  timerId: string;
+  name: string;
+  category: string;
+  completedAt: string;
+};
@@ -0,0 +1,86 @@
+import { Timer, TimerSchedule } from '@/types/timer';
+import { EVERY_DAY, getLatestOccurrence } from '@/utils/schedule';
+import { syncTimer } from '@/utils/timerEngine';
+
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2024, 0, day, hour, minute).getTime();
+
+const dailyAtSeven: TimerSchedule = {
+  type: 'daily',
+  hour: 7,
+  minute: 0,
+  days: EVERY_DAY,
+};
+
+describe('getLatestOccurrence', () => {
+  it('returns the first occurrence when it is the only one due', () => {
+    expect(getLatestOccurrence(dailyAtSeven, at(1, 7), at(1, 8))).toBe(
+      at(1, 7)
+    );
+  });
+
+  it('skips ahead to the last occurrence that is due', () => {
+    expect(getLatestOccurrence(dailyAtSeven, at(1, 7), at(4, 8))).toBe(
+      at(4, 7)
+    );
+  });
+
+  it('counts an occurrence that falls exactly on now', () => {
+    expect(getLatestOccurrence(dailyAtSeven, at(1, 7), at(3, 7))).toBe(
+      at(3, 7)
+    );
+  });
+
+  it('steps through hourly schedules', () => {
+    const everyTwoHours: TimerSchedule = {
+      type: 'everyHours',
+      hours: 2,
+      hour: 8,
+      minute: 0,
+    };
+
+    expect(getLatestOccurrence(everyTwoHours, at(1, 8), at(1, 13, 30))).toBe(
+      at(1, 12)
+    );
+  });
+
+  it('never moves past a one-off start', () => {
+    const once: TimerSchedule = { type: 'once', at: at(1, 7) };
+
+    expect(getLatestOccurrence(once, at(1, 7), at(5, 7))).toBe(at(1, 7));
+  });
+});
+
+describe('syncTimer with missed scheduled starts', () => {
+  const timer: Timer = {
+    id: 'stretch',
+    name: 'Stretch',
+    duration: 600,
+    remainingTime: 600,
+    category: 'Health',
+    status: 'idle',
+    alerts: [],
+    schedule: dailyAtSeven,
+    nextStartAt: at(1, 7),
+  };
+
+  it('runs only the latest missed start', () => {
+    const { timer: synced, events } = syncTimer(timer, at(4, 7, 5));
+
+    expect(events.map((event) => event.type)).toEqual(['scheduledStart']);
+    expect(synced.status).toBe('running');
+    expect(synced.remainingTime).toBe(300);
+    expect(synced.nextStartAt).toBe(at(5, 7));
+  });
+
+  it('completes the latest run if it has already finished', () => {
+    const { timer: synced, events } = syncTimer(timer, at(4, 8));
+
+    expect(events.map((event) => event.type)).toEqual([
+      'scheduledStart',
+      'completed',
+    ]);
+    expect(synced.status).toBe('completed');
+    expect(synced.nextStartAt).toBe(at(5, 7));
+  });
+});
@@ -0,0 +1,85 @@
+import { HistoryEntry } from '@/types/timer';
+import {
+  completionsPerDay,
+  getBusiestHour,
+  getOutcomeRates,
+  getStreaks,
+  getTotalMinutes,
+  minutesByCategory,
+} from '@/utils/stats';
+
+const at = (day: number, hour = 12) =>
+  new Date(2024, 0, day, hour).getTime();
+
+let nextId = 0;
+const entry = (
+  day: number,
+  overrides: Partial<HistoryEntry> = {}
+): HistoryEntry => ({
+  id: `entry-${nextId++}`,
+  timerId: 'tea',
+  name: 'Tea',
+  category: 'Kitchen',
+  outcome: 'completed',
+  endedAt: new Date(at(day)).toISOString(),
+  duration: 300,
+  ...overrides,
+});
+
+describe('stats', () => {
+  it('totals timed minutes per category, largest first', () => {
+    const history = [
+      entry(1),
+      entry(1, { category: 'Work', duration: 1500 }),
+      entry(2, { category: 'Work', outcome: 'reset', activeSeconds: 600 }),
+    ];
+
+    expect(minutesByCategory(history)).toEqual([
+      { key: 'Work', label: 'Work', value: 35 },
+      { key: 'Kitchen', label: 'Kitchen', value: 5 },
+    ]);
+    expect(getTotalMinutes(history)).toBe(40);
+  });
+
+  it('counts an abandoned run only for the time it actually ran', () => {
+    expect(getTotalMinutes([entry(1, { outcome: 'deleted' })])).toBe(0);
+  });
+
+  it('buckets completions by day, oldest first', () => {
+    const history = [
+      entry(3),
+      entry(3),
+      entry(5),
+      entry(5, { outcome: 'reset' }),
+    ];
+
+    expect(
+      completionsPerDay(history, 3, at(5)).map((bucket) => bucket.value)
+    ).toEqual([2, 0, 1]);
+  });
+
+  it('keeps the current streak alive until the day is over', () => {
+    const history = [entry(1), entry(2), entry(3), entry(6), entry(7)];
+
+    expect(getStreaks(history, at(8))).toEqual({ current: 2, longest: 3 });
+    expect(getStreaks(history, at(9))).toEqual({ current: 0, longest: 3 });
+  });
+
+  it('reports outcome rates', () => {
+    const rates = getOutcomeRates([
+      entry(1),
+      entry(1),
+      entry(1, { outcome: 'reset' }),
+      entry(1, { outcome: 'deleted' }),
+    ]);
+
+    expect(rates).toMatchObject({ total: 4, completed: 2, reset: 1 });
+    expect(rates.completionRate).toBe(0.5);
+    expect(rates.resetRate).toBe(0.25);
+  });
+
+  it('finds the busiest hour, or none without completions', () => {
+    expect(getBusiestHour([entry(1), entry(2)])).toBe(12);
+    expect(getBusiestHour([entry(1, { outcome: 'reset' })])).toBeNull();
+  });
+});
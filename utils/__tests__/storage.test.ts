@@ -0,0 +1,117 @@
+import { createInMemoryStorageAdapter } from '@/services/storage/inMemoryStorageAdapter';
+import { Timer } from '@/types/timer';
+import { createTimerStorage, getQuarantineKey } from '@/utils/storage';
+
+const NOW = new Date(2024, 0, 1, 9, 0).getTime();
+
+const legacyTimer = {
+  id: 'tea',
+  name: 'Tea',
+  duration: 60,
+  remainingTime: 60,
+  category: 'Kitchen',
+  status: 'idle',
+  halfwayAlert: true,
+};
+
+describe('createTimerStorage', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('migrates timers saved before the key was versioned', async () => {
+    const adapter = createInMemoryStorageAdapter({
+      timers: JSON.stringify([legacyTimer]),
+    });
+
+    const [timer] = await createTimerStorage(adapter).loadTimers(NOW);
+
+    expect(timer.id).toBe('tea');
+    expect(timer.alerts).toEqual([
+      { id: 'halfway', trigger: { type: 'percent', percent: 50 } },
+    ]);
+  });
+
+  it('migrates legacy history entries with stable ids', async () => {
+    const adapter = createInMemoryStorageAdapter({
+      timerHistory: JSON.stringify([
+        {
+          timerId: 'tea',
+          name: 'Tea',
+          category: 'Kitchen',
+          completedAt: new Date(NOW).toISOString(),
+        },
+      ]),
+    });
+
+    const history = await createTimerStorage(adapter).loadHistory(NOW);
+
+    expect(history).toEqual([
+      expect.objectContaining({
+        id: 'tea-legacy-0',
+        outcome: 'completed',
+        endedAt: new Date(NOW).toISOString(),
+      }),
+    ]);
+  });
+
+  it('writes the current version and reads it back unchanged', async () => {
+    const adapter = createInMemoryStorageAdapter();
+    const storage = createTimerStorage(adapter);
+    const timer: Timer = {
+      id: 'tea',
+      name: 'Tea',
+      mode: 'countdown',
+      duration: 60,
+      remainingTime: 60,
+      category: 'Kitchen',
+      status: 'idle',
+      alerts: [],
+    };
+
+    await storage.saveTimers([timer]);
+
+    expect(JSON.parse(adapter.data.get('timers')!).version).toBe(2);
+    expect(await storage.loadTimers(NOW)).toEqual([timer]);
+  });
+
+  it('quarantines unreadable records and keeps the rest', async () => {
+    const adapter = createInMemoryStorageAdapter({
+      timers: JSON.stringify([legacyTimer, { ...legacyTimer, name: '' }]),
+    });
+    const storage = createTimerStorage(adapter);
+
+    const timers = await storage.loadTimers(NOW);
+    const quarantined = await storage.loadQuarantine('timers');
+
+    expect(timers.map((timer) => timer.id)).toEqual(['tea']);
+    expect(quarantined).toEqual([
+      expect.objectContaining({ version: 1, error: 'missingName' }),
+    ]);
+  });
+
+  it('quarantines records written by a newer version', async () => {
+    const adapter = createInMemoryStorageAdapter({
+      timers: JSON.stringify({ version: 99, entries: [legacyTimer] }),
+    });
+    const storage = createTimerStorage(adapter);
+
+    expect(await storage.loadTimers(NOW)).toEqual([]);
+    expect(await storage.loadQuarantine('timers')).toEqual([
+      expect.objectContaining({ version: 99, record: legacyTimer }),
+    ]);
+  });
+
+  it('quarantines a key that is not valid JSON', async () => {
+    const adapter = createInMemoryStorageAdapter({ timers: '{oops' });
+
+    expect(await createTimerStorage(adapter).loadTimers(NOW)).toEqual([]);
+    expect(JSON.parse(adapter.data.get(getQuarantineKey('timers'))!)).toEqual([
+      expect.objectContaining({ record: '{oops', error: 'invalid JSON' }),
+    ]);
+  });
+});
@@ -0,0 +1,62 @@
+import { Timer } from '@/types/timer';
+import {
+  getRemainingSeconds,
+  pauseTimer,
+  resetTimer,
+  startTimer,
+  syncTimer,
+} from '@/utils/timerEngine';
+
+const NOW = new Date(2024, 0, 1, 9, 0).getTime();
+
+const makeTimer = (overrides: Partial<Timer> = {}): Timer => ({
+  id: 'tea',
+  name: 'Tea',
+  duration: 60,
+  remainingTime: 60,
+  category: 'Kitchen',
+  status: 'idle',
+  alerts: [],
+  ...overrides,
+});
+
+describe('timerEngine', () => {
+  it('derives the remaining time from the clock', () => {
+    const running = startTimer(makeTimer(), NOW);
+
+    expect(getRemainingSeconds(running, NOW + 10_500)).toBe(50);
+    expect(getRemainingSeconds(running, NOW + 90_000)).toBe(0);
+  });
+
+  it('leaves time spent paused out of the elapsed time', () => {
+    const paused = pauseTimer(startTimer(makeTimer(), NOW), NOW + 10_000);
+    const resumed = startTimer(paused, NOW + 70_000);
+
+    expect(getRemainingSeconds(paused, NOW + 70_000)).toBe(50);
+    expect(resumed.accumulatedPausedMs).toBe(60_000);
+    expect(getRemainingSeconds(resumed, NOW + 80_000)).toBe(40);
+  });
+
+  it('picks up an idle timer from the time it has left', () => {
+    const running = startTimer(makeTimer({ remainingTime: 30 }), NOW);
+
+    expect(getRemainingSeconds(running, NOW)).toBe(30);
+  });
+
+  it('completes a timer whose time ran out while it was not synced', () => {
+    const { timer, events } = syncTimer(
+      startTimer(makeTimer(), NOW),
+      NOW + 5 * 60_000
+    );
+
+    expect(timer.status).toBe('completed');
+    expect(events.map((event) => event.type)).toEqual(['completed']);
+  });
+
+  it('resets a timer to its full duration', () => {
+    const reset = resetTimer(pauseTimer(startTimer(makeTimer(), NOW), NOW));
+
+    expect(reset.status).toBe('idle');
+    expect(reset.remainingTime).toBe(60);
+  });
+});
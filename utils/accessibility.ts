@@ -0,0 +1,49 @@
+import { t } from '@/i18n';
+import { Timer } from '@/types/timer';
+import { formatDurationText } from '@/utils/format';
+
+/** Font scale from which rows stack their contents instead of squeezing. */
+export const LARGE_FONT_SCALE = 1.3;
+
+export const isLargeFontScale = (fontScale: number) =>
+  fontScale >= LARGE_FONT_SCALE;
+
+/** What a screen reader says for a timer card as a whole. */
+export const describeTimerForScreenReader = (timer: Timer) =>
+  t(timer.mode === 'stopwatch' ? 'a11y.timerElapsed' : 'a11y.timerRemaining', {
+    name: timer.name,
+    status: t(`a11y.status.${timer.status}`),
+    time: formatDurationText(
+      timer.mode === 'stopwatch' ? timer.elapsedTime ?? 0 : timer.remainingTime
+    ),
+  });
+
+/**
+ * Remaining times worth announcing: every five minutes, each of the last
+ * five minutes, then 30 and 10 seconds before the end.
+ */
+const isAnnouncementPoint = (seconds: number) =>
+  seconds > 0 &&
+  (seconds % 300 === 0 ||
+    (seconds <= 300 && seconds % 60 === 0) ||
+    seconds === 30 ||
+    seconds === 10);
+
+/**
+ * Whether the countdown passed an announcement point going from `previous`
+ * to `current` seconds left. A long jump, such as catching up after the app
+ * was in the background, only counts if it lands close to a point.
+ */
+export const shouldAnnounceRemaining = (previous: number, current: number) => {
+  for (let seconds = current; seconds < previous; seconds++) {
+    if (seconds - current > 5) return false;
+    if (isAnnouncementPoint(seconds)) return true;
+  }
+  return false;
+};
+
+export const getRemainingAnnouncement = (timer: Timer) =>
+  t('a11y.remainingAnnouncement', {
+    name: timer.name,
+    time: formatDurationText(timer.remainingTime),
+  });
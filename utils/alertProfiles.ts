@@ -0,0 +1,45 @@
+import { MessageKey } from '@/i18n';
+import {
+  AlertProfile,
+  Category,
+  HapticPattern,
+  SoundChoice,
+  Timer,
+} from '@/types/timer';
+import { findCategoryByName } from '@/utils/categories';
+
+/** Per-category defaults as stored before categories were entities. */
+export type CategoryProfiles = Record<string, AlertProfile>;
+
+export const DEFAULT_ALERT_PROFILE: AlertProfile = {
+  sound: 'chime',
+  repeat: 'once',
+  haptic: 'success',
+  volume: 1,
+};
+
+export const SOUND_OPTIONS: { value: SoundChoice; label: MessageKey }[] = [
+  { value: 'none', label: 'alertProfile.sound.none' },
+  { value: 'chime', label: 'alertProfile.sound.chime' },
+  { value: 'beep', label: 'alertProfile.sound.beep' },
+  { value: 'bell', label: 'alertProfile.sound.bell' },
+];
+
+export const HAPTIC_OPTIONS: { value: HapticPattern; label: MessageKey }[] = [
+  { value: 'none', label: 'alertProfile.haptic.none' },
+  { value: 'light', label: 'alertProfile.haptic.light' },
+  { value: 'heavy', label: 'alertProfile.haptic.heavy' },
+  { value: 'success', label: 'alertProfile.haptic.success' },
+  { value: 'pulse', label: 'alertProfile.haptic.pulse' },
+];
+
+export const VOLUME_OPTIONS = [0.25, 0.5, 0.75, 1];
+
+/** Timer override first, then the category default, then the app default. */
+export const resolveAlertProfile = (
+  timer: Timer,
+  categories: Category[]
+): AlertProfile =>
+  timer.alertProfile ??
+  findCategoryByName(categories, timer.category)?.alertProfile ??
+  DEFAULT_ALERT_PROFILE;
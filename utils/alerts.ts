@@ -0,0 +1,71 @@
+import { t } from '@/i18n';
+import { AlertTrigger, Timer, TimerAlert } from '@/types/timer';
+import { formatDurationInput, parseDuration } from '@/utils/duration';
+import { formatTime } from '@/utils/format';
+
+export type AlertTriggerParseResult =
+  | { ok: true; trigger: AlertTrigger }
+  | { ok: false; error: string };
+
+/** Elapsed milliseconds at which a checkpoint fires for the given timer. */
+export const getAlertOffsetMs = (alert: TimerAlert, duration: number) => {
+  const durationMs = duration * 1000;
+  return alert.trigger.type === 'percent'
+    ? (durationMs * alert.trigger.percent) / 100
+    : durationMs - alert.trigger.seconds * 1000;
+};
+
+/**
+ * Reads "25%" as a percentage checkpoint and anything `parseDuration`
+ * understands ("5m", "5 minutes left", "0:30") as time remaining.
+ */
+export const parseAlertTrigger = (input: string): AlertTriggerParseResult => {
+  const normalized = input.trim().toLowerCase();
+  if (!normalized) return { ok: false, error: t('alerts.errors.empty') };
+
+  if (normalized.endsWith('%')) {
+    const percent = parseFloat(normalized.slice(0, -1));
+    if (isNaN(percent) || percent <= 0 || percent >= 100) {
+      return { ok: false, error: t('alerts.errors.percentRange') };
+    }
+    return { ok: true, trigger: { type: 'percent', percent } };
+  }
+
+  const duration = parseDuration(normalized.replace(/\s*left$/, ''));
+  if (!duration.ok) return { ok: false, error: t('alerts.errors.format') };
+  return {
+    ok: true,
+    trigger: { type: 'remaining', seconds: duration.seconds },
+  };
+};
+
+/**
+ * Writes a trigger back in the "25%" / "5m" syntax `parseAlertTrigger`
+ * reads. It is not localized, so drafts parse in every language.
+ */
+export const formatAlertTrigger = (trigger: AlertTrigger) =>
+  trigger.type === 'percent'
+    ? `${trigger.percent}%`
+    : formatDurationInput(trigger.seconds);
+
+export const getAlertMessage = (timer: Timer, alert: TimerAlert) => {
+  if (alert.message) return alert.message;
+  if (alert.trigger.type === 'remaining') {
+    return t('alerts.remainingMessage', {
+      name: timer.name,
+      time: formatTime(alert.trigger.seconds),
+    });
+  }
+  if (alert.trigger.percent === 50) {
+    return t('alerts.halfwayMessage', { name: timer.name });
+  }
+  return t('alerts.percentMessage', {
+    name: timer.name,
+    percent: alert.trigger.percent,
+  });
+};
+
+export const getAlertTitle = (alert: TimerAlert) =>
+  alert.trigger.type === 'percent' && alert.trigger.percent === 50
+    ? t('alerts.halfwayTitle')
+    : t('alerts.checkpointTitle');
@@ -0,0 +1,77 @@
+import { Timer, TimerStatus } from '@/types/timer';
+import {
+  getRoutineCompletedSeconds,
+  getRoutineTotalSeconds,
+} from '@/utils/routines';
+import { isStopwatch } from '@/utils/timerEngine';
+
+export type BulkAction =
+  | 'start'
+  | 'resume'
+  | 'pause'
+  | 'reset'
+  | 'restart'
+  | 'resetCompleted';
+
+/** Statuses each bulk action applies to; other timers are left alone. */
+const BULK_TARGETS: Record<BulkAction, TimerStatus[]> = {
+  start: ['idle', 'paused'],
+  resume: ['paused'],
+  pause: ['running'],
+  reset: ['idle', 'running', 'paused', 'completed'],
+  restart: ['completed'],
+  resetCompleted: ['completed'],
+};
+
+export const getBulkTargets = (timers: Timer[], action: BulkAction) =>
+  timers
+    .filter((timer) => BULK_TARGETS[action].includes(timer.status))
+    .map((timer) => timer.id);
+
+/** Seconds a countdown lasts and has left, across every step of a routine. */
+const getCountdownSpan = (timer: Timer) => {
+  if (timer.routine) {
+    const total = getRoutineTotalSeconds(timer.routine);
+    const done =
+      timer.status === 'completed'
+        ? total
+        : getRoutineCompletedSeconds(timer) +
+          timer.duration -
+          timer.remainingTime;
+    return { total, remaining: total - done };
+  }
+  return {
+    total: timer.duration,
+    remaining: timer.status === 'completed' ? 0 : timer.remainingTime,
+  };
+};
+
+export type TimerSummary = {
+  running: number;
+  paused: number;
+  completed: number;
+  /** Countdown seconds still to go; stopwatches have no end to count. */
+  remainingSeconds: number;
+  /** Share of all countdown time already run, from 0 to 1. */
+  progress: number;
+};
+
+export const summarizeTimers = (timers: Timer[]): TimerSummary => {
+  let total = 0;
+  let remaining = 0;
+  timers.forEach((timer) => {
+    if (isStopwatch(timer)) return;
+    const span = getCountdownSpan(timer);
+    total += span.total;
+    remaining += span.remaining;
+  });
+  const count = (status: TimerStatus) =>
+    timers.filter((timer) => timer.status === status).length;
+  return {
+    running: count('running'),
+    paused: count('paused'),
+    completed: count('completed'),
+    remainingSeconds: remaining,
+    progress: total > 0 ? 1 - remaining / total : 0,
+  };
+};
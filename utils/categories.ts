@@ -0,0 +1,152 @@
+import { t } from '@/i18n';
+import { AlertProfile, Category } from '@/types/timer';
+
+/**
+ * Where timers go when their category is deleted. Stored as is, whatever
+ * the language; `getCategoryLabel` translates it for display.
+ */
+export const DEFAULT_CATEGORY_NAME = 'Uncategorized';
+
+export const getCategoryLabel = (name: string) =>
+  name === DEFAULT_CATEGORY_NAME ? t('categories.uncategorized') : name;
+
+export const CATEGORY_COLORS = [
+  '#007AFF',
+  '#10B981',
+  '#F59E0B',
+  '#EF4444',
+  '#8B5CF6',
+  '#EC4899',
+  '#14B8A6',
+  '#6B7280',
+];
+
+export const CATEGORY_ICONS = [
+  'folder-outline',
+  'briefcase-outline',
+  'book-outline',
+  'barbell-outline',
+  'cafe-outline',
+  'restaurant-outline',
+  'home-outline',
+  'code-slash-outline',
+  'musical-notes-outline',
+  'leaf-outline',
+];
+
+export type CategoryEdit = Partial<
+  Pick<Category, 'name' | 'color' | 'icon' | 'alertProfile'>
+>;
+
+const normalizeName = (name: string) => name.trim().toLocaleLowerCase();
+
+/** Category names are unique regardless of case and surrounding spaces. */
+export const findCategoryByName = (categories: Category[], name: string) =>
+  categories.find(
+    (category) => normalizeName(category.name) === normalizeName(name)
+  );
+
+export const sortCategories = (categories: Category[]) =>
+  [...categories].sort((a, b) => a.order - b.order);
+
+const nextOrder = (categories: Category[]) =>
+  categories.reduce((max, category) => Math.max(max, category.order + 1), 0);
+
+/** A new category at the end of the list, with the next unused colour. */
+export const createCategory = (
+  name: string,
+  existing: Category[],
+  now: number
+): Category => ({
+  id: `category-${now.toString(36)}-${existing.length}`,
+  name: name.trim(),
+  color: CATEGORY_COLORS[existing.length % CATEGORY_COLORS.length],
+  icon: CATEGORY_ICONS[0],
+  order: nextOrder(existing),
+});
+
+/** Adds a category for every name that does not have one yet. */
+export const ensureCategories = (
+  categories: Category[],
+  names: string[],
+  now: number
+) =>
+  names.reduce(
+    (result, name) =>
+      !name.trim() || findCategoryByName(result, name)
+        ? result
+        : [...result, createCategory(name, result, now)],
+    categories
+  );
+
+/** Adds incoming categories with new names after the existing ones. */
+export const mergeCategories = (existing: Category[], incoming: Category[]) =>
+  sortCategories(incoming).reduce(
+    (result, category) =>
+      findCategoryByName(result, category.name)
+        ? result
+        : [
+            ...result,
+            {
+              ...category,
+              id: result.some((c) => c.id === category.id)
+                ? `${category.id}-${result.length}`
+                : category.id,
+              order: nextOrder(result),
+            },
+          ],
+    existing
+  );
+
+/** Rewrites the category name on timers or history entries. */
+export const moveToCategory = <T extends { category: string }>(
+  records: T[],
+  from: string,
+  to: string
+) =>
+  records.some((record) => record.category === from)
+    ? records.map((record) =>
+        record.category === from ? { ...record, category: to } : record
+      )
+    : records;
+
+/** Moves one category to a new position and renumbers the rest. */
+export const reorderCategories = (
+  categories: Category[],
+  from: number,
+  to: number
+) => {
+  const sorted = sortCategories(categories);
+  const [moved] = sorted.splice(from, 1);
+  if (!moved) return categories;
+  sorted.splice(to, 0, moved);
+  return sorted.map((category, order) => ({ ...category, order }));
+};
+
+/** Existing categories whose name contains the query, best matches first. */
+export const suggestCategories = (categories: Category[], query: string) => {
+  const normalized = normalizeName(query);
+  return sortCategories(categories)
+    .filter((category) => {
+      const name = normalizeName(category.name);
+      return name !== normalized && name.includes(normalized);
+    })
+    .sort(
+      (a, b) =>
+        Number(!normalizeName(a.name).startsWith(normalized)) -
+        Number(!normalizeName(b.name).startsWith(normalized))
+    );
+};
+
+/** Categories for a name -> alert profile map, as stored before categories. */
+export const categoriesFromProfiles = (
+  profiles: Record<string, AlertProfile>,
+  now: number
+) =>
+  Object.entries(profiles).reduce<Category[]>(
+    (result, [name, alertProfile]) => [
+      ...result,
+      { ...createCategory(name, result, now), alertProfile },
+    ],
+    []
+  );
@@ -0,0 +1,23 @@
+import { Alert, Platform } from 'react-native';
+import { t } from '@/i18n';
+
+/**
+ * Asks before a destructive action. Alert buttons are not supported by
+ * react-native-web, so the browser's confirm dialog is used there.
+ */
+export const confirmAction = (
+  title: string,
+  message: string,
+  confirmLabel: string,
+  onConfirm: () => void
+) => {
+  if (Platform.OS === 'web') {
+    if (window.confirm(`${title}\n\n${message}`)) onConfirm();
+    return;
+  }
+
+  Alert.alert(title, message, [
+    { text: t('common.cancel'), style: 'cancel' },
+    { text: confirmLabel, style: 'destructive', onPress: onConfirm },
+  ]);
+};
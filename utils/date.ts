@@ -0,0 +1,29 @@
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+/** Monday-based start of the week containing `time`, in local time. */
+export const startOfWeek = (time: number) => {
+  const dayStart = new Date(startOfDay(time));
+  const daysSinceMonday = (dayStart.getDay() + 6) % 7;
+  dayStart.setDate(dayStart.getDate() - daysSinceMonday);
+  return dayStart.getTime();
+};
+
+/** Shifts a local day start by whole days, staying on midnight across DST. */
+export const addDays = (dayStart: number, days: number) => {
+  const date = new Date(dayStart);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+};
+
+export const localDayKey = (time: number) => {
+  const date = new Date(time);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
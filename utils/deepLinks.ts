@@ -0,0 +1,208 @@
+import { formatOrList, t } from '@/i18n';
+import { Category, Timer } from '@/types/timer';
+import {
+  DEFAULT_CATEGORY_NAME,
+  findCategoryByName,
+  getCategoryLabel,
+} from '@/utils/categories';
+import { parseDuration } from '@/utils/duration';
+import { ValidationResult } from '@/utils/validation';
+
+/*
+ * Links the app answers to, all under the `myapp://` scheme:
+ *   timer/new?name=Tea&duration=3m&category=Kitchen
+ *   timer/<id>/<start|pause|reset|delete>
+ *   category/<name>/<start|pause|restart|reset>
+ */
+
+export const TIMER_LINK_ACTIONS = [
+  'start',
+  'pause',
+  'reset',
+  'delete',
+] as const;
+export type TimerLinkAction = (typeof TIMER_LINK_ACTIONS)[number];
+
+export const CATEGORY_LINK_ACTIONS = [
+  'start',
+  'pause',
+  'restart',
+  'reset',
+] as const;
+export type CategoryLinkAction = (typeof CATEGORY_LINK_ACTIONS)[number];
+
+/** Route params arrive missing, as one string, or repeated as an array. */
+export type RouteParam = string | string[] | undefined;
+
+const firstParam = (param: RouteParam) =>
+  Array.isArray(param) ? param[0] : param;
+
+/** What a link is about to do, shown before or after doing it. */
+export type LinkDescription = {
+  title: string;
+  message: string;
+  /** Set when the action loses data, so the user is asked first. */
+  confirmLabel?: string;
+};
+
+export type NewTimerLink = {
+  name: string;
+  duration: number;
+  category: string;
+};
+
+export const parseNewTimerLink = (params: {
+  name?: RouteParam;
+  duration?: RouteParam;
+  category?: RouteParam;
+}): ValidationResult<NewTimerLink> => {
+  const name = firstParam(params.name)?.trim();
+  if (!name) {
+    return { ok: false, error: t('links.errors.missingName') };
+  }
+  const rawDuration = firstParam(params.duration)?.trim();
+  if (!rawDuration) {
+    return { ok: false, error: t('links.errors.missingDuration') };
+  }
+  const duration = parseDuration(rawDuration);
+  if (!duration.ok) {
+    return {
+      ok: false,
+      error: t('links.errors.badDuration', {
+        value: rawDuration,
+        reason: duration.error,
+      }),
+    };
+  }
+  return {
+    ok: true,
+    value: {
+      name,
+      duration: duration.seconds,
+      category: firstParam(params.category)?.trim() || DEFAULT_CATEGORY_NAME,
+    },
+  };
+};
+
+const isOneOf = <T extends string>(
+  options: readonly T[],
+  value: string | undefined
+): value is T => options.includes(value as T);
+
+// Actions are URL path segments, so they are listed untranslated.
+const listActions = (actions: readonly string[]) => formatOrList([...actions]);
+
+export const resolveTimerLink = (
+  timers: Timer[],
+  params: { id?: RouteParam; action?: RouteParam }
+): ValidationResult<{ timer: Timer; action: TimerLinkAction }> => {
+  const action = firstParam(params.action);
+  if (!isOneOf(TIMER_LINK_ACTIONS, action)) {
+    return {
+      ok: false,
+      error: t('links.errors.timerAction', {
+        actions: listActions(TIMER_LINK_ACTIONS),
+        action: action ?? '',
+      }),
+    };
+  }
+  const id = firstParam(params.id);
+  const timer = timers.find((t) => t.id === id);
+  if (!timer) {
+    return {
+      ok: false,
+      error: t('links.errors.timerMissing'),
+    };
+  }
+  return { ok: true, value: { timer, action } };
+};
+
+export const resolveCategoryLink = (
+  categories: Category[],
+  params: { name?: RouteParam; action?: RouteParam }
+): ValidationResult<{ category: Category; action: CategoryLinkAction }> => {
+  const action = firstParam(params.action);
+  if (!isOneOf(CATEGORY_LINK_ACTIONS, action)) {
+    return {
+      ok: false,
+      error: t('links.errors.categoryAction', {
+        actions: listActions(CATEGORY_LINK_ACTIONS),
+        action: action ?? '',
+      }),
+    };
+  }
+  const name = firstParam(params.name) ?? '';
+  const category = findCategoryByName(categories, name);
+  if (!category) {
+    return { ok: false, error: t('links.errors.categoryMissing', { name }) };
+  }
+  return { ok: true, value: { category, action } };
+};
+
+export const describeTimerLink = (
+  timer: Timer,
+  action: TimerLinkAction
+): LinkDescription => {
+  switch (action) {
+    case 'start':
+      return {
+        title: t('links.timerStarted'),
+        message: t('links.timerStartedMessage', { name: timer.name }),
+      };
+    case 'pause':
+      return {
+        title: t('links.timerPaused'),
+        message: t('links.timerPausedMessage', { name: timer.name }),
+      };
+    case 'reset':
+      return {
+        title: t('links.resetTimerTitle', { name: timer.name }),
+        message: t('links.resetTimerMessage'),
+        confirmLabel: t('common.reset'),
+      };
+    case 'delete':
+      return {
+        title: t('links.deleteTimerTitle', { name: timer.name }),
+        message: t('links.deleteTimerMessage'),
+        confirmLabel: t('common.delete'),
+      };
+  }
+};
+
+export const describeCategoryLink = (
+  category: Category,
+  action: CategoryLinkAction
+): LinkDescription => {
+  const name = getCategoryLabel(category.name);
+  switch (action) {
+    case 'start':
+      return {
+        title: t('links.categoryStarted'),
+        message: t('links.categoryStartedMessage', { name }),
+      };
+    case 'pause':
+      return {
+        title: t('links.categoryPaused'),
+        message: t('links.categoryPausedMessage', { name }),
+      };
+    case 'restart':
+      return {
+        title: t('links.categoryRestarted'),
+        message: t('links.categoryRestartedMessage', { name }),
+      };
+    case 'reset':
+      return {
+        title: t('links.resetCategoryTitle', { name }),
+        message: t('links.resetCategoryMessage'),
+        confirmLabel: t('common.reset'),
+      };
+  }
+};
+
+export const describeNewTimerLink = (link: NewTimerLink): LinkDescription => ({
+  title: t('links.timerAdded'),
+  message: t('links.timerAddedMessage', {
+    name: link.name,
+    category: getCategoryLabel(link.category),
+  }),
+});
@@ -0,0 +1,20 @@
+import { Timer } from '@/types/timer';
+import { formatTime } from '@/utils/format';
+import { isStopwatch } from '@/utils/timerEngine';
+
+/**
+ * "4:32 · Tea" for the running countdown that finishes soonest, or null
+ * when nothing is counting down.
+ */
+export const getDocumentTitle = (timers: Timer[]) => {
+  const soonest = timers
+    .filter((timer) => timer.status === 'running' && !isStopwatch(timer))
+    .reduce<Timer | null>(
+      (best, timer) =>
+        !best || timer.remainingTime < best.remainingTime ? timer : best,
+      null
+    );
+  return soonest
+    ? `${formatTime(soonest.remainingTime)} · ${soonest.name}`
+    : null;
+};
@@ -0,0 +1,97 @@
+import { t } from '@/i18n';
+export const MAX_DURATION_SECONDS = 100 * 60 * 60 - 1;
+
+export type DurationParseResult =
+  | { ok: true; seconds: number }
+  | { ok: false; error: string };
+
+const UNIT_SECONDS: Record<string, number> = {
+  h: 3600,
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+  m: 60,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  s: 1,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+};
+
+const parseClock = (input: string) => {
+  const parts = input.split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+$/.test(part))) {
+    return null;
+  }
+  const numbers = parts.map((part) => parseInt(part, 10));
+  if (numbers.slice(1).some((n) => n >= 60)) return null;
+  return numbers.reduce((total, n) => total * 60 + n, 0);
+};
+
+const parseUnits = (input: string) => {
+  const pattern = /(\d+(?:\.\d+)?|\.\d+)\s*([a-z]+)/g;
+  let total = 0;
+  let consumed = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(input)) !== null) {
+    const unit = UNIT_SECONDS[match[2]];
+    if (unit === undefined) return null;
+    total += parseFloat(match[1]) * unit;
+    consumed += match[0];
+  }
+
+  if (consumed.replace(/\s/g, '') !== input.replace(/\s/g, '')) return null;
+  return Math.round(total);
+};
+
+/**
+ * Parses durations such as "90", "90s", "25:00", "1:30:00", "1h30m" or
+ * "2.5 min" into whole seconds. A bare number is read as seconds.
+ */
+export const parseDuration = (input: string): DurationParseResult => {
+  const normalized = input.trim().toLowerCase();
+  if (!normalized) return { ok: false, error: t('duration.errors.empty') };
+
+  let seconds: number | null;
+  if (/^\d+(\.\d+)?$/.test(normalized)) {
+    seconds = Math.round(parseFloat(normalized));
+  } else if (normalized.includes(':')) {
+    seconds = parseClock(normalized);
+  } else {
+    seconds = parseUnits(normalized);
+  }
+
+  if (seconds === null) {
+    return { ok: false, error: t('duration.errors.format') };
+  }
+  if (seconds <= 0) {
+    return { ok: false, error: t('duration.errors.zero') };
+  }
+  if (seconds > MAX_DURATION_SECONDS) {
+    return { ok: false, error: t('duration.errors.tooLong') };
+  }
+  return { ok: true, seconds };
+};
+
+export const splitDuration = (totalSeconds: number) => ({
+  hours: Math.floor(totalSeconds / 3600),
+  minutes: Math.floor((totalSeconds % 3600) / 60),
+  seconds: totalSeconds % 60,
+});
+
+/** Compact text form of a duration that `parseDuration` reads back. */
+export const formatDurationInput = (totalSeconds: number) => {
+  const { hours, minutes, seconds } = splitDuration(totalSeconds);
+  const parts = [
+    hours ? `${hours}h` : '',
+    minutes ? `${minutes}m` : '',
+    seconds ? `${seconds}s` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' ') : '0s';
+};
@@ -0,0 +1,184 @@
+import { Category, HistoryEntry, Timer, TimerTemplate } from '@/types/timer';
+import { CategoryProfiles } from '@/utils/alertProfiles';
+import { categoriesFromProfiles } from '@/utils/categories';
+import {
+  RowError,
+  validateCategory,
+  validateCategoryProfile,
+  validateHistoryEntry,
+  validateRows,
+  validateTemplate,
+  validateTimer,
+} from '@/utils/validation';
+
+export const EXPORT_FORMAT = 'timer-app-export';
+/** Version 2 replaced the category -> alert profile map with categories. */
+export const EXPORT_VERSION = 2;
+
+export type ExportBundle = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  timers: Timer[];
+  history: HistoryEntry[];
+  categories: Category[];
+  /** Missing from bundles exported before presets existed. */
+  templates: TimerTemplate[];
+};
+
+/** The version 1 bundle shape. */
+type LegacyExportBundle = Omit<ExportBundle, 'categories' | 'templates'> & {
+  categoryProfiles: CategoryProfiles;
+};
+
+export type ImportPreview = {
+  timers: Timer[];
+  history: HistoryEntry[];
+  categories: Category[];
+  templates: TimerTemplate[];
+  errors: RowError[];
+};
+
+export type ImportMode = 'merge' | 'replace';
+
+/** Why a whole file was rejected; shown through `t`. */
+export type ImportError = 'json' | 'format' | 'newerVersion';
+
+export const createExportBundle = (
+  data: Pick<ExportBundle, 'timers' | 'history' | 'categories' | 'templates'>,
+  now: number
+): ExportBundle => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date(now).toISOString(),
+  ...data,
+});
+
+const CSV_COLUMNS: (keyof HistoryEntry)[] = [
+  'id',
+  'timerId',
+  'name',
+  'category',
+  'outcome',
+  'startedAt',
+  'endedAt',
+  'duration',
+  'activeSeconds',
+  'totalPausedMs',
+  'pauseCount',
+];
+
+const escapeCsv = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  // Spreadsheets run text starting with these as a formula, so names are
+  // written as quoted literals instead.
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (history: HistoryEntry[]) =>
+  [
+    CSV_COLUMNS.join(','),
+    ...history.map((entry) =>
+      CSV_COLUMNS.map((column) => escapeCsv(entry[column])).join(',')
+    ),
+  ].join('\r\n');
+
+/** Version 1 bundles carried a category -> alert profile map instead. */
+const validateLegacyCategories = (profiles: unknown, now: number) => {
+  const rows = validateRows(
+    typeof profiles === 'object' && profiles !== null
+      ? Object.entries(profiles).map(([category, profile]) => ({
+          category,
+          profile,
+        }))
+      : [],
+    'categoryProfiles',
+    validateCategoryProfile
+  );
+  return {
+    valid: categoriesFromProfiles(
+      Object.fromEntries(
+        rows.valid.map(({ category, profile }) => [category, profile])
+      ),
+      now
+    ),
+    errors: rows.errors,
+  };
+};
+
+/**
+ * Parses and validates an exported bundle. Malformed rows are skipped and
+ * reported rather than failing the whole import.
+ */
+export const parseImportBundle = (
+  text: string,
+  now = Date.now()
+): { ok: true; preview: ImportPreview } | { ok: false; error: ImportError } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'json' };
+  }
+
+  if (
+    typeof raw !== 'object' ||
+    raw === null ||
+    (raw as ExportBundle).format !== EXPORT_FORMAT
+  ) {
+    return { ok: false, error: 'format' };
+  }
+
+  const bundle = raw as Partial<ExportBundle & LegacyExportBundle>;
+  if (typeof bundle.version !== 'number' || bundle.version > EXPORT_VERSION) {
+    return { ok: false, error: 'newerVersion' };
+  }
+
+  const timers = validateRows(bundle.timers, 'timers', validateTimer);
+  const history = validateRows(bundle.history, 'history', validateHistoryEntry);
+  const categories =
+    bundle.version >= 2
+      ? validateRows(bundle.categories, 'categories', validateCategory)
+      : validateLegacyCategories(bundle.categoryProfiles, now);
+  const templates = validateRows(
+    bundle.templates,
+    'templates',
+    validateTemplate
+  );
+
+  return {
+    ok: true,
+    preview: {
+      timers: timers.valid,
+      history: history.valid,
+      categories: categories.valid,
+      templates: templates.valid,
+      errors: [
+        ...timers.errors,
+        ...history.errors,
+        ...categories.errors,
+        ...templates.errors,
+      ],
+    },
+  };
+};
+
+/** Appends records whose ids are not already present. */
+export const mergeById = <T extends { id: string }>(
+  existing: T[],
+  incoming: T[]
+) => {
+  const ids = new Set(existing.map((item) => item.id));
+  return [
+    ...existing,
+    ...incoming.filter((item) => {
+      if (ids.has(item.id)) return false;
+      ids.add(item.id);
+      return true;
+    }),
+  ];
+};
@@ -0,0 +1,55 @@
+import { formatNumber, t } from '@/i18n';
+import { splitDuration } from '@/utils/duration';
+
+const pad = (value: number) => formatNumber(value, { minimumIntegerDigits: 2 });
+
+/** Clock-style "4:05" or "1:04:05", in the locale's digits. */
+export const formatTime = (totalSeconds: number) => {
+  const { hours, minutes, seconds } = splitDuration(totalSeconds);
+  if (hours > 0) {
+    return `${formatNumber(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  }
+  return `${formatNumber(minutes)}:${pad(seconds)}`;
+};
+
+/** The locale's decimal separator, e.g. "." or ",". */
+export const getDecimalSeparator = () =>
+  formatNumber(1.5).replace(/[^.,٫]/g, '') || '.';
+
+/** "1 hour 5 minutes", "4 minutes 30 seconds": a duration in words. */
+export const formatDurationText = (totalSeconds: number) => {
+  const { hours, minutes, seconds } = splitDuration(totalSeconds);
+  const parts = [
+    hours ? t('duration.hours', { count: hours }) : '',
+    minutes ? t('duration.minutes', { count: minutes }) : '',
+    // Seconds are noise next to hours.
+    seconds && !hours ? t('duration.seconds', { count: seconds }) : '',
+  ].filter(Boolean);
+  if (parts.length === 0) return t('duration.seconds', { count: 0 });
+  return parts.reduce((text, part) =>
+    t('duration.join', { first: text, second: part })
+  );
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/** "5 minutes ago", "in 2 hours" or "just now", relative to `now`. */
+export const formatRelativeTime = (time: number, now: number) => {
+  const diff = time - now;
+  const distance = Math.abs(diff);
+  if (distance < 45 * 1000) return t('relative.now');
+
+  const past = diff < 0;
+  if (distance < 45 * MINUTE_MS) {
+    const count = Math.max(1, Math.round(distance / MINUTE_MS));
+    return t(past ? 'relative.minutesAgo' : 'relative.inMinutes', { count });
+  }
+  if (distance < 22 * HOUR_MS) {
+    const count = Math.round(distance / HOUR_MS);
+    return t(past ? 'relative.hoursAgo' : 'relative.inHours', { count });
+  }
+  const count = Math.max(1, Math.round(distance / DAY_MS));
+  return t(past ? 'relative.daysAgo' : 'relative.inDays', { count });
+};
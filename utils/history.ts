@@ -0,0 +1,175 @@
+import { formatDate, t } from '@/i18n';
+import { HistoryEntry, HistoryOutcome, Routine, Timer } from '@/types/timer';
+import {
+  createStepRecord,
+  getElapsedMs,
+  getPausedMs,
+  isStopwatch,
+} from '@/utils/timerEngine';
+import { getRoutineTotalSeconds } from '@/utils/routines';
+import { addDays, localDayKey, startOfDay } from '@/utils/date';
+
+const sum = (values: number[]) =>
+  values.reduce((total, value) => total + value, 0);
+
+const createTimerEntry = (
+  timer: Timer,
+  outcome: HistoryOutcome,
+  endedAt: number
+): HistoryEntry => ({
+  id: `${timer.id}-${endedAt}`,
+  timerId: timer.id,
+  name: timer.name,
+  category: timer.category,
+  outcome,
+  endedAt: new Date(endedAt).toISOString(),
+  startedAt:
+    timer.startedAt !== undefined
+      ? new Date(timer.startedAt).toISOString()
+      : undefined,
+  duration: isStopwatch(timer) ? timer.targetTime : timer.duration,
+  activeSeconds: Math.round(
+    (outcome === 'completed' && !isStopwatch(timer)
+      ? timer.duration * 1000
+      : getElapsedMs(timer, endedAt)) / 1000
+  ),
+  totalPausedMs: getPausedMs(timer, endedAt),
+  pauseCount: timer.pauseCount ?? 0,
+  laps: timer.laps,
+});
+
+/** One entry for the whole run, totalled over its steps. */
+const createRoutineEntry = (
+  timer: Timer,
+  routine: Routine,
+  outcome: HistoryOutcome,
+  endedAt: number
+): HistoryEntry => {
+  const steps = [
+    ...(timer.routineProgress?.completedSteps ?? []),
+    ...(timer.startedAt !== undefined
+      ? [createStepRecord(timer, endedAt)]
+      : []),
+  ];
+  return {
+    ...createTimerEntry(timer, outcome, endedAt),
+    startedAt: steps[0]?.startedAt,
+    duration: getRoutineTotalSeconds(routine),
+    activeSeconds: sum(steps.map((step) => step.activeSeconds)),
+    totalPausedMs: sum(steps.map((step) => step.totalPausedMs)),
+    pauseCount: sum(steps.map((step) => step.pauseCount)),
+    steps,
+  };
+};
+
+export const createHistoryEntry = (
+  timer: Timer,
+  outcome: HistoryOutcome,
+  endedAt: number
+): HistoryEntry => {
+  if (timer.routine) {
+    return createRoutineEntry(timer, timer.routine, outcome, endedAt);
+  }
+  const entry = createTimerEntry(timer, outcome, endedAt);
+  return timer.intervalProgress
+    ? { ...entry, intervalRound: timer.intervalProgress.round }
+    : entry;
+};
+
+/**
+ * Entry to log when a timer is reset or deleted before finishing. Timers that
+ * were never started, or already logged as completed, produce nothing; nor
+ * do interval timers cut short during a break.
+ */
+export const createAbandonedEntry = (
+  timer: Timer,
+  outcome: Exclude<HistoryOutcome, 'completed'>,
+  now: number
+) =>
+  timer.startedAt !== undefined &&
+  timer.status !== 'completed' &&
+  timer.intervalProgress?.phase !== 'shortBreak' &&
+  timer.intervalProgress?.phase !== 'longBreak'
+    ? [createHistoryEntry(timer, outcome, now)]
+    : [];
+
+export type HistoryDateRange = 'all' | 'today' | 'week' | 'month';
+
+export type HistoryFilter = {
+  query: string;
+  categories: string[];
+  range: HistoryDateRange;
+};
+
+export type HistorySection = {
+  day: string;
+  title: string;
+  data: HistoryEntry[];
+};
+
+const getRangeStart = (range: HistoryDateRange, now: number) => {
+  switch (range) {
+    case 'today':
+      return startOfDay(now);
+    case 'week':
+      return addDays(startOfDay(now), -6);
+    case 'month':
+      return addDays(startOfDay(now), -29);
+    default:
+      return -Infinity;
+  }
+};
+
+export const filterHistory = (
+  entries: HistoryEntry[],
+  filter: HistoryFilter,
+  now: number
+) => {
+  const query = filter.query.trim().toLowerCase();
+  const rangeStart = getRangeStart(filter.range, now);
+
+  return entries.filter(
+    (entry) =>
+      (!query || entry.name.toLowerCase().includes(query)) &&
+      (filter.categories.length === 0 ||
+        filter.categories.includes(entry.category)) &&
+      new Date(entry.endedAt).getTime() >= rangeStart
+  );
+};
+
+const formatDayTitle = (dayStart: number, now: number) => {
+  const today = startOfDay(now);
+  if (dayStart === today) return t('history.today');
+  if (dayStart === addDays(today, -1)) return t('history.yesterday');
+  return formatDate(dayStart, {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+/** Newest-first sections, one per local calendar day. */
+export const groupHistoryByDay = (
+  entries: HistoryEntry[],
+  now: number
+): HistorySection[] => {
+  const sorted = [...entries].sort(
+    (a, b) => new Date(b.endedAt).getTime() - new Date(a.endedAt).getTime()
+  );
+
+  return sorted.reduce((sections: HistorySection[], entry) => {
+    const endedAt = new Date(entry.endedAt).getTime();
+    const day = localDayKey(endedAt);
+    const last = sections[sections.length - 1];
+    if (last && last.day === day) {
+      last.data.push(entry);
+    } else {
+      sections.push({
+        day,
+        title: formatDayTitle(startOfDay(endedAt), now),
+        data: [entry],
+      });
+    }
+    return sections;
+  }, []);
+};
@@ -0,0 +1,98 @@
+import { t } from '@/i18n';
+import {
+  IntervalPhase,
+  IntervalProgress,
+  IntervalSettings,
+  Timer,
+} from '@/types/timer';
+
+export const DEFAULT_INTERVAL_SETTINGS: IntervalSettings = {
+  work: 25 * 60,
+  shortBreak: 5 * 60,
+  longBreak: 15 * 60,
+  roundsBeforeLongBreak: 4,
+  autoStartBreaks: true,
+  autoStartWork: false,
+};
+
+export const MAX_ROUNDS_BEFORE_LONG_BREAK = 12;
+
+export const getPhaseLabel = (phase: IntervalPhase) =>
+  t(`intervals.phase.${phase}`);
+
+export const initialIntervalProgress = (): IntervalProgress => ({
+  phase: 'work',
+  round: 1,
+  completedRounds: 0,
+});
+
+export const getPhaseDuration = (
+  settings: IntervalSettings,
+  phase: IntervalPhase
+) => settings[phase];
+
+/**
+ * Work is followed by a short break, or a long one after the last round of
+ * a set; any break is followed by the next round of work.
+ */
+export const getNextIntervalProgress = (
+  progress: IntervalProgress,
+  settings: IntervalSettings
+): IntervalProgress => {
+  switch (progress.phase) {
+    case 'work':
+      return {
+        ...progress,
+        phase:
+          progress.round >= settings.roundsBeforeLongBreak
+            ? 'longBreak'
+            : 'shortBreak',
+        completedRounds: progress.completedRounds + 1,
+      };
+    case 'shortBreak':
+      return { ...progress, phase: 'work', round: progress.round + 1 };
+    case 'longBreak':
+      return { ...progress, phase: 'work', round: 1 };
+  }
+};
+
+export const shouldAutoStart = (
+  settings: IntervalSettings,
+  phase: IntervalPhase
+) => (phase === 'work' ? settings.autoStartWork : settings.autoStartBreaks);
+
+/** Points the timer at a phase, ready to run it from the beginning. */
+export const loadIntervalPhase = (
+  timer: Timer,
+  progress: IntervalProgress
+): Timer => {
+  if (!timer.interval) return timer;
+  const duration = getPhaseDuration(timer.interval, progress.phase);
+  return {
+    ...timer,
+    duration,
+    remainingTime: duration,
+    triggeredAlerts: undefined,
+    intervalProgress: progress,
+  };
+};
+
+export const getPhaseCompleteTitle = (phase: IntervalPhase) =>
+  phase === 'work'
+    ? t('intervals.focusDoneTitle')
+    : t('intervals.breakOverTitle');
+
+export const getPhaseCompleteMessage = (timer: Timer, next: IntervalPhase) =>
+  t(`intervals.next.${next}`, { name: timer.name });
+
+/**
+ * The phase change between two snapshots of a timer, if it moved on to its
+ * next phase. Resets, which also change phase, are not reported.
+ */
+export const getPhaseTransition = (before: Timer, after: Timer) => {
+  const from = before.intervalProgress;
+  const to = after.intervalProgress;
+  if (!from || !to || from.phase === to.phase) return null;
+  if (to.completedRounds < from.completedRounds) return null;
+  return { from: from.phase, to: to.phase };
+};
@@ -0,0 +1,82 @@
+import { MessageKey } from '@/i18n';
+import { Timer } from '@/types/timer';
+
+export type ShortcutCommand =
+  | 'toggleFocused'
+  | 'newTimer'
+  | 'focusNext'
+  | 'focusPrevious'
+  | 'search'
+  | 'clearFocus';
+
+/** A key press, reduced to what deciding on a shortcut needs. */
+export type KeyPress = {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  /** Typing into a field, or on a button that handles Space itself. */
+  target: 'text' | 'control' | 'page';
+};
+
+/** Shown as a hint on the web, in the order listed. */
+export const KEYBOARD_SHORTCUTS: { keys: string; label: MessageKey }[] = [
+  { keys: 'Space', label: 'shortcuts.toggle' },
+  { keys: 'N', label: 'shortcuts.newTimer' },
+  { keys: '↑ ↓', label: 'shortcuts.move' },
+  { keys: '/', label: 'shortcuts.search' },
+  { keys: 'Esc', label: 'shortcuts.clear' },
+];
+
+export const getShortcutCommand = (press: KeyPress): ShortcutCommand | null => {
+  if (press.ctrlKey || press.metaKey || press.altKey) return null;
+  if (press.key === 'Escape') return 'clearFocus';
+  if (press.target === 'text') return null;
+
+  switch (press.key) {
+    case ' ':
+      return press.target === 'page' ? 'toggleFocused' : null;
+    case 'n':
+    case 'N':
+      return 'newTimer';
+    case 'ArrowDown':
+    case 'ArrowRight':
+      return 'focusNext';
+    case 'ArrowUp':
+    case 'ArrowLeft':
+      return 'focusPrevious';
+    case '/':
+      return 'search';
+    default:
+      return null;
+  }
+};
+
+/**
+ * The id `step` places along from `currentId`, clamped to the ends. With
+ * nothing focused, or the focused card gone, it starts from the first card.
+ */
+export const moveFocus = (
+  ids: string[],
+  currentId: string | null,
+  step: 1 | -1
+): string | null => {
+  if (ids.length === 0) return null;
+  const index = currentId === null ? -1 : ids.indexOf(currentId);
+  if (index === -1) return ids[0];
+  return ids[Math.min(ids.length - 1, Math.max(0, index + step))];
+};
+
+/** What Space does to a timer: pause it if running, otherwise get it going. */
+export const getToggleAction = (
+  timer: Timer
+): 'start' | 'pause' | 'restart' => {
+  switch (timer.status) {
+    case 'running':
+      return 'pause';
+    case 'completed':
+      return 'restart';
+    default:
+      return 'start';
+  }
+};
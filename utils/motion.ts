@@ -0,0 +1,30 @@
+import { TransitionConfig } from 'moti';
+
+/*
+ * Moti types a whole-view `transition` against an index signature that
+ * rejects a top-level `type` key, so each config is keyed by the style
+ * properties it animates instead.
+ */
+
+type AnimatedProperty =
+  | 'opacity'
+  | 'scale'
+  | 'translateY'
+  | 'height'
+  | 'width';
+
+const forProperties = (
+  properties: AnimatedProperty[],
+  config: TransitionConfig
+): Partial<Record<AnimatedProperty, TransitionConfig>> =>
+  Object.fromEntries(properties.map((property) => [property, config]));
+
+/** The springy entrance used by cards, sheets and empty states. */
+export const springTransition = (properties: AnimatedProperty[]) =>
+  forProperties(properties, { type: 'spring', damping: 15 });
+
+export const timingTransition = (
+  properties: AnimatedProperty[],
+  duration: number,
+  delay = 0
+) => forProperties(properties, { type: 'timing', duration, delay });
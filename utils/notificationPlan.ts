@@ -0,0 +1,163 @@
+import { t } from '@/i18n';
+import { Timer } from '@/types/timer';
+import { LocalNotification } from '@/services/notifications/types';
+import {
+  getAlertMessage,
+  getAlertOffsetMs,
+  getAlertTitle,
+} from '@/utils/alerts';
+import { getFinishTime, isStopwatch } from '@/utils/timerEngine';
+import {
+  getTargetReachedMessage,
+  getTargetReachedTitle,
+} from '@/utils/stopwatch';
+import {
+  getCurrentRoutineStep,
+  getNextRoutinePosition,
+  getRoutineStepCount,
+  getRoutineStepNumber,
+  getStepCompleteMessage,
+  getStepCompleteTitle,
+} from '@/utils/routines';
+import {
+  getNextIntervalProgress,
+  getPhaseCompleteMessage,
+  getPhaseCompleteTitle,
+  initialIntervalProgress,
+} from '@/utils/intervals';
+import {
+  getScheduledStartMessage,
+  getScheduledStartTitle,
+} from '@/utils/schedule';
+
+/** Every identifier a timer's notifications can be scheduled under. */
+export const getTimerNotificationIds = (timer: Timer) => [
+  `${timer.id}:complete`,
+  ...timer.alerts.map((alert) => `${timer.id}:alert:${alert.id}`),
+  `${timer.id}:phase`,
+  `${timer.id}:target`,
+  `${timer.id}:scheduled`,
+  ...Array.from(
+    { length: timer.routine ? getRoutineStepCount(timer.routine) : 0 },
+    (_, index) => `${timer.id}:step:${index + 1}`
+  ),
+];
+
+/**
+ * One notification per remaining step boundary of a routine, ending with the
+ * completion of the whole run.
+ */
+const planRoutineSteps = (timer: Timer): LocalNotification[] => {
+  const notifications: LocalNotification[] = [];
+  let current = timer;
+  let fireAt = getFinishTime(timer);
+
+  for (;;) {
+    const next = getNextRoutinePosition(current);
+    const step = getCurrentRoutineStep(current);
+    const nextStep = next && timer.routine?.steps[next.stepIndex];
+    if (!next || !step || !nextStep) break;
+
+    notifications.push({
+      id: `${timer.id}:step:${getRoutineStepNumber(current)}`,
+      fireAt,
+      title: getStepCompleteTitle(step.name),
+      body: getStepCompleteMessage(timer, nextStep.name),
+    });
+    current = { ...current, routineProgress: { ...next, completedSteps: [] } };
+    fireAt += nextStep.duration * 1000;
+  }
+
+  notifications.push({
+    id: `${timer.id}:complete`,
+    fireAt,
+    title: t('notifications.routineCompleteTitle'),
+    body: t('notifications.finishedMessage', { name: timer.name }),
+  });
+  return notifications;
+};
+
+/** Interval timers announce the end of the phase they are running. */
+const planIntervalPhase = (timer: Timer): LocalNotification => {
+  const progress = timer.intervalProgress ?? initialIntervalProgress();
+  const next = timer.interval
+    ? getNextIntervalProgress(progress, timer.interval).phase
+    : 'work';
+  return {
+    id: `${timer.id}:phase`,
+    fireAt: getFinishTime(timer),
+    title: getPhaseCompleteTitle(progress.phase),
+    body: getPhaseCompleteMessage(timer, next),
+  };
+};
+
+/**
+ * Notifications for the current run: its completion and any untriggered
+ * checkpoints, at their wall-clock fire times. Only running timers have any.
+ */
+const planRun = (timer: Timer, now: number): LocalNotification[] => {
+  if (timer.status !== 'running' || timer.startedAt === undefined) return [];
+
+  const runStart = timer.startedAt + (timer.accumulatedPausedMs ?? 0);
+
+  if (isStopwatch(timer)) {
+    const target = timer.targetTime;
+    const fireAt = target ? runStart + target * 1000 : 0;
+    return target && fireAt > now
+      ? [
+          {
+            id: `${timer.id}:target`,
+            fireAt,
+            title: getTargetReachedTitle(),
+            body: getTargetReachedMessage(timer, target),
+          },
+        ]
+      : [];
+  }
+
+  const triggered = timer.triggeredAlerts ?? [];
+
+  const checkpoints = timer.alerts
+    .filter((alert) => !triggered.includes(alert.id))
+    .map((alert) => ({
+      id: `${timer.id}:alert:${alert.id}`,
+      fireAt: runStart + getAlertOffsetMs(alert, timer.duration),
+      title: getAlertTitle(alert),
+      body: getAlertMessage(timer, alert),
+    }));
+
+  const completion = timer.routine
+    ? planRoutineSteps(timer)
+    : timer.interval
+    ? [planIntervalPhase(timer)]
+    : [
+        {
+          id: `${timer.id}:complete`,
+          fireAt: getFinishTime(timer),
+          title: t('notifications.timerCompleteTitle'),
+          body: t('notifications.finishedMessage', { name: timer.name }),
+        },
+      ];
+
+  return [...checkpoints, ...completion].filter(
+    (notification) => notification.fireAt > now
+  );
+};
+
+/** Everything a timer should have pending right now, its next start included. */
+export const planTimerNotifications = (
+  timer: Timer,
+  now: number
+): LocalNotification[] => {
+  const run = planRun(timer, now);
+  if (timer.nextStartAt === undefined || timer.nextStartAt <= now) return run;
+  return [
+    {
+      id: `${timer.id}:scheduled`,
+      fireAt: timer.nextStartAt,
+      title: getScheduledStartTitle(),
+      body: getScheduledStartMessage(timer),
+    },
+    ...run,
+  ];
+};
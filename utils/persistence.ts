@@ -0,0 +1,149 @@
+import { ValidationResult } from '@/utils/validation';
+
+export type MigrationContext = {
+  now: number;
+  /** Position of the record in the stored collection. */
+  index: number;
+};
+
+/** Receives the stored record as is; it narrows the shape before using it. */
+export type Migration = (record: unknown, context: MigrationContext) => unknown;
+
+export type CollectionSchema<T> = {
+  /** Latest version; records are migrated up to it before validation. */
+  version: number;
+  /** `migrations[v]` upgrades a record from version `v` to `v + 1`. */
+  migrations: Record<number, Migration>;
+  validate: (raw: unknown) => ValidationResult<T>;
+  /**
+   * Turns data written before the key was versioned into a list of
+   * version 1 records. Defaults to accepting a bare array.
+   */
+  fromUnversioned?: (stored: unknown) => unknown[] | null;
+};
+
+/** What is actually written under each key. */
+export type StoredCollection = {
+  version: number;
+  entries: unknown[];
+};
+
+export type QuarantinedRecord = {
+  version: number | null;
+  record: unknown;
+  error: string;
+  quarantinedAt: string;
+};
+
+export type DecodedCollection<T> = {
+  records: T[];
+  quarantined: QuarantinedRecord[];
+};
+
+const isStoredCollection = (value: unknown): value is StoredCollection =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as StoredCollection).version === 'number' &&
+  Array.isArray((value as StoredCollection).entries);
+
+const describeError = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Upgrades a single record through the migration chain. Throws if a step is
+ * missing so the caller can quarantine the record.
+ */
+export const migrateRecord = <T>(
+  schema: CollectionSchema<T>,
+  record: unknown,
+  fromVersion: number,
+  context: MigrationContext
+) => {
+  let migrated = record;
+  for (let version = fromVersion; version < schema.version; version++) {
+    const migration = schema.migrations[version];
+    if (!migration) {
+      throw new Error(`no migration from version ${version}`);
+    }
+    migrated = migration(migrated, context);
+  }
+  return migrated;
+};
+
+/**
+ * Reads a stored collection, migrating and validating each record. Records
+ * that cannot be read are returned as quarantined instead of throwing, so
+ * one bad entry never takes the rest of the data down with it.
+ */
+export const decodeCollection = <T>(
+  schema: CollectionSchema<T>,
+  stored: unknown,
+  now: number
+): DecodedCollection<T> => {
+  const quarantinedAt = new Date(now).toISOString();
+  const records: T[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  let version: number;
+  let entries: unknown[] | null;
+  if (isStoredCollection(stored)) {
+    version = stored.version;
+    entries = stored.entries;
+  } else {
+    version = 1;
+    entries = schema.fromUnversioned
+      ? schema.fromUnversioned(stored)
+      : Array.isArray(stored)
+      ? stored
+      : null;
+  }
+
+  if (!entries) {
+    return {
+      records,
+      quarantined: [
+        {
+          version: null,
+          record: stored,
+          error: 'unrecognised format',
+          quarantinedAt,
+        },
+      ],
+    };
+  }
+
+  entries.forEach((entry, index) => {
+    const quarantine = (error: string) =>
+      quarantined.push({ version, record: entry, error, quarantinedAt });
+
+    if (version > schema.version) {
+      quarantine(`written by a newer version (${version})`);
+      return;
+    }
+
+    let migrated: unknown;
+    try {
+      migrated = migrateRecord(schema, entry, version, { now, index });
+    } catch (error) {
+      quarantine(`migration failed: ${describeError(error)}`);
+      return;
+    }
+
+    const result = schema.validate(migrated);
+    if (result.ok) {
+      records.push(result.value);
+    } else {
+      quarantine(result.error);
+    }
+  });
+
+  return { records, quarantined };
+};
+
+export const encodeCollection = <T>(
+  schema: CollectionSchema<T>,
+  records: T[]
+): StoredCollection => ({
+  version: schema.version,
+  entries: records,
+});
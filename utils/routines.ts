@@ -0,0 +1,73 @@
+import { t } from '@/i18n';
+import { Routine, RoutineProgress, Timer } from '@/types/timer';
+
+export const MAX_ROUTINE_REPEAT = 20;
+
+export const initialRoutineProgress = (): RoutineProgress => ({
+  stepIndex: 0,
+  round: 1,
+  completedSteps: [],
+});
+
+/** Total seconds of a full run, across every round. */
+export const getRoutineTotalSeconds = (routine: Routine) =>
+  routine.steps.reduce((total, step) => total + step.duration, 0) *
+  routine.repeat;
+
+export const getRoutineStepCount = (routine: Routine) =>
+  routine.steps.length * routine.repeat;
+
+/** 1-based position of the current step within the whole run. */
+export const getRoutineStepNumber = (timer: Timer) => {
+  const progress = timer.routineProgress ?? initialRoutineProgress();
+  const steps = timer.routine?.steps.length ?? 0;
+  return (progress.round - 1) * steps + progress.stepIndex + 1;
+};
+
+export const getCurrentRoutineStep = (timer: Timer) =>
+  timer.routine?.steps[timer.routineProgress?.stepIndex ?? 0];
+
+/** Step and round that follow the current one, or null on the last step. */
+export const getNextRoutinePosition = (timer: Timer) => {
+  if (!timer.routine) return null;
+  const { stepIndex, round } =
+    timer.routineProgress ?? initialRoutineProgress();
+  if (stepIndex + 1 < timer.routine.steps.length) {
+    return { stepIndex: stepIndex + 1, round };
+  }
+  if (round < timer.routine.repeat) return { stepIndex: 0, round: round + 1 };
+  return null;
+};
+
+/** Seconds of the run covered by steps that have already finished. */
+export const getRoutineCompletedSeconds = (timer: Timer) =>
+  timer.routineProgress?.completedSteps.reduce(
+    (total, step) => total + step.duration,
+    0
+  ) ?? 0;
+
+/**
+ * Points the timer at a step: its duration and alerts become the step's and
+ * it is ready to run that step from the beginning.
+ */
+export const loadRoutineStep = (
+  timer: Timer,
+  progress: RoutineProgress
+): Timer => {
+  const step = timer.routine?.steps[progress.stepIndex];
+  if (!step) return timer;
+  return {
+    ...timer,
+    duration: step.duration,
+    remainingTime: step.duration,
+    alerts: step.alerts,
+    triggeredAlerts: undefined,
+    routineProgress: progress,
+  };
+};
+
+export const getStepCompleteTitle = (stepName: string) =>
+  t('routines.stepDoneTitle', { step: stepName });
+
+export const getStepCompleteMessage = (timer: Timer, nextStepName: string) =>
+  t('routines.upNextMessage', { name: timer.name, step: nextStepName });
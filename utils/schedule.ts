@@ -0,0 +1,222 @@
+import { formatDate, t } from '@/i18n';
+import { Timer, TimerSchedule, Weekday } from '@/types/timer';
+import { addDays, localDayKey, startOfDay } from '@/utils/date';
+
+export const EVERY_DAY: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+export const WEEKDAYS: Weekday[] = [1, 2, 3, 4, 5];
+export const WEEKEND: Weekday[] = [0, 6];
+
+/** Short weekday name in the active locale; 4 January 1970 was a Sunday. */
+export const getDayLabel = (day: Weekday) =>
+  formatDate(new Date(1970, 0, 4 + day, 12).getTime(), { weekday: 'short' });
+
+export const MAX_SCHEDULE_HOURS = 23;
+
+export type ClockParseResult =
+  | { ok: true; hour: number; minute: number }
+  | { ok: false; error: string };
+
+/** Parses a 24-hour clock time such as "7:00" or "19:30". */
+export const parseClockTime = (input: string): ClockParseResult => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(input.trim());
+  const hour = match ? parseInt(match[1], 10) : NaN;
+  const minute = match ? parseInt(match[2], 10) : NaN;
+  if (!match || hour > 23 || minute > 59) {
+    return { ok: false, error: t('schedule.errors.clock') };
+  }
+  return { ok: true, hour, minute };
+};
+
+/** "07:00": the input form that `parseClockTime` reads back. */
+export const formatClockTime = (hour: number, minute: number) =>
+  `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+
+/** A time of day as the locale writes it, e.g. "7:00 AM" or "07:00". */
+export const formatTimeOfDay = (time: number) =>
+  formatDate(time, { hour: 'numeric', minute: '2-digit' });
+
+const formatScheduleTime = (hour: number, minute: number) =>
+  formatTimeOfDay(new Date(2000, 0, 1, hour, minute).getTime());
+
+/** Local time on the day starting at `dayStart`, correct across DST. */
+const atTime = (dayStart: number, hour: number, minute: number) => {
+  const date = new Date(dayStart);
+  date.setHours(hour, minute, 0, 0);
+  return date.getTime();
+};
+
+export type StartTimeParseResult =
+  | { ok: true; at: number }
+  | { ok: false; error: string };
+
+/**
+ * Parses a one-off start: "YYYY-MM-DD HH:MM", or just "HH:MM" for its next
+ * occurrence. The result must lie in the future.
+ */
+export const parseStartTime = (
+  input: string,
+  now: number
+): StartTimeParseResult => {
+  const match = /^(?:(\d{4})-(\d{2})-(\d{2})\s+)?(\d{1,2}:\d{2})$/.exec(
+    input.trim()
+  );
+  const clock = match ? parseClockTime(match[4]) : null;
+  if (!match || !clock?.ok) {
+    return { ok: false, error: t('schedule.errors.startTime') };
+  }
+
+  if (!match[1]) {
+    const today = atTime(startOfDay(now), clock.hour, clock.minute);
+    return {
+      ok: true,
+      at:
+        today > now
+          ? today
+          : atTime(addDays(startOfDay(now), 1), clock.hour, clock.minute),
+    };
+  }
+
+  const date = new Date(
+    parseInt(match[1], 10),
+    parseInt(match[2], 10) - 1,
+    parseInt(match[3], 10),
+    clock.hour,
+    clock.minute
+  );
+  if (localDayKey(date.getTime()) !== `${match[1]}-${match[2]}-${match[3]}`) {
+    return { ok: false, error: t('schedule.errors.invalidDate') };
+  }
+  if (date.getTime() <= now) {
+    return { ok: false, error: t('schedule.errors.past') };
+  }
+  return { ok: true, at: date.getTime() };
+};
+
+/** Text form of a one-off start that `parseStartTime` reads back. */
+export const formatStartTimeInput = (at: number) => {
+  const date = new Date(at);
+  return `${localDayKey(at)} ${formatClockTime(
+    date.getHours(),
+    date.getMinutes()
+  )}`;
+};
+
+/** First time the schedule fires strictly after `after`, or null if never. */
+export const getNextOccurrence = (
+  schedule: TimerSchedule,
+  after: number
+): number | null => {
+  const today = startOfDay(after);
+  switch (schedule.type) {
+    case 'once':
+      return schedule.at > after ? schedule.at : null;
+    case 'daily':
+      for (let day = 0; day <= 7; day++) {
+        const dayStart = addDays(today, day);
+        const time = atTime(dayStart, schedule.hour, schedule.minute);
+        const weekday = new Date(dayStart).getDay() as Weekday;
+        if (time > after && schedule.days.includes(weekday)) return time;
+      }
+      return null;
+    case 'everyHours':
+      for (let day = 0; day <= 1; day++) {
+        const dayStart = addDays(today, day);
+        const dayEnd = addDays(dayStart, 1);
+        for (
+          let time = atTime(dayStart, schedule.hour, schedule.minute);
+          time < dayEnd;
+          time += schedule.hours * 60 * 60 * 1000
+        ) {
+          if (time > after) return time;
+        }
+      }
+      return null;
+  }
+};
+
+/**
+ * The last occurrence up to and including `now`, counting on from `first`,
+ * an occurrence that is already due.
+ */
+export const getLatestOccurrence = (
+  schedule: TimerSchedule,
+  first: number,
+  now: number
+) => {
+  let latest = first;
+  let next = getNextOccurrence(schedule, latest);
+  while (next !== null && next <= now) {
+    latest = next;
+    next = getNextOccurrence(schedule, latest);
+  }
+  return latest;
+};
+
+/** Sets the timer's next start from its schedule, as seen at `now`. */
+export const planSchedule = (timer: Timer, now: number): Timer => ({
+  ...timer,
+  nextStartAt: timer.schedule
+    ? getNextOccurrence(timer.schedule, now) ?? undefined
+    : undefined,
+});
+
+const sameDays = (days: Weekday[], expected: Weekday[]) =>
+  days.length === expected.length &&
+  expected.every((day) => days.includes(day));
+
+export const describeSchedule = (schedule: TimerSchedule) => {
+  switch (schedule.type) {
+    case 'once':
+      return t('schedule.once');
+    case 'daily': {
+      const time = formatScheduleTime(schedule.hour, schedule.minute);
+      if (sameDays(schedule.days, EVERY_DAY)) {
+        return t('schedule.daily', { time });
+      }
+      if (sameDays(schedule.days, WEEKDAYS)) {
+        return t('schedule.weekdays', { time });
+      }
+      if (sameDays(schedule.days, WEEKEND)) {
+        return t('schedule.weekends', { time });
+      }
+      const days = EVERY_DAY.filter((day) => schedule.days.includes(day));
+      return t('schedule.onDays', {
+        days: days.map(getDayLabel).join(t('common.listSeparator')),
+        time,
+      });
+    }
+    case 'everyHours':
+      return t('schedule.everyHours', {
+        count: schedule.hours,
+        time: formatScheduleTime(schedule.hour, schedule.minute),
+      });
+  }
+};
+
+/** "Today 07:00", "Tomorrow 07:00" or "Mon 07:00" style label. */
+export const formatNextStart = (at: number, now: number) => {
+  const date = new Date(at);
+  const time = formatTimeOfDay(at);
+  const today = startOfDay(now);
+  const day = startOfDay(at);
+  if (day === today) return t('schedule.todayAt', { time });
+  if (day === addDays(today, 1)) return t('schedule.tomorrowAt', { time });
+  if (day < addDays(today, 7)) {
+    return t('schedule.dayAt', {
+      day: getDayLabel(date.getDay() as Weekday),
+      time,
+    });
+  }
+  return formatDate(at, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+};
+
+export const getScheduledStartTitle = () => t('schedule.startedTitle');
+
+export const getScheduledStartMessage = (timer: Timer) =>
+  t('schedule.startedMessage', { name: timer.name });
@@ -0,0 +1,87 @@
+import {
+  AlertProfile,
+  Category,
+  HistoryEntry,
+  Timer,
+  TimerTemplate,
+} from '@/types/timer';
+import { CollectionSchema } from '@/utils/persistence';
+import { migrateTimer } from '@/utils/timerEngine';
+import {
+  isLegacyHistoryEntry,
+  isLegacyTimer,
+  validateCategory,
+  validateCategoryProfile,
+  validateHistoryEntry,
+  validateTemplate,
+  validateTimer,
+} from '@/utils/validation';
+
+/*
+ * Version 1 of each collection is whatever was written before keys were
+ * versioned. Bump `version` and add a migration whenever a stored shape
+ * changes.
+ */
+
+export const timerSchema: CollectionSchema<Timer> = {
+  version: 2,
+  migrations: {
+    1: (timer, { now }) => {
+      if (!isLegacyTimer(timer)) throw new Error('not a version 1 timer');
+      return migrateTimer(timer, now);
+    },
+  },
+  validate: validateTimer,
+};
+
+export const historySchema: CollectionSchema<HistoryEntry> = {
+  version: 2,
+  migrations: {
+    1: (entry, { index }): HistoryEntry => {
+      if (!isLegacyHistoryEntry(entry)) {
+        throw new Error('not a version 1 history entry');
+      }
+      return {
+        id: `${entry.timerId}-legacy-${index}`,
+        timerId: entry.timerId,
+        name: entry.name,
+        category: entry.category,
+        outcome: 'completed',
+        endedAt: entry.completedAt,
+      };
+    },
+  },
+  validate: validateHistoryEntry,
+};
+
+export const categorySchema: CollectionSchema<Category> = {
+  version: 1,
+  migrations: {},
+  validate: validateCategory,
+};
+
+export const templateSchema: CollectionSchema<TimerTemplate> = {
+  version: 1,
+  migrations: {},
+  validate: validateTemplate,
+};
+
+/** Alert defaults stored per category name before categories existed. */
+export type CategoryProfileRecord = {
+  category: string;
+  profile: AlertProfile;
+};
+
+export const categoryProfileSchema: CollectionSchema<CategoryProfileRecord> = {
+  version: 1,
+  migrations: {},
+  validate: validateCategoryProfile,
+  // Profiles used to be stored as a plain category -> profile map.
+  fromUnversioned: (stored) =>
+    typeof stored === 'object' && stored !== null && !Array.isArray(stored)
+      ? Object.entries(stored).map(([category, profile]) => ({
+          category,
+          profile,
+        }))
+      : null,
+};
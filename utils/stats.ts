@@ -0,0 +1,184 @@
+import { formatDate } from '@/i18n';
+import { HistoryEntry } from '@/types/timer';
+import { getCategoryLabel } from '@/utils/categories';
+import { addDays, localDayKey, startOfDay, startOfWeek } from '@/utils/date';
+
+export type CountBucket = {
+  key: string;
+  label: string;
+  value: number;
+};
+
+export type Streaks = {
+  current: number;
+  longest: number;
+};
+
+export type OutcomeRates = {
+  total: number;
+  completed: number;
+  reset: number;
+  deleted: number;
+  completionRate: number;
+  resetRate: number;
+};
+
+const endedAtMs = (entry: HistoryEntry) => new Date(entry.endedAt).getTime();
+
+const completedEntries = (entries: HistoryEntry[]) =>
+  entries.filter((entry) => entry.outcome === 'completed');
+
+/**
+ * Seconds actually timed by an entry. Entries migrated from before durations
+ * were recorded count as zero.
+ */
+export const getTimedSeconds = (entry: HistoryEntry) =>
+  entry.activeSeconds ??
+  (entry.outcome === 'completed' ? entry.duration ?? 0 : 0);
+
+/** Total timed minutes per category, largest first. */
+export const minutesByCategory = (entries: HistoryEntry[]): CountBucket[] => {
+  const totals = entries.reduce((sums: Record<string, number>, entry) => {
+    sums[entry.category] = (sums[entry.category] ?? 0) + getTimedSeconds(entry);
+    return sums;
+  }, {});
+
+  return Object.entries(totals)
+    .map(([category, seconds]) => ({
+      key: category,
+      label: getCategoryLabel(category),
+      value: Math.round(seconds / 60),
+    }))
+    .sort((a, b) => b.value - a.value);
+};
+
+/** Completions for each of the last `days` days, oldest first. */
+export const completionsPerDay = (
+  entries: HistoryEntry[],
+  days: number,
+  now: number
+): CountBucket[] => {
+  const counts = completedEntries(entries).reduce(
+    (map: Record<string, number>, entry) => {
+      const key = localDayKey(endedAtMs(entry));
+      map[key] = (map[key] ?? 0) + 1;
+      return map;
+    },
+    {}
+  );
+
+  const today = startOfDay(now);
+  return Array.from({ length: days }, (_, index) => {
+    const day = addDays(today, index - days + 1);
+    const key = localDayKey(day);
+    return {
+      key,
+      label: formatDate(day, { weekday: 'short' }),
+      value: counts[key] ?? 0,
+    };
+  });
+};
+
+/** Completions for each of the last `weeks` Monday-based weeks, oldest first. */
+export const completionsPerWeek = (
+  entries: HistoryEntry[],
+  weeks: number,
+  now: number
+): CountBucket[] => {
+  const counts = completedEntries(entries).reduce(
+    (map: Record<string, number>, entry) => {
+      const key = localDayKey(startOfWeek(endedAtMs(entry)));
+      map[key] = (map[key] ?? 0) + 1;
+      return map;
+    },
+    {}
+  );
+
+  const thisWeek = startOfWeek(now);
+  return Array.from({ length: weeks }, (_, index) => {
+    const week = addDays(thisWeek, (index - weeks + 1) * 7);
+    const key = localDayKey(week);
+    return {
+      key,
+      label: formatDate(week, { month: 'numeric', day: 'numeric' }),
+      value: counts[key] ?? 0,
+    };
+  });
+};
+
+/**
+ * Runs of consecutive days with at least one completion. The current streak
+ * still counts if today has no completion yet but yesterday did.
+ */
+export const getStreaks = (entries: HistoryEntry[], now: number): Streaks => {
+  const days = new Set(
+    completedEntries(entries).map((entry) => startOfDay(endedAtMs(entry)))
+  );
+  const sorted = [...days].sort((a, b) => a - b);
+
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+  sorted.forEach((day) => {
+    run = previous !== null && addDays(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+
+  const today = startOfDay(now);
+  let cursor = days.has(today) ? today : addDays(today, -1);
+  let current = 0;
+  while (days.has(cursor)) {
+    current++;
+    cursor = addDays(cursor, -1);
+  }
+
+  return { current, longest };
+};
+
+export const getOutcomeRates = (entries: HistoryEntry[]): OutcomeRates => {
+  const count = (outcome: HistoryEntry['outcome']) =>
+    entries.filter((entry) => entry.outcome === outcome).length;
+
+  const total = entries.length;
+  const completed = count('completed');
+  const reset = count('reset');
+  const deleted = count('deleted');
+
+  return {
+    total,
+    completed,
+    reset,
+    deleted,
+    completionRate: total > 0 ? completed / total : 0,
+    resetRate: total > 0 ? reset / total : 0,
+  };
+};
+
+/** Completions by local hour of day, 0–23. */
+export const completionsByHour = (entries: HistoryEntry[]): number[] =>
+  completedEntries(entries).reduce((hours: number[], entry) => {
+    hours[new Date(endedAtMs(entry)).getHours()]++;
+    return hours;
+  }, Array(24).fill(0));
+
+/** Hour with the most completions, or null when there are none. */
+export const getBusiestHour = (entries: HistoryEntry[]) => {
+  const hours = completionsByHour(entries);
+  const max = Math.max(...hours);
+  return max > 0 ? hours.indexOf(max) : null;
+};
+
+export const getTotalMinutes = (entries: HistoryEntry[]) =>
+  Math.round(
+    entries.reduce((sum, entry) => sum + getTimedSeconds(entry), 0) / 60
+  );
+
+/** Completed work rounds of interval timers, and all time spent in work. */
+export const getFocusStats = (entries: HistoryEntry[]) => {
+  const focus = entries.filter((entry) => entry.intervalRound !== undefined);
+  return {
+    rounds: focus.filter((entry) => entry.outcome === 'completed').length,
+    minutes: getTotalMinutes(focus),
+  };
+};
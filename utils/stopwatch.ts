@@ -0,0 +1,28 @@
+import { formatNumber, t } from '@/i18n';
+import { Lap, Timer } from '@/types/timer';
+import { formatTime, getDecimalSeparator } from '@/utils/format';
+
+export const hasPassedTarget = (timer: Timer) =>
+  timer.targetTime !== undefined &&
+  (timer.elapsedTime ?? 0) >= timer.targetTime;
+
+/** Shortest lap, ignoring the open lap still being timed. */
+export const getFastestLap = (laps: Lap[]) =>
+  laps.reduce<Lap | null>(
+    (fastest, lap) => (!fastest || lap.lapMs < fastest.lapMs ? lap : fastest),
+    null
+  );
+
+/** Lap times show tenths of a second, e.g. "1:05.3". */
+export const formatLapTime = (ms: number) =>
+  `${formatTime(Math.floor(ms / 1000))}${getDecimalSeparator()}${formatNumber(
+    Math.floor((ms % 1000) / 100)
+  )}`;
+
+export const getTargetReachedTitle = () => t('stopwatch.targetReachedTitle');
+
+export const getTargetReachedMessage = (timer: Timer, target: number) =>
+  t('stopwatch.targetReachedMessage', {
+    name: timer.name,
+    time: formatTime(target),
+  });
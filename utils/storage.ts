@@ -0,0 +1,219 @@
+import { StorageAdapter } from '@/services/storage';
+import {
+  Category,
+  HistoryEntry,
+  Timer,
+  TimerTemplate,
+  ViewSettings,
+} from '@/types/timer';
+import { categoriesFromProfiles } from '@/utils/categories';
+import { getStarterTemplates } from '@/utils/templates';
+import { DEFAULT_VIEW_SETTINGS } from '@/utils/timerList';
+import { validateViewSettings } from '@/utils/validation';
+import {
+  CollectionSchema,
+  decodeCollection,
+  encodeCollection,
+  QuarantinedRecord,
+} from '@/utils/persistence';
+import {
+  categoryProfileSchema,
+  categorySchema,
+  historySchema,
+  templateSchema,
+  timerSchema,
+} from '@/utils/schemas';
+
+const TIMERS_KEY = 'timers';
+const HISTORY_KEY = 'timerHistory';
+const CATEGORIES_KEY = 'categories';
+const TEMPLATES_KEY = 'timerTemplates';
+const VIEW_SETTINGS_KEY = 'viewSettings';
+/** Replaced by `categories`; read once to migrate, then removed. */
+const CATEGORY_PROFILES_KEY = 'categoryAlertProfiles';
+
+/** Most recent quarantined records kept per key. */
+const QUARANTINE_LIMIT = 100;
+
+export const getQuarantineKey = (key: string) => `${key}:quarantine`;
+
+/**
+ * Typed, versioned access to the app's stored collections. Every load
+ * migrates and validates records; anything unreadable is moved to a
+ * quarantine key rather than crashing the app or being silently dropped.
+ */
+export const createTimerStorage = (adapter: StorageAdapter) => {
+  const quarantine = async (key: string, records: QuarantinedRecord[]) => {
+    const quarantineKey = getQuarantineKey(key);
+    const stored = await adapter.getItem(quarantineKey);
+    let existing: QuarantinedRecord[] = [];
+    try {
+      const parsed = stored ? JSON.parse(stored) : [];
+      if (Array.isArray(parsed)) existing = parsed;
+    } catch {
+      // A corrupt quarantine is not worth keeping; start it over.
+    }
+    await adapter.setItem(
+      quarantineKey,
+      JSON.stringify([...existing, ...records].slice(-QUARANTINE_LIMIT))
+    );
+  };
+
+  const load = async <T>(
+    key: string,
+    schema: CollectionSchema<T>,
+    now: number
+  ): Promise<T[]> => {
+    const stored = await adapter.getItem(key);
+    if (stored === null) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stored);
+    } catch {
+      await quarantine(key, [
+        {
+          version: null,
+          record: stored,
+          error: 'invalid JSON',
+          quarantinedAt: new Date(now).toISOString(),
+        },
+      ]);
+      return [];
+    }
+
+    const { records, quarantined } = decodeCollection(schema, parsed, now);
+    if (quarantined.length > 0) {
+      console.warn(
+        `Quarantined ${quarantined.length} unreadable record(s) from "${key}"`
+      );
+      await quarantine(key, quarantined);
+    }
+    return records;
+  };
+
+  const save = <T>(key: string, schema: CollectionSchema<T>, records: T[]) =>
+    adapter.setItem(key, JSON.stringify(encodeCollection(schema, records)));
+
+  return {
+    loadTimers: async (now = Date.now()): Promise<Timer[]> => {
+      try {
+        return await load(TIMERS_KEY, timerSchema, now);
+      } catch (error) {
+        console.error('Error loading timers:', error);
+        return [];
+      }
+    },
+
+    saveTimers: async (timers: Timer[]) => {
+      try {
+        await save(TIMERS_KEY, timerSchema, timers);
+      } catch (error) {
+        console.error('Error saving timers:', error);
+      }
+    },
+
+    loadHistory: async (now = Date.now()): Promise<HistoryEntry[]> => {
+      try {
+        return await load(HISTORY_KEY, historySchema, now);
+      } catch (error) {
+        console.error('Error loading history:', error);
+        return [];
+      }
+    },
+
+    saveHistory: async (history: HistoryEntry[]) => {
+      try {
+        await save(HISTORY_KEY, historySchema, history);
+      } catch (error) {
+        console.error('Error saving to history:', error);
+      }
+    },
+
+    loadCategories: async (now = Date.now()): Promise<Category[]> => {
+      try {
+        if ((await adapter.getItem(CATEGORIES_KEY)) !== null) {
+          return await load(CATEGORIES_KEY, categorySchema, now);
+        }
+        const profiles = await load(
+          CATEGORY_PROFILES_KEY,
+          categoryProfileSchema,
+          now
+        );
+        const categories = categoriesFromProfiles(
+          Object.fromEntries(
+            profiles.map(({ category, profile }) => [category, profile])
+          ),
+          now
+        );
+        await save(CATEGORIES_KEY, categorySchema, categories);
+        await adapter.removeItem(CATEGORY_PROFILES_KEY);
+        return categories;
+      } catch (error) {
+        console.error('Error loading categories:', error);
+        return [];
+      }
+    },
+
+    saveCategories: async (categories: Category[]) => {
+      try {
+        await save(CATEGORIES_KEY, categorySchema, categories);
+      } catch (error) {
+        console.error('Error saving categories:', error);
+      }
+    },
+
+    /** First launch gets the starter presets; after that, whatever is saved. */
+    loadTemplates: async (now = Date.now()): Promise<TimerTemplate[]> => {
+      try {
+        if ((await adapter.getItem(TEMPLATES_KEY)) === null) {
+          return getStarterTemplates();
+        }
+        return await load(TEMPLATES_KEY, templateSchema, now);
+      } catch (error) {
+        console.error('Error loading templates:', error);
+        return [];
+      }
+    },
+
+    saveTemplates: async (templates: TimerTemplate[]) => {
+      try {
+        await save(TEMPLATES_KEY, templateSchema, templates);
+      } catch (error) {
+        console.error('Error saving templates:', error);
+      }
+    },
+
+    /** A single small object, so it is validated whole rather than per record. */
+    loadViewSettings: async (): Promise<ViewSettings> => {
+      try {
+        const stored = await adapter.getItem(VIEW_SETTINGS_KEY);
+        const result = validateViewSettings(stored ? JSON.parse(stored) : null);
+        return result.ok ? result.value : DEFAULT_VIEW_SETTINGS;
+      } catch (error) {
+        console.error('Error loading view settings:', error);
+        return DEFAULT_VIEW_SETTINGS;
+      }
+    },
+
+    saveViewSettings: async (settings: ViewSettings) => {
+      try {
+        await adapter.setItem(VIEW_SETTINGS_KEY, JSON.stringify(settings));
+      } catch (error) {
+        console.error('Error saving view settings:', error);
+      }
+    },
+
+    loadQuarantine: async (key: string): Promise<QuarantinedRecord[]> => {
+      try {
+        const stored = await adapter.getItem(getQuarantineKey(key));
+        return stored ? JSON.parse(stored) : [];
+      } catch (error) {
+        console.error('Error loading quarantined records:', error);
+        return [];
+      }
+    },
+  };
+};
+
+export type TimerStorage = ReturnType<typeof createTimerStorage>;
@@ -0,0 +1,119 @@
+import { t } from '@/i18n';
+import { Timer, TimerTemplate } from '@/types/timer';
+import { formatTime } from '@/utils/format';
+import { initialIntervalProgress } from '@/utils/intervals';
+import {
+  getRoutineStepCount,
+  getRoutineTotalSeconds,
+  initialRoutineProgress,
+} from '@/utils/routines';
+import { resetTimer } from '@/utils/timerEngine';
+
+/**
+ * Offered until the user deletes them; stored like any other template, so
+ * they keep the language they were first created in.
+ */
+export const getStarterTemplates = (): TimerTemplate[] => [
+  {
+    id: 'starter-tea',
+    name: t('templates.starter.tea'),
+    category: t('templates.starter.kitchen'),
+    duration: 3 * 60,
+    alerts: [],
+    builtIn: true,
+  },
+  {
+    id: 'starter-standup',
+    name: t('templates.starter.standup'),
+    category: t('templates.starter.work'),
+    duration: 15 * 60,
+    alerts: [
+      {
+        id: 'starter-standup-wrap-up',
+        trigger: { type: 'remaining', seconds: 2 * 60 },
+        message: t('templates.starter.wrapUp'),
+      },
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'starter-plank',
+    name: t('templates.starter.plank'),
+    category: t('templates.starter.fitness'),
+    duration: 60,
+    alerts: [],
+    builtIn: true,
+  },
+];
+
+/** The timer's setup as it is before any run, without its schedule. */
+export const templateFromTimer = (timer: Timer, id: string): TimerTemplate => {
+  // Routines and intervals mirror their first step or phase once reset.
+  const base = resetTimer(timer);
+  return {
+    id,
+    name: base.name,
+    category: base.category,
+    mode: base.mode,
+    duration: base.duration,
+    alerts: base.alerts,
+    alertProfile: base.alertProfile,
+    routine: base.routine,
+    interval: base.interval,
+    targetTime: base.targetTime,
+  };
+};
+
+export const timerFromTemplate = (template: TimerTemplate, id: string) => {
+  const { builtIn, ...setup } = template;
+  return resetTimer({
+    ...setup,
+    id,
+    remainingTime: setup.duration,
+    status: 'idle',
+    routineProgress: setup.routine ? initialRoutineProgress() : undefined,
+    intervalProgress: setup.interval ? initialIntervalProgress() : undefined,
+  });
+};
+
+/** Adds the template, or replaces the one with the same id. */
+export const upsertTemplate = (
+  templates: TimerTemplate[],
+  template: TimerTemplate
+) =>
+  templates.some((t) => t.id === template.id)
+    ? templates.map((t) => (t.id === template.id ? template : t))
+    : [...templates, template];
+
+export const describeTemplate = (template: TimerTemplate) => {
+  if (template.mode === 'stopwatch') {
+    return template.targetTime === undefined
+      ? t('templates.stopwatch')
+      : t('templates.stopwatchTarget', {
+          time: formatTime(template.targetTime),
+        });
+  }
+  if (template.routine) {
+    return t('templates.routine', {
+      count: getRoutineStepCount(template.routine),
+      time: formatTime(getRoutineTotalSeconds(template.routine)),
+    });
+  }
+  if (template.interval) {
+    return t('templates.interval', {
+      work: formatTime(template.interval.work),
+      rest: formatTime(template.interval.shortBreak),
+    });
+  }
+  return formatTime(template.duration);
+};
+
+/** Templates grouped by category name, in the order they were saved. */
+export const groupTemplates = (templates: TimerTemplate[]) =>
+  templates.reduce<Record<string, TimerTemplate[]>>((groups, template) => {
+    if (!groups[template.category]) {
+      groups[template.category] = [];
+    }
+    groups[template.category].push(template);
+    return groups;
+  }, {});
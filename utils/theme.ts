@@ -0,0 +1,130 @@
+import { TimerStatus } from '@/types/timer';
+
+export type ColorScheme = 'light' | 'dark';
+
+/** `system` follows the device setting. */
+export type ThemePreference = 'system' | ColorScheme;
+
+export const THEME_PREFERENCES: ThemePreference[] = ['system', 'light', 'dark'];
+
+/** Semantic colours; components use these rather than raw hex values. */
+export type ThemeColors = {
+  /** Screen background behind cards. */
+  background: string;
+  /** Cards, sheets, headers and the tab bar. */
+  surface: string;
+  /** Inputs, chips and other fills sitting on a surface. */
+  surfaceMuted: string;
+  border: string;
+  borderStrong: string;
+  text: string;
+  textBody: string;
+  textSecondary: string;
+  textMuted: string;
+  accent: string;
+  accentStrong: string;
+  accentSoft: string;
+  /** Text and icons on accent, danger and success fills. */
+  onAccent: string;
+  onAccentMuted: string;
+  danger: string;
+  dangerStrong: string;
+  dangerSoft: string;
+  success: string;
+  successStrong: string;
+  warning: string;
+  /** The snackbar, which stands out against either scheme. */
+  inverseSurface: string;
+  inverseText: string;
+  inverseAccent: string;
+  overlay: string;
+  shadow: string;
+  status: Record<TimerStatus, string>;
+};
+
+export type Theme = {
+  scheme: ColorScheme;
+  colors: ThemeColors;
+};
+
+const lightColors: ThemeColors = {
+  background: '#F3F4F6',
+  surface: '#fff',
+  surfaceMuted: '#F9FAFB',
+  border: '#E5E7EB',
+  borderStrong: '#D1D5DB',
+  text: '#1F2937',
+  textBody: '#4B5563',
+  textSecondary: '#6B7280',
+  textMuted: '#9CA3AF',
+  accent: '#007AFF',
+  accentStrong: '#0056B3',
+  accentSoft: '#EBF5FF',
+  onAccent: '#fff',
+  onAccentMuted: 'rgba(255, 255, 255, 0.85)',
+  danger: '#EF4444',
+  dangerStrong: '#B91C1C',
+  dangerSoft: '#FEF2F2',
+  success: '#10B981',
+  successStrong: '#059669',
+  warning: '#F59E0B',
+  inverseSurface: '#1F2937',
+  inverseText: '#fff',
+  inverseAccent: '#60A5FA',
+  overlay: 'rgba(0, 0, 0, 0.5)',
+  shadow: '#000',
+  status: {
+    idle: '#6B7280',
+    running: '#007AFF',
+    paused: '#6B7280',
+    completed: '#10B981',
+  },
+};
+
+const darkColors: ThemeColors = {
+  background: '#111827',
+  surface: '#1F2937',
+  surfaceMuted: '#273244',
+  border: '#374151',
+  borderStrong: '#4B5563',
+  text: '#F9FAFB',
+  textBody: '#D1D5DB',
+  textSecondary: '#9CA3AF',
+  textMuted: '#6B7280',
+  accent: '#0A84FF',
+  accentStrong: '#0060DF',
+  accentSoft: '#1E3A5F',
+  onAccent: '#fff',
+  onAccentMuted: 'rgba(255, 255, 255, 0.85)',
+  danger: '#F87171',
+  dangerStrong: '#FCA5A5',
+  dangerSoft: '#3B1D1D',
+  success: '#34D399',
+  successStrong: '#10B981',
+  warning: '#FBBF24',
+  inverseSurface: '#F9FAFB',
+  inverseText: '#1F2937',
+  inverseAccent: '#007AFF',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+  shadow: '#000',
+  status: {
+    idle: '#9CA3AF',
+    running: '#0A84FF',
+    paused: '#9CA3AF',
+    completed: '#34D399',
+  },
+};
+
+export const THEMES: Record<ColorScheme, Theme> = {
+  light: { scheme: 'light', colors: lightColors },
+  dark: { scheme: 'dark', colors: darkColors },
+};
+
+/** The device reports `null` when it has no preference; that means light. */
+export const resolveColorScheme = (
+  preference: ThemePreference,
+  system: ColorScheme | null | undefined
+): ColorScheme => (preference === 'system' ? system ?? 'light' : preference);
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_PREFERENCES.includes(value as ThemePreference);
@@ -0,0 +1,425 @@
+import {
+  IntervalPhase,
+  LegacyTimer,
+  RoutineProgress,
+  RoutineStepRecord,
+  Timer,
+  TimerAlert,
+} from '@/types/timer';
+import { getAlertOffsetMs } from '@/utils/alerts';
+import {
+  getCurrentRoutineStep,
+  getNextRoutinePosition,
+  initialRoutineProgress,
+  loadRoutineStep,
+} from '@/utils/routines';
+import {
+  getNextIntervalProgress,
+  initialIntervalProgress,
+  loadIntervalPhase,
+  shouldAutoStart,
+} from '@/utils/intervals';
+import { getLatestOccurrence, getNextOccurrence } from '@/utils/schedule';
+
+export type TimerEvent =
+  | { type: 'alert'; timer: Timer; alert: TimerAlert }
+  | { type: 'stepCompleted'; timer: Timer; step: RoutineStepRecord }
+  | {
+      type: 'phaseCompleted';
+      timer: Timer;
+      phase: IntervalPhase;
+      completedAt: number;
+    }
+  | { type: 'completed'; timer: Timer; completedAt: number }
+  | {
+      type: 'scheduledStart';
+      timer: Timer;
+      startedAt: number;
+      /** The timer was already running or paused, so it was left alone. */
+      skipped: boolean;
+    };
+
+/**
+ * Milliseconds the timer has actually been running, derived from its
+ * start/pause timestamps rather than from a tick counter.
+ */
+export const getElapsedMs = (timer: Timer, now: number) => {
+  if (timer.startedAt === undefined) {
+    return (timer.duration - timer.remainingTime) * 1000;
+  }
+  const end =
+    timer.status === 'paused' && timer.pausedAt ? timer.pausedAt : now;
+  return Math.max(0, end - timer.startedAt - (timer.accumulatedPausedMs ?? 0));
+};
+
+export const isStopwatch = (timer: Timer) => timer.mode === 'stopwatch';
+
+export const getRemainingSeconds = (timer: Timer, now: number) => {
+  if (timer.status === 'completed') return 0;
+  const remainingMs = timer.duration * 1000 - getElapsedMs(timer, now);
+  return Math.max(0, Math.ceil(remainingMs / 1000));
+};
+
+/** Total time spent paused, including a pause that is still ongoing. */
+export const getPausedMs = (timer: Timer, now: number) =>
+  (timer.accumulatedPausedMs ?? 0) +
+  (timer.status === 'paused' && timer.pausedAt ? now - timer.pausedAt : 0);
+
+/** Wall-clock time at which a running timer reaches zero. */
+export const getFinishTime = (timer: Timer) =>
+  (timer.startedAt ?? 0) +
+  (timer.accumulatedPausedMs ?? 0) +
+  timer.duration * 1000;
+
+export const startTimer = (timer: Timer, now: number): Timer => {
+  if (timer.status === 'running' || timer.status === 'completed') return timer;
+
+  if (timer.status === 'paused' && timer.startedAt !== undefined) {
+    return {
+      ...timer,
+      status: 'running',
+      lastUsedAt: now,
+      pausedAt: undefined,
+      accumulatedPausedMs:
+        (timer.accumulatedPausedMs ?? 0) + (now - (timer.pausedAt ?? now)),
+    };
+  }
+
+  // Idle timers, or paused timers stored before timestamps existed, start
+  // from whatever time they still have left.
+  return {
+    ...timer,
+    status: 'running',
+    lastUsedAt: now,
+    startedAt: now - (timer.duration - timer.remainingTime) * 1000,
+    pausedAt: undefined,
+    accumulatedPausedMs: 0,
+    pauseCount: timer.pauseCount ?? 0,
+  };
+};
+
+export const pauseTimer = (timer: Timer, now: number): Timer => {
+  if (timer.status !== 'running') return timer;
+  return {
+    ...timer,
+    status: 'paused',
+    pausedAt: now,
+    pauseCount: (timer.pauseCount ?? 0) + 1,
+    remainingTime: getRemainingSeconds(timer, now),
+    elapsedTime: isStopwatch(timer)
+      ? Math.floor(getElapsedMs(timer, now) / 1000)
+      : timer.elapsedTime,
+  };
+};
+
+/** Adds a lap at the stopwatch's current time. Only running stopwatches. */
+export const recordLap = (timer: Timer, now: number): Timer => {
+  if (!isStopwatch(timer) || timer.status !== 'running') return timer;
+  const laps = timer.laps ?? [];
+  const totalMs = getElapsedMs(timer, now);
+  const previousMs = laps.length > 0 ? laps[laps.length - 1].totalMs : 0;
+  return {
+    ...timer,
+    laps: [
+      ...laps,
+      { number: laps.length + 1, totalMs, lapMs: totalMs - previousMs },
+    ],
+  };
+};
+
+/**
+ * Stops a stopwatch for good. A pause still in progress is folded into the
+ * paused total so the elapsed time stays fixed afterwards.
+ */
+export const stopStopwatch = (timer: Timer, now: number): Timer => ({
+  ...timer,
+  status: 'completed',
+  elapsedTime: Math.floor(getElapsedMs(timer, now) / 1000),
+  accumulatedPausedMs: getPausedMs(timer, now),
+  pausedAt: undefined,
+  completedAt: now,
+});
+
+/** Back to idle with the full duration, keeping step or phase progress. */
+const clearRun = (timer: Timer): Timer => ({
+  ...timer,
+  status: 'idle',
+  remainingTime: timer.duration,
+  triggeredAlerts: undefined,
+  alarmRinging: undefined,
+  startedAt: undefined,
+  pausedAt: undefined,
+  accumulatedPausedMs: undefined,
+  pauseCount: undefined,
+  completedAt: undefined,
+  elapsedTime: undefined,
+  laps: undefined,
+});
+
+export const resetTimer = (timer: Timer): Timer => {
+  const reset = clearRun(timer);
+  // Routines and interval timers go back to their first step or phase.
+  if (timer.routine) return loadRoutineStep(reset, initialRoutineProgress());
+  if (timer.interval)
+    return loadIntervalPhase(reset, initialIntervalProgress());
+  return reset;
+};
+
+export const duplicateTimer = (timer: Timer, id: string): Timer =>
+  resetTimer({
+    ...timer,
+    id,
+    name: `${timer.name} (copy)`,
+    lastUsedAt: undefined,
+  });
+
+/** Summary of the routine step the timer is on, as of `endedAt`. */
+export const createStepRecord = (
+  timer: Timer,
+  endedAt: number
+): RoutineStepRecord => {
+  const step = getCurrentRoutineStep(timer);
+  return {
+    stepId: step?.id ?? timer.id,
+    name: step?.name ?? timer.name,
+    round: timer.routineProgress?.round ?? 1,
+    duration: timer.duration,
+    activeSeconds: Math.round(getElapsedMs(timer, endedAt) / 1000),
+    totalPausedMs: getPausedMs(timer, endedAt),
+    pauseCount: timer.pauseCount ?? 0,
+    startedAt: new Date(timer.startedAt ?? endedAt).toISOString(),
+    endedAt: new Date(endedAt).toISOString(),
+  };
+};
+
+/**
+ * Moves a routine on to its next step, started the moment the previous one
+ * finished, then syncs again in case that step has also run out.
+ */
+const advanceRoutine = (
+  timer: Timer,
+  next: Pick<RoutineProgress, 'stepIndex' | 'round'>,
+  completedAt: number,
+  now: number
+): { timer: Timer; events: TimerEvent[] } => {
+  const step = createStepRecord(timer, completedAt);
+  const advanced: Timer = {
+    ...loadRoutineStep(timer, {
+      ...next,
+      completedSteps: [...(timer.routineProgress?.completedSteps ?? []), step],
+    }),
+    startedAt: completedAt,
+    pausedAt: undefined,
+    accumulatedPausedMs: 0,
+    pauseCount: 0,
+  };
+  const result = syncRun(advanced, now);
+  return {
+    timer: result.timer,
+    events: [
+      { type: 'stepCompleted', timer: advanced, step },
+      ...result.events,
+    ],
+  };
+};
+
+/**
+ * Moves an interval timer on to its next phase. The phase runs straight
+ * away if the settings auto-start it, otherwise it waits to be started.
+ */
+const advanceInterval = (
+  timer: Timer,
+  completedAt: number,
+  now: number
+): { timer: Timer; events: TimerEvent[] } => {
+  const settings = timer.interval;
+  const progress = timer.intervalProgress ?? initialIntervalProgress();
+  if (!settings) return { timer, events: [] };
+
+  const next = getNextIntervalProgress(progress, settings);
+  const event: TimerEvent = {
+    type: 'phaseCompleted',
+    timer: { ...timer, remainingTime: 0 },
+    phase: progress.phase,
+    completedAt,
+  };
+
+  if (!shouldAutoStart(settings, next.phase)) {
+    return {
+      timer: clearRun(loadIntervalPhase(timer, next)),
+      events: [event],
+    };
+  }
+
+  const advanced: Timer = {
+    ...loadIntervalPhase(timer, next),
+    startedAt: completedAt,
+    pausedAt: undefined,
+    accumulatedPausedMs: 0,
+    pauseCount: 0,
+  };
+  const result = syncRun(advanced, now);
+  return { timer: result.timer, events: [event, ...result.events] };
+};
+
+/**
+ * Brings the current run up to date with the clock, completing it and
+ * raising any alert checkpoints that have passed since it was last synced.
+ */
+const syncRun = (
+  timer: Timer,
+  now: number
+): { timer: Timer; events: TimerEvent[] } => {
+  if (timer.status !== 'running') return { timer, events: [] };
+
+  if (isStopwatch(timer)) {
+    // Stopwatches never finish on their own; just refresh the display.
+    const elapsedTime = Math.floor(getElapsedMs(timer, now) / 1000);
+    return {
+      timer:
+        elapsedTime === timer.elapsedTime ? timer : { ...timer, elapsedTime },
+      events: [],
+    };
+  }
+
+  const remainingTime = getRemainingSeconds(timer, now);
+
+  if (remainingTime <= 0) {
+    const completedAt = Math.min(now, getFinishTime(timer));
+    const next = getNextRoutinePosition(timer);
+    if (next) return advanceRoutine(timer, next, completedAt, now);
+    if (timer.interval) return advanceInterval(timer, completedAt, now);
+
+    const completed: Timer = {
+      ...timer,
+      remainingTime: 0,
+      status: 'completed',
+      completedAt,
+    };
+    return {
+      timer: completed,
+      events: [{ type: 'completed', timer: completed, completedAt }],
+    };
+  }
+
+  const elapsedMs = getElapsedMs(timer, now);
+  const triggered = timer.triggeredAlerts ?? [];
+  const due = timer.alerts.filter(
+    (alert) =>
+      !triggered.includes(alert.id) &&
+      getAlertOffsetMs(alert, timer.duration) <= elapsedMs
+  );
+
+  if (due.length > 0) {
+    const alerted: Timer = {
+      ...timer,
+      remainingTime,
+      triggeredAlerts: [...triggered, ...due.map((alert) => alert.id)],
+    };
+    return {
+      timer: alerted,
+      events: due.map((alert) => ({ type: 'alert', timer: alerted, alert })),
+    };
+  }
+
+  if (remainingTime === timer.remainingTime) return { timer, events: [] };
+  return { timer: { ...timer, remainingTime }, events: [] };
+};
+
+/**
+ * Starts a timer from scratch at its planned start and moves the plan on to
+ * the first occurrence after `now`. A timer that is busy keeps its current
+ * run.
+ */
+const startScheduled = (
+  timer: Timer,
+  startAt: number,
+  now: number
+): { timer: Timer; event: TimerEvent } => {
+  const next = timer.schedule ? getNextOccurrence(timer.schedule, now) : null;
+  const planned: Timer = {
+    ...timer,
+    // One-off schedules are used up once they fire.
+    schedule: timer.schedule?.type === 'once' ? undefined : timer.schedule,
+    nextStartAt: next ?? undefined,
+  };
+  const skipped = timer.status === 'running' || timer.status === 'paused';
+  const started = skipped ? planned : startTimer(resetTimer(planned), startAt);
+  return {
+    timer: started,
+    event: {
+      type: 'scheduledStart',
+      timer: started,
+      startedAt: startAt,
+      skipped,
+    },
+  };
+};
+
+/**
+ * Brings a timer up to date with the clock. When several scheduled starts
+ * fell due since the last sync, e.g. while the app was closed, only the
+ * latest one runs; the ones before it never happened and are not logged.
+ */
+export const syncTimer = (
+  timer: Timer,
+  now: number
+): { timer: Timer; events: TimerEvent[] } => {
+  if (timer.nextStartAt === undefined || timer.nextStartAt > now) {
+    return syncRun(timer, now);
+  }
+
+  const startAt = timer.schedule
+    ? getLatestOccurrence(timer.schedule, timer.nextStartAt, now)
+    : timer.nextStartAt;
+  const beforeStart = syncRun(timer, startAt);
+  const scheduled = startScheduled(beforeStart.timer, startAt, now);
+  const result = syncRun(scheduled.timer, now);
+  return {
+    timer: result.timer,
+    events: [...beforeStart.events, scheduled.event, ...result.events],
+  };
+};
+
+export const syncTimers = (timers: Timer[], now: number) => {
+  const events: TimerEvent[] = [];
+  const synced = timers.map((timer) => {
+    const result = syncTimer(timer, now);
+    events.push(...result.events);
+    return result.timer;
+  });
+  return { timers: synced, events };
+};
+
+const migrateAlerts = (timer: LegacyTimer): Timer => {
+  if (timer.alerts) return timer as Timer;
+
+  const { halfwayAlert, halfwayAlertTriggered, ...rest } = timer;
+  const alerts: TimerAlert[] = halfwayAlert
+    ? [{ id: 'halfway', trigger: { type: 'percent', percent: 50 } }]
+    : [];
+  return {
+    ...rest,
+    alerts,
+    triggeredAlerts: halfwayAlert && halfwayAlertTriggered ? ['halfway'] : [],
+  };
+};
+
+/**
+ * Upgrades stored timers: the old halfway flag becomes a 50% checkpoint, and
+ * timers saved before timestamps were tracked get a start time consistent
+ * with their stored remaining time, so they can be driven by the clock.
+ */
+export const migrateTimer = (legacy: LegacyTimer, now: number): Timer => {
+  const timer = migrateAlerts(legacy);
+  if (timer.startedAt !== undefined || timer.status === 'idle') return timer;
+  if (timer.status === 'completed') return { ...timer, remainingTime: 0 };
+
+  const startedAt = now - (timer.duration - timer.remainingTime) * 1000;
+  return {
+    ...timer,
+    startedAt,
+    accumulatedPausedMs: 0,
+    pausedAt: timer.status === 'paused' ? now : undefined,
+  };
+};
@@ -0,0 +1,75 @@
+import { MessageKey } from '@/i18n';
+import { SortMode, StatusFilter, Timer, ViewSettings } from '@/types/timer';
+import { isStopwatch } from '@/utils/timerEngine';
+
+export const DEFAULT_VIEW_SETTINGS: ViewSettings = {
+  sortMode: 'created',
+  statusFilter: 'all',
+  expandedCategories: [],
+};
+
+export const SORT_MODES: { value: SortMode; label: MessageKey }[] = [
+  { value: 'created', label: 'timerList.sort.created' },
+  { value: 'remaining', label: 'timerList.sort.remaining' },
+  { value: 'name', label: 'timerList.sort.name' },
+  { value: 'recent', label: 'timerList.sort.recent' },
+];
+
+export const STATUS_FILTERS: { value: StatusFilter; label: MessageKey }[] = [
+  { value: 'all', label: 'timerList.status.all' },
+  { value: 'running', label: 'timerList.status.running' },
+  { value: 'paused', label: 'timerList.status.paused' },
+  { value: 'completed', label: 'timerList.status.completed' },
+  { value: 'idle', label: 'timerList.status.idle' },
+];
+
+/** Matches the query against the timer's name and category, ignoring case. */
+const matchesQuery = (timer: Timer, query: string) => {
+  const normalized = query.trim().toLocaleLowerCase();
+  return (
+    !normalized ||
+    timer.name.toLocaleLowerCase().includes(normalized) ||
+    timer.category.toLocaleLowerCase().includes(normalized)
+  );
+};
+
+export const filterTimers = (
+  timers: Timer[],
+  query: string,
+  statusFilter: StatusFilter
+) =>
+  timers.filter(
+    (timer) =>
+      (statusFilter === 'all' || timer.status === statusFilter) &&
+      matchesQuery(timer, query)
+  );
+
+/**
+ * Countdowns with the least time left come first; stopwatches, which have
+ * no end, follow them, and finished timers go last.
+ */
+const getRemainingRank = (timer: Timer) => {
+  if (timer.status === 'completed') return Number.MAX_SAFE_INTEGER;
+  if (isStopwatch(timer)) return Number.MAX_SAFE_INTEGER - 1;
+  return timer.remainingTime;
+};
+
+/** Sorts a copy; timers that tie keep their created order. */
+export const sortTimers = (timers: Timer[], sortMode: SortMode) => {
+  switch (sortMode) {
+    case 'remaining':
+      return [...timers].sort(
+        (a, b) => getRemainingRank(a) - getRemainingRank(b)
+      );
+    case 'name':
+      return [...timers].sort((a, b) =>
+        a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+      );
+    case 'recent':
+      return [...timers].sort(
+        (a, b) => (b.lastUsedAt ?? 0) - (a.lastUsedAt ?? 0)
+      );
+    default:
+      return timers;
+  }
+};
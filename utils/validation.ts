@@ -0,0 +1,534 @@
+import {
+  AlertProfile,
+  Category,
+  HistoryEntry,
+  HistoryOutcome,
+  IntervalPhase,
+  IntervalProgress,
+  IntervalSettings,
+  Lap,
+  LegacyHistoryEntry,
+  LegacyTimer,
+  Routine,
+  RoutineProgress,
+  RoutineStep,
+  RoutineStepRecord,
+  SortMode,
+  StatusFilter,
+  Timer,
+  TimerAlert,
+  TimerSchedule,
+  TimerStatus,
+  TimerTemplate,
+  ViewSettings,
+  Weekday,
+} from '@/types/timer';
+import { MAX_SCHEDULE_HOURS } from '@/utils/schedule';
+import { CATEGORY_COLORS, CATEGORY_ICONS } from '@/utils/categories';
+import {
+  DEFAULT_VIEW_SETTINGS,
+  SORT_MODES,
+  STATUS_FILTERS,
+} from '@/utils/timerList';
+
+export type ValidationResult<T, E = string> =
+  | { ok: true; value: T }
+  | { ok: false; error: E };
+
+/** Why a stored or imported record was rejected; shown through `t`. */
+export type RecordError =
+  | 'notObject'
+  | 'notList'
+  | 'missingId'
+  | 'missingName'
+  | 'missingCategory'
+  | 'missingTimerId'
+  | 'stopwatchDuration'
+  | 'invalidDuration'
+  | 'unknownStatus'
+  | 'invalidEndDate'
+  | 'unknownOutcome'
+  | 'invalidAlertProfile';
+
+type RecordResult<T> = ValidationResult<T, RecordError>;
+
+type Raw = Record<string, unknown>;
+
+const STATUSES: TimerStatus[] = ['idle', 'running', 'paused', 'completed'];
+const OUTCOMES: HistoryOutcome[] = ['completed', 'reset', 'deleted'];
+const PHASES: IntervalPhase[] = ['work', 'shortBreak', 'longBreak'];
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isDateString = (value: unknown): value is string =>
+  typeof value === 'string' && !isNaN(Date.parse(value));
+
+const optionalNumber = (value: unknown) =>
+  isFiniteNumber(value) ? value : undefined;
+
+const fail = (error: RecordError): { ok: false; error: RecordError } => ({
+  ok: false,
+  error,
+});
+
+const validateAlert = (raw: unknown): TimerAlert | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id) || !isObject(raw.trigger)) {
+    return null;
+  }
+  const { trigger } = raw;
+  if (trigger.type === 'percent' && isFiniteNumber(trigger.percent)) {
+    return {
+      id: raw.id,
+      trigger: { type: 'percent', percent: trigger.percent },
+      message: typeof raw.message === 'string' ? raw.message : undefined,
+    };
+  }
+  if (trigger.type === 'remaining' && isFiniteNumber(trigger.seconds)) {
+    return {
+      id: raw.id,
+      trigger: { type: 'remaining', seconds: trigger.seconds },
+      message: typeof raw.message === 'string' ? raw.message : undefined,
+    };
+  }
+  return null;
+};
+
+const validateAlertProfile = (raw: unknown): AlertProfile | undefined => {
+  if (!isObject(raw)) return undefined;
+  const { sound, repeat, haptic, volume } = raw;
+  if (
+    !['none', 'chime', 'beep', 'bell'].includes(sound as string) ||
+    !['once', 'untilDismissed'].includes(repeat as string) ||
+    !['none', 'light', 'heavy', 'success', 'pulse'].includes(
+      haptic as string
+    ) ||
+    !isFiniteNumber(volume)
+  ) {
+    return undefined;
+  }
+  return raw as AlertProfile;
+};
+
+const validateRoutineStep = (raw: unknown): RoutineStep | null => {
+  if (
+    !isObject(raw) ||
+    !isNonEmptyString(raw.id) ||
+    !isNonEmptyString(raw.name) ||
+    !isFiniteNumber(raw.duration) ||
+    raw.duration <= 0
+  ) {
+    return null;
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    duration: raw.duration,
+    alerts: Array.isArray(raw.alerts)
+      ? raw.alerts
+          .map(validateAlert)
+          .filter((alert): alert is TimerAlert => alert !== null)
+      : [],
+  };
+};
+
+const validateRoutine = (raw: unknown): Routine | undefined => {
+  if (!isObject(raw) || !Array.isArray(raw.steps)) return undefined;
+  const steps = raw.steps
+    .map(validateRoutineStep)
+    .filter((step): step is RoutineStep => step !== null);
+  if (steps.length === 0) return undefined;
+  return {
+    steps,
+    repeat:
+      isFiniteNumber(raw.repeat) && raw.repeat >= 1
+        ? Math.floor(raw.repeat)
+        : 1,
+  };
+};
+
+const validateStepRecord = (raw: unknown): RoutineStepRecord | null => {
+  if (
+    !isObject(raw) ||
+    !isNonEmptyString(raw.stepId) ||
+    !isNonEmptyString(raw.name) ||
+    !isDateString(raw.startedAt) ||
+    !isDateString(raw.endedAt)
+  ) {
+    return null;
+  }
+  return {
+    stepId: raw.stepId,
+    name: raw.name,
+    round: optionalNumber(raw.round) ?? 1,
+    duration: optionalNumber(raw.duration) ?? 0,
+    activeSeconds: optionalNumber(raw.activeSeconds) ?? 0,
+    totalPausedMs: optionalNumber(raw.totalPausedMs) ?? 0,
+    pauseCount: optionalNumber(raw.pauseCount) ?? 0,
+    startedAt: raw.startedAt,
+    endedAt: raw.endedAt,
+  };
+};
+
+const validateStepRecords = (raw: unknown) =>
+  Array.isArray(raw)
+    ? raw
+        .map(validateStepRecord)
+        .filter((step): step is RoutineStepRecord => step !== null)
+    : undefined;
+
+const validateRoutineProgress = (
+  raw: unknown,
+  routine: Routine
+): RoutineProgress => {
+  const progress = isObject(raw) ? raw : {};
+  const stepIndex = progress.stepIndex;
+  const round = progress.round;
+  return {
+    stepIndex:
+      isFiniteNumber(stepIndex) &&
+      stepIndex >= 0 &&
+      stepIndex < routine.steps.length
+        ? stepIndex
+        : 0,
+    round:
+      isFiniteNumber(round) && round >= 1 && round <= routine.repeat
+        ? round
+        : 1,
+    completedSteps: validateStepRecords(progress.completedSteps) ?? [],
+  };
+};
+
+const isPositive = (value: unknown): value is number =>
+  isFiniteNumber(value) && value > 0;
+
+const validateInterval = (raw: unknown): IntervalSettings | undefined => {
+  if (
+    !isObject(raw) ||
+    !isPositive(raw.work) ||
+    !isPositive(raw.shortBreak) ||
+    !isPositive(raw.longBreak) ||
+    !isPositive(raw.roundsBeforeLongBreak)
+  ) {
+    return undefined;
+  }
+  return {
+    work: raw.work,
+    shortBreak: raw.shortBreak,
+    longBreak: raw.longBreak,
+    roundsBeforeLongBreak: Math.floor(raw.roundsBeforeLongBreak),
+    autoStartBreaks: raw.autoStartBreaks === true,
+    autoStartWork: raw.autoStartWork === true,
+  };
+};
+
+const validateIntervalProgress = (
+  raw: unknown,
+  settings: IntervalSettings
+): IntervalProgress => {
+  const progress = isObject(raw) ? raw : {};
+  const round = progress.round;
+  return {
+    phase: PHASES.includes(progress.phase as IntervalPhase)
+      ? (progress.phase as IntervalPhase)
+      : 'work',
+    round:
+      isFiniteNumber(round) &&
+      round >= 1 &&
+      round <= settings.roundsBeforeLongBreak
+        ? round
+        : 1,
+    completedRounds: optionalNumber(progress.completedRounds) ?? 0,
+  };
+};
+
+const validateLaps = (raw: unknown) =>
+  Array.isArray(raw)
+    ? raw.filter(
+        (lap): lap is Lap =>
+          isObject(lap) &&
+          isFiniteNumber(lap.number) &&
+          isFiniteNumber(lap.totalMs) &&
+          isFiniteNumber(lap.lapMs)
+      )
+    : undefined;
+
+const isIntegerIn = (value: unknown, min: number, max: number) =>
+  typeof value === 'number' &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+const validateSchedule = (raw: unknown): TimerSchedule | undefined => {
+  if (!isObject(raw)) return undefined;
+  if (raw.type === 'once' && isFiniteNumber(raw.at)) {
+    return { type: 'once', at: raw.at };
+  }
+  const { hour, minute } = raw;
+  if (!isIntegerIn(hour, 0, 23) || !isIntegerIn(minute, 0, 59)) {
+    return undefined;
+  }
+  const time = { hour: hour as number, minute: minute as number };
+  if (raw.type === 'daily' && Array.isArray(raw.days)) {
+    const days = raw.days.filter((day): day is Weekday =>
+      isIntegerIn(day, 0, 6)
+    );
+    return days.length > 0 ? { type: 'daily', ...time, days } : undefined;
+  }
+  if (
+    raw.type === 'everyHours' &&
+    isIntegerIn(raw.hours, 1, MAX_SCHEDULE_HOURS)
+  ) {
+    return { type: 'everyHours', hours: raw.hours as number, ...time };
+  }
+  return undefined;
+};
+
+/** Just enough of the unversioned timer shape for `migrateTimer` to run. */
+export const isLegacyTimer = (raw: unknown): raw is LegacyTimer =>
+  isObject(raw) &&
+  STATUSES.includes(raw.status as TimerStatus) &&
+  isFiniteNumber(raw.duration) &&
+  isFiniteNumber(raw.remainingTime);
+
+/** Checks the fields every timer needs and drops malformed optional ones. */
+export const validateTimer = (raw: unknown): RecordResult<Timer> => {
+  if (!isObject(raw)) return fail('notObject');
+  if (!isNonEmptyString(raw.id)) return fail('missingId');
+  if (!isNonEmptyString(raw.name)) return fail('missingName');
+  if (!isNonEmptyString(raw.category)) return fail('missingCategory');
+  const mode = raw.mode === 'stopwatch' ? 'stopwatch' : 'countdown';
+  if (mode === 'stopwatch') {
+    if (raw.duration !== undefined && raw.duration !== 0) {
+      return fail('stopwatchDuration');
+    }
+  } else if (!isFiniteNumber(raw.duration) || raw.duration <= 0) {
+    return fail('invalidDuration');
+  }
+  const duration = isFiniteNumber(raw.duration) ? raw.duration : 0;
+  if (!STATUSES.includes(raw.status as TimerStatus)) {
+    return fail('unknownStatus');
+  }
+
+  const alerts = Array.isArray(raw.alerts)
+    ? raw.alerts
+        .map(validateAlert)
+        .filter((alert): alert is TimerAlert => alert !== null)
+    : [];
+  const routine = validateRoutine(raw.routine);
+  const interval = routine ? undefined : validateInterval(raw.interval);
+  const schedule = validateSchedule(raw.schedule);
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      name: raw.name,
+      category: raw.category,
+      mode,
+      duration,
+      remainingTime: isFiniteNumber(raw.remainingTime)
+        ? Math.min(Math.max(raw.remainingTime, 0), duration)
+        : duration,
+      status: raw.status as TimerStatus,
+      alerts,
+      triggeredAlerts: Array.isArray(raw.triggeredAlerts)
+        ? raw.triggeredAlerts.filter(isNonEmptyString)
+        : undefined,
+      alertProfile: validateAlertProfile(raw.alertProfile),
+      alarmRinging: raw.alarmRinging === true ? true : undefined,
+      startedAt: optionalNumber(raw.startedAt),
+      pausedAt: optionalNumber(raw.pausedAt),
+      accumulatedPausedMs: optionalNumber(raw.accumulatedPausedMs),
+      pauseCount: optionalNumber(raw.pauseCount),
+      completedAt: optionalNumber(raw.completedAt),
+      lastUsedAt: optionalNumber(raw.lastUsedAt),
+      routine,
+      routineProgress: routine
+        ? validateRoutineProgress(raw.routineProgress, routine)
+        : undefined,
+      targetTime:
+        isFiniteNumber(raw.targetTime) && raw.targetTime > 0
+          ? raw.targetTime
+          : undefined,
+      elapsedTime: optionalNumber(raw.elapsedTime),
+      laps: validateLaps(raw.laps),
+      interval,
+      intervalProgress: interval
+        ? validateIntervalProgress(raw.intervalProgress, interval)
+        : undefined,
+      schedule,
+      nextStartAt: schedule ? optionalNumber(raw.nextStartAt) : undefined,
+    },
+  };
+};
+
+/** Accepts current entries and the unversioned `completedAt` shape. */
+export const validateHistoryEntry = (
+  raw: unknown
+): RecordResult<HistoryEntry> => {
+  if (!isObject(raw)) return fail('notObject');
+  if (!isNonEmptyString(raw.timerId)) return fail('missingTimerId');
+  if (!isNonEmptyString(raw.name)) return fail('missingName');
+  if (typeof raw.category !== 'string') return fail('missingCategory');
+
+  const endedAt = raw.endedAt ?? raw.completedAt;
+  if (!isDateString(endedAt)) return fail('invalidEndDate');
+
+  const outcome = raw.outcome ?? 'completed';
+  if (!OUTCOMES.includes(outcome as HistoryOutcome)) {
+    return fail('unknownOutcome');
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: isNonEmptyString(raw.id)
+        ? raw.id
+        : `${raw.timerId}-${Date.parse(endedAt)}`,
+      timerId: raw.timerId,
+      name: raw.name,
+      category: raw.category,
+      outcome: outcome as HistoryOutcome,
+      endedAt,
+      startedAt: isDateString(raw.startedAt) ? raw.startedAt : undefined,
+      duration: optionalNumber(raw.duration),
+      activeSeconds: optionalNumber(raw.activeSeconds),
+      totalPausedMs: optionalNumber(raw.totalPausedMs),
+      pauseCount: optionalNumber(raw.pauseCount),
+      steps: validateStepRecords(raw.steps),
+      intervalRound: optionalNumber(raw.intervalRound),
+      laps: validateLaps(raw.laps),
+    },
+  };
+};
+
+export const isLegacyHistoryEntry = (raw: unknown): raw is LegacyHistoryEntry =>
+  isObject(raw) &&
+  isNonEmptyString(raw.timerId) &&
+  typeof raw.name === 'string' &&
+  typeof raw.category === 'string' &&
+  isDateString(raw.completedAt);
+
+export const validateCategoryProfile = (
+  raw: unknown
+): RecordResult<{ category: string; profile: AlertProfile }> => {
+  if (!isObject(raw)) return fail('notObject');
+  if (!isNonEmptyString(raw.category)) return fail('missingCategory');
+  const profile = validateAlertProfile(raw.profile);
+  if (!profile) return fail('invalidAlertProfile');
+  return { ok: true, value: { category: raw.category, profile } };
+};
+
+export const validateCategory = (raw: unknown): RecordResult<Category> => {
+  if (!isObject(raw)) return fail('notObject');
+  if (!isNonEmptyString(raw.id)) return fail('missingId');
+  if (!isNonEmptyString(raw.name)) return fail('missingName');
+  return {
+    ok: true,
+    value: {
+      id: raw.id,
+      name: raw.name.trim(),
+      color:
+        typeof raw.color === 'string' && /^#[0-9a-f]{6}$/i.test(raw.color)
+          ? raw.color
+          : CATEGORY_COLORS[0],
+      icon: CATEGORY_ICONS.includes(raw.icon as string)
+        ? (raw.icon as string)
+        : CATEGORY_ICONS[0],
+      order: optionalNumber(raw.order) ?? 0,
+      alertProfile: validateAlertProfile(raw.alertProfile),
+    },
+  };
+};
+
+/** Templates are checked as idle timers and keep only their setup. */
+export const validateTemplate = (raw: unknown): RecordResult<TimerTemplate> => {
+  if (!isObject(raw)) return fail('notObject');
+  const result = validateTimer({ ...raw, status: 'idle', schedule: undefined });
+  if (!result.ok) return result;
+  const timer = result.value;
+  return {
+    ok: true,
+    value: {
+      id: timer.id,
+      name: timer.name,
+      category: timer.category,
+      mode: timer.mode,
+      duration: timer.duration,
+      alerts: timer.alerts,
+      alertProfile: timer.alertProfile,
+      routine: timer.routine,
+      interval: timer.interval,
+      targetTime: timer.targetTime,
+      builtIn: raw.builtIn === true ? true : undefined,
+    },
+  };
+};
+
+/** Unknown or missing settings fall back to their defaults. */
+export const validateViewSettings = (
+  raw: unknown
+): RecordResult<ViewSettings> => {
+  if (!isObject(raw)) return fail('notObject');
+  return {
+    ok: true,
+    value: {
+      sortMode: SORT_MODES.some(({ value }) => value === raw.sortMode)
+        ? (raw.sortMode as SortMode)
+        : DEFAULT_VIEW_SETTINGS.sortMode,
+      statusFilter: STATUS_FILTERS.some(
+        ({ value }) => value === raw.statusFilter
+      )
+        ? (raw.statusFilter as StatusFilter)
+        : DEFAULT_VIEW_SETTINGS.statusFilter,
+      expandedCategories: Array.isArray(raw.expandedCategories)
+        ? raw.expandedCategories.filter(isNonEmptyString)
+        : DEFAULT_VIEW_SETTINGS.expandedCategories,
+    },
+  };
+};
+
+/** Parts of an export bundle whose rows are validated one by one. */
+export type RowSection =
+  | 'timers'
+  | 'history'
+  | 'categories'
+  | 'categoryProfiles'
+  | 'templates';
+
+export type RowError = {
+  section: RowSection;
+  index: number;
+  error: RecordError;
+};
+
+/** Validates each row, keeping the good ones and reporting the rest. */
+export const validateRows = <T>(
+  rows: unknown,
+  section: RowSection,
+  validate: (raw: unknown) => RecordResult<T>
+): { valid: T[]; errors: RowError[] } => {
+  const valid: T[] = [];
+  const errors: RowError[] = [];
+  if (!Array.isArray(rows)) {
+    return rows === undefined
+      ? { valid, errors }
+      : { valid, errors: [{ section, index: -1, error: 'notList' }] };
+  }
+  rows.forEach((row, index) => {
+    const result = validate(row);
+    if (result.ok) {
+      valid.push(result.value);
+    } else {
+      errors.push({ section, index, error: result.error });
+    }
+  });
+  return { valid, errors };
+};